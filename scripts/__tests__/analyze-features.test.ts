@@ -0,0 +1,171 @@
+/**
+ * Test suite for analyze-features module
+ *
+ * Coverage:
+ * - Steps, expressions, nodes, events, state types and program
+ *   sections are detected and named
+ * - Literal values and state initial values are not analysed
+ * - Kinds missing from the catalog get a generic name
+ * - Overrides pin, rename, add and hide features
+ * - Stale override ids are rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  PREVIEW_SIZE,
+  detectFeatures,
+  resolveFeatures,
+} from '../analyze-features.js';
+
+// ==================== Test Fixtures ====================
+
+const program = {
+  version: '1.0',
+  theme: { mode: 'dark' },
+  state: {
+    items: { type: 'list', initial: [{ kind: 'portal', do: 'fetch' }] },
+    count: { type: 'number', initial: 0 },
+  },
+  actions: [
+    {
+      name: 'load',
+      steps: [
+        { do: 'set', target: 'count', value: { expr: 'lit', value: 0 } },
+        { do: 'fetch', url: { expr: 'lit', value: { expr: 'cond' } } },
+      ],
+    },
+  ],
+  view: {
+    kind: 'element',
+    tag: 'div',
+    props: { onClick: { event: 'click', action: 'load' } },
+    children: [
+      {
+        kind: 'each',
+        items: { expr: 'state', name: 'items' },
+        as: 'item',
+        body: {
+          kind: 'if',
+          condition: { expr: 'not', operand: { expr: 'var', name: 'item' } },
+          then: { kind: 'hologram' },
+        },
+      },
+    ],
+  },
+};
+
+const ids = (features: { id: string }[]) => features.map((feature) => feature.id);
+
+describe('analyze-features', () => {
+  // ==================== detectFeatures ====================
+
+  describe('detectFeatures', () => {
+    it('should detect features grouped by kind in order of first use', () => {
+      expect(ids(detectFeatures(program))).toEqual([
+        'program:theme',
+        'state:list',
+        'state:number',
+        'event:click',
+        'do:fetch',
+        'node:each',
+        'node:if',
+        'node:hologram',
+        'expr:not',
+      ]);
+    });
+
+    it('should name features from the catalog', () => {
+      const features = detectFeatures(program);
+
+      expect(features).toContainEqual({
+        id: 'do:fetch',
+        name: 'Fetch step',
+        category: 'action',
+      });
+      expect(features).toContainEqual({
+        id: 'program:theme',
+        name: 'Theme configuration',
+        category: 'theme',
+      });
+    });
+
+    it('should give kinds missing from the catalog a generic name', () => {
+      expect(detectFeatures(program)).toContainEqual({
+        id: 'node:hologram',
+        name: 'hologram nodes',
+        category: 'view',
+      });
+    });
+
+    it('should skip literal values and state initial values', () => {
+      const features = ids(detectFeatures(program));
+
+      expect(features).not.toContain('expr:cond');
+      expect(features).not.toContain('node:portal');
+    });
+
+    it('should return nothing for a non-object program', () => {
+      expect(detectFeatures(null)).toEqual([]);
+    });
+  });
+
+  // ==================== resolveFeatures ====================
+
+  describe('resolveFeatures', () => {
+    const detected = detectFeatures(program);
+
+    it(`should preview the first ${PREVIEW_SIZE} detected features`, () => {
+      const { featuresPreview, featuresExtra } = resolveFeatures(detected);
+
+      expect(featuresPreview.map((feature) => feature.name)).toEqual([
+        'Theme configuration',
+        'List state',
+        'Number state',
+      ]);
+      expect(featuresExtra).toHaveLength(detected.length - PREVIEW_SIZE);
+      expect(featuresExtra[0]).toEqual({ name: 'Click event handlers', category: 'action' });
+    });
+
+    it('should pin, rename, add and hide features', () => {
+      // Act
+      const { featuresPreview, featuresExtra } = resolveFeatures(detected, {
+        preview: ['do:fetch', { id: 'node:each', name: 'Lists', category: 'view' }],
+        extra: [{ name: 'Loading state', category: 'state' }],
+        hide: ['node:hologram', 'expr:not'],
+      });
+
+      // Assert
+      expect(featuresPreview.map((feature) => feature.name)).toEqual([
+        'Fetch step',
+        'Lists',
+        'Theme configuration',
+      ]);
+      expect(featuresExtra.map((feature) => feature.name)).toEqual([
+        'Loading state',
+        'List state',
+        'Number state',
+        'Click event handlers',
+        'Conditional rendering',
+      ]);
+    });
+
+    it('should not repeat a detected feature listed by name', () => {
+      const { featuresPreview, featuresExtra } = resolveFeatures(detected, {
+        extra: [{ name: 'Each loop', category: 'view' }],
+      });
+
+      const names = [...featuresPreview, ...featuresExtra].map((feature) => feature.name);
+      expect(names.filter((name) => name === 'Each loop')).toHaveLength(1);
+    });
+
+    it('should reject ids the program does not use', () => {
+      expect(() => resolveFeatures(detected, { preview: ['do:storage'] })).toThrow(
+        'Feature "do:storage" is not used by the program',
+      );
+      expect(() => resolveFeatures(detected, { hide: ['expr:cond'] })).toThrow(
+        'Feature "expr:cond" is not used by the program',
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Test suite for bundle-playground module
+ *
+ * Coverage:
+ * - The helpers bundle into one self-contained ES module
+ * - The playground route maps the bundle in its externalImports
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  PLAYGROUND_MODULE,
+  PLAYGROUND_MODULE_URL,
+  bundlePlayground,
+} from '../bundle-playground.js';
+
+const repoRoot = join(import.meta.dirname, '../..');
+
+// Helpers called by src/routes/playground.json and the docs routes
+const HELPERS = [
+  'consumeSharedCode',
+  'shareProgram',
+  'toDiagnostics',
+  'showDiagnostics',
+  'revealDiagnostic',
+  'registerProgramSchema',
+  'createOutputPanel',
+  'createInspector',
+  'createAutoRunner',
+  'createFormatCommands',
+  'watchPlaygroundEmbeds',
+];
+
+describe('bundle-playground', () => {
+  let outdir: string;
+
+  beforeEach(async () => {
+    outdir = await mkdtemp(join(tmpdir(), 'bundle-playground-'));
+  });
+
+  afterEach(async () => {
+    await rm(outdir, { recursive: true, force: true });
+  });
+
+  it('should bundle the helpers into one ES module', async () => {
+    // Act
+    const outfile = await bundlePlayground(repoRoot, outdir);
+
+    // Assert
+    const code = await readFile(outfile, 'utf-8');
+    expect(code).not.toMatch(/\bimport\s*[{(*"']/);
+    const exports = code.match(/export\s*\{([^}]*)\}/)?.[1] ?? '';
+    for (const name of HELPERS) {
+      expect(exports).toMatch(new RegExp(`\\b${name}\\b`));
+    }
+  });
+
+  it('should be mapped by the playground route', async () => {
+    const route = JSON.parse(
+      await readFile(join(repoRoot, 'src/routes/playground.json'), 'utf-8'),
+    ) as { externalImports: Record<string, string> };
+
+    expect(route.externalImports[PLAYGROUND_MODULE]).toBe(PLAYGROUND_MODULE_URL);
+  });
+
+  it.each(['src/routes/docs/[...slug].json', 'src/routes/reference/[...slug].json'])(
+    'should be mapped by %s for playground embeds',
+    async (path) => {
+      const route = JSON.parse(await readFile(join(repoRoot, path), 'utf-8')) as {
+        externalImports: Record<string, string>;
+      };
+
+      expect(route.externalImports[PLAYGROUND_MODULE]).toBe(PLAYGROUND_MODULE_URL);
+    },
+  );
+});
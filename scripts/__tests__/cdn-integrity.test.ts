@@ -0,0 +1,407 @@
+/**
+ * Test suite for cdn-integrity module
+ *
+ * Coverage:
+ * - Compute SRI strings (sha384, base64)
+ * - Resolve a package's ESM entry file from package.json
+ * - Find the bare imports of an entry file
+ * - Compute integrity from node_modules
+ * - Build the externalImportsIntegrity sidecar map
+ * - Detect unpinned, missing, mismatched and unverifiable hashes
+ * - Detect bare imports missing from externalImports
+ * - Place the sidecar map next to externalImports
+ * - Skip self-hosted vendor URLs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  checkIntegrity,
+  computeIntegrity,
+  computePackageIntegrity,
+  findBareImports,
+  resolvePackageEntry,
+  syncIntegrity,
+  type PackageIntegrity,
+} from '../cdn-integrity.js';
+
+// ==================== Test Fixtures ====================
+
+const CDN_BASE = 'https://cdn.jsdelivr.net/npm';
+
+function cdnUrl(pkg: string, version: string): string {
+  return `${CDN_BASE}/${pkg}@${version}/dist/index.js`;
+}
+
+function esmUrl(pkg: string, version: string): string {
+  return `${CDN_BASE}/${pkg}@${version}/+esm`;
+}
+
+const CORE_INTEGRITY: PackageIntegrity = {
+  version: '0.23.0',
+  file: 'dist/index.js',
+  integrity: 'sha384-core',
+  imports: [],
+};
+
+const RUNTIME_INTEGRITY: PackageIntegrity = {
+  version: '7.0.0',
+  file: 'dist/index.js',
+  integrity: 'sha384-runtime',
+  imports: ['@constela/core'],
+};
+
+describe('cdn-integrity', () => {
+  // ==================== computeIntegrity ====================
+
+  describe('computeIntegrity', () => {
+    it('should return a sha384 SRI string', () => {
+      // Arrange
+      const content = 'export const x = 1;\n';
+      const expected =
+        'sha384-' + createHash('sha384').update(content).digest('base64');
+
+      // Act
+      const result = computeIntegrity(content);
+
+      // Assert
+      expect(result).toBe(expected);
+    });
+  });
+
+  // ==================== resolvePackageEntry ====================
+
+  describe('resolvePackageEntry', () => {
+    it('should prefer the import condition of exports["."]', () => {
+      // Arrange
+      const packageJson = {
+        exports: {
+          '.': {
+            types: './dist/index.d.ts',
+            import: './dist/index.js',
+            require: './dist/index.cjs',
+          },
+        },
+        main: './dist/index.cjs',
+      };
+
+      // Act & Assert
+      expect(resolvePackageEntry(packageJson)).toBe('dist/index.js');
+    });
+
+    it('should fall back to module, then main', () => {
+      expect(resolvePackageEntry({ module: './esm/main.js', main: 'index.js' })).toBe(
+        'esm/main.js',
+      );
+      expect(resolvePackageEntry({ main: 'lib/index.js' })).toBe('lib/index.js');
+    });
+  });
+
+  // ==================== findBareImports ====================
+
+  describe('findBareImports', () => {
+    it('should find static and side-effect bare imports', () => {
+      // Arrange
+      const source = [
+        'import {',
+        '  a,',
+        '  b',
+        '} from "@constela/core";',
+        "import'side-effect';",
+        'export*from"@constela/core";',
+        'export { c } from "re-export";',
+      ].join('\n');
+
+      // Act & Assert
+      expect(findBareImports(source)).toEqual(['@constela/core', 'side-effect', 're-export']);
+    });
+
+    it('should skip dynamic imports and strings that mention import', () => {
+      // Arrange
+      const source = [
+        "const m = await import('lazy-pkg');",
+        'switch (step.do) {',
+        '  case "import": {',
+        '    break;',
+        '  }',
+        '}',
+        'export const name = "not-a-module";',
+      ].join('\n');
+
+      // Act & Assert
+      expect(findBareImports(source)).toEqual([]);
+    });
+
+    it('should leave out relative, absolute and URL specifiers', () => {
+      // Arrange
+      const source = [
+        'import a from "./chunk.js";',
+        'import b from "../up.js";',
+        'import c from "/abs.js";',
+        'import d from "https://cdn.example.com/d.js";',
+      ].join('\n');
+
+      // Act & Assert
+      expect(findBareImports(source)).toEqual([]);
+    });
+  });
+
+  // ==================== computePackageIntegrity ====================
+
+  describe('computePackageIntegrity', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'cdn-integrity-'));
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should hash the installed entry file', async () => {
+      // Arrange
+      const packageDir = join(projectRoot, 'node_modules/@constela/core');
+      await mkdir(join(packageDir, 'dist'), { recursive: true });
+      await writeFile(
+        join(packageDir, 'package.json'),
+        JSON.stringify({ version: '0.23.0', module: './dist/index.js' }),
+        'utf-8',
+      );
+      const source = 'import { x } from "@constela/ai";\nexport { x };\n';
+      await writeFile(join(packageDir, 'dist/index.js'), source, 'utf-8');
+
+      // Act
+      const result = await computePackageIntegrity(projectRoot, '@constela/core');
+
+      // Assert
+      expect(result).toEqual({
+        version: '0.23.0',
+        file: 'dist/index.js',
+        integrity: computeIntegrity(source),
+        imports: ['@constela/ai'],
+      });
+    });
+
+    it('should return null when the package is not installed', async () => {
+      // Act
+      const result = await computePackageIntegrity(projectRoot, '@constela/core');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  // ==================== syncIntegrity ====================
+
+  describe('syncIntegrity', () => {
+    it('should add hashes for URLs pinned to the installed version', () => {
+      // Arrange
+      const url = cdnUrl('@constela/core', '0.23.0');
+
+      // Act
+      const result = syncIntegrity({ '@constela/core': url }, {}, {
+        '@constela/core': CORE_INTEGRITY,
+      });
+
+      // Assert
+      expect(result.integrity).toEqual({ [url]: 'sha384-core' });
+      expect(result.updated).toEqual(['@constela/core']);
+    });
+
+    it('should keep stored hashes when the installed version differs from the URL', () => {
+      // Arrange
+      const url = cdnUrl('@constela/core', '0.22.0');
+
+      // Act
+      const result = syncIntegrity(
+        { '@constela/core': url },
+        { [url]: 'sha384-old' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.integrity).toEqual({ [url]: 'sha384-old' });
+      expect(result.skipped).toEqual(['@constela/core']);
+    });
+
+    it('should drop hashes for bundles generated by the CDN', () => {
+      // Arrange
+      const url = esmUrl('@constela/core', '0.23.0');
+
+      // Act
+      const result = syncIntegrity(
+        { '@constela/core': url },
+        { [url]: 'sha384-core' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.integrity).toEqual({});
+      expect(result.skipped).toEqual(['@constela/core']);
+    });
+
+    it('should drop hashes for URLs no longer in externalImports', () => {
+      // Arrange
+      const url = cdnUrl('@constela/core', '0.23.0');
+      const staleUrl = cdnUrl('@constela/core', '0.22.0');
+
+      // Act
+      const result = syncIntegrity(
+        { '@constela/core': url },
+        { [staleUrl]: 'sha384-old', [url]: 'sha384-core' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.integrity).toEqual({ [url]: 'sha384-core' });
+      expect(result.updated).toEqual([]);
+    });
+  });
+
+  // ==================== checkIntegrity ====================
+
+  describe('checkIntegrity', () => {
+    const url = cdnUrl('@constela/core', '0.23.0');
+
+    it('should succeed when stored hashes match the installed files', () => {
+      // Act
+      const result = checkIntegrity(
+        { '@constela/core': url },
+        { [url]: 'sha384-core' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it('should report a missing hash', () => {
+      // Act
+      const result = checkIntegrity({ '@constela/core': url }, {}, {
+        '@constela/core': CORE_INTEGRITY,
+      });
+
+      // Assert
+      expect(result.mismatches).toEqual([
+        { package: '@constela/core', url, reason: 'missing' },
+      ]);
+    });
+
+    it('should report a stored hash that no longer matches', () => {
+      // Act
+      const result = checkIntegrity(
+        { '@constela/core': url },
+        { [url]: 'sha384-tampered' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.mismatches[0]).toEqual({
+        package: '@constela/core',
+        url,
+        reason: 'mismatch',
+        expected: 'sha384-core',
+        actual: 'sha384-tampered',
+      });
+    });
+
+    it('should report a hash that cannot be verified against the installed version', () => {
+      // Arrange
+      const oldUrl = cdnUrl('@constela/core', '0.22.0');
+
+      // Act
+      const result = checkIntegrity(
+        { '@constela/core': oldUrl },
+        { [oldUrl]: 'sha384-old' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.mismatches[0].reason).toBe('unverifiable');
+    });
+
+    it('should report a URL that serves a bundle generated by the CDN', () => {
+      // Arrange
+      const bundleUrl = esmUrl('@constela/core', '0.23.0');
+
+      // Act
+      const result = checkIntegrity(
+        { '@constela/core': bundleUrl },
+        { [bundleUrl]: 'sha384-core' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.mismatches).toEqual([
+        { package: '@constela/core', url: bundleUrl, reason: 'unpinned' },
+      ]);
+    });
+
+    it('should report a URL that serves another file than the entry file', () => {
+      // Arrange
+      const otherUrl = `${CDN_BASE}/@constela/core@0.23.0/dist/other.js`;
+
+      // Act
+      const result = checkIntegrity(
+        { '@constela/core': otherUrl },
+        { [otherUrl]: 'sha384-core' },
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.mismatches[0].reason).toBe('unverifiable');
+    });
+
+    it('should report bare imports missing from externalImports', () => {
+      // Arrange
+      const runtimeUrl = cdnUrl('@constela/runtime', '7.0.0');
+
+      // Act
+      const result = checkIntegrity(
+        { '@constela/runtime': runtimeUrl },
+        { [runtimeUrl]: 'sha384-runtime' },
+        { '@constela/runtime': RUNTIME_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.mismatches).toEqual([
+        {
+          package: '@constela/runtime',
+          url: runtimeUrl,
+          reason: 'unmapped',
+          unmapped: ['@constela/core'],
+        },
+      ]);
+    });
+
+    it('should ignore self-hosted vendor URLs', () => {
+      // Act
+      const result = checkIntegrity(
+        { '@constela/core': '/vendor/@constela/core@0.23.0/index.js' },
+        {},
+        { '@constela/core': CORE_INTEGRITY },
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it('should ignore packages outside the allowlist', () => {
+      // Act
+      const result = checkIntegrity(
+        { 'monaco-editor': cdnUrl('monaco-editor', '0.52.2') },
+        {},
+        {},
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Test suite for cdn-providers module
+ *
+ * Coverage:
+ * - Build URLs for jsdelivr, esm.sh, unpkg and self-hosted vendor paths
+ * - Parse URLs back into package, version and served package file
+ * - Detect the provider of a URL
+ * - Reject unknown provider names
+ * - Recognize self-hosted vendor URLs
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  CDN_PROVIDERS,
+  detectCdnProvider,
+  getCdnProvider,
+  isVendorUrl,
+  parseCdnUrl,
+} from '../cdn-providers.js';
+
+describe('cdn-providers', () => {
+  // ==================== buildUrl ====================
+
+  describe('buildUrl', () => {
+    it('should build jsdelivr +esm URLs', () => {
+      expect(CDN_PROVIDERS.jsdelivr.buildUrl('@constela/core', '0.23.0')).toBe(
+        'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/+esm',
+      );
+    });
+
+    it('should build jsdelivr URLs pinned to a package file', () => {
+      expect(
+        CDN_PROVIDERS.jsdelivr.buildUrl('@constela/core', '0.23.0', 'dist/index.js'),
+      ).toBe('https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/dist/index.js');
+    });
+
+    it('should build esm.sh URLs', () => {
+      expect(CDN_PROVIDERS['esm.sh'].buildUrl('monaco-editor', '0.52.2')).toBe(
+        'https://esm.sh/monaco-editor@0.52.2',
+      );
+    });
+
+    it('should build unpkg URLs pointing at the entry file', () => {
+      expect(
+        CDN_PROVIDERS.unpkg.buildUrl('@constela/core', '0.23.0', 'dist/index.js'),
+      ).toBe('https://unpkg.com/@constela/core@0.23.0/dist/index.js');
+    });
+
+    it('should build self-hosted vendor bundle paths', () => {
+      expect(CDN_PROVIDERS.vendor.buildUrl('@constela/core', '0.23.0')).toBe(
+        '/vendor/@constela/core@0.23.0/index.js',
+      );
+    });
+  });
+
+  // ==================== parseUrl ====================
+
+  describe('parseUrl', () => {
+    it.each([
+      ['jsdelivr', 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/+esm'],
+      ['esm.sh', 'https://esm.sh/@constela/core@0.23.0'],
+      ['unpkg', 'https://unpkg.com/@constela/core@0.23.0'],
+      ['vendor', '/vendor/@constela/core@0.23.0/index.js'],
+    ] as const)('should parse %s URLs', (name, url) => {
+      expect(CDN_PROVIDERS[name].parseUrl(url)).toEqual({
+        packageName: '@constela/core',
+        version: '0.23.0',
+      });
+    });
+
+    it.each([
+      ['jsdelivr', 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/dist/index.js'],
+      ['unpkg', 'https://unpkg.com/@constela/core@0.23.0/dist/index.js'],
+    ] as const)('should parse the package file served by %s URLs', (name, url) => {
+      expect(CDN_PROVIDERS[name].parseUrl(url)).toEqual({
+        packageName: '@constela/core',
+        version: '0.23.0',
+        file: 'dist/index.js',
+      });
+    });
+
+    it.each([
+      ['jsdelivr', 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/dist/index.js/+esm'],
+      ['unpkg', 'https://unpkg.com/@constela/core@0.23.0/dist/index.js?module'],
+      ['esm.sh', 'https://esm.sh/@constela/core@0.23.0/es2022/core.mjs'],
+    ] as const)('should not report a package file for generated %s bundles', (name, url) => {
+      expect(CDN_PROVIDERS[name].parseUrl(url)).toEqual({
+        packageName: '@constela/core',
+        version: '0.23.0',
+      });
+    });
+
+    it('should parse non-scoped packages and prerelease versions', () => {
+      expect(
+        CDN_PROVIDERS.jsdelivr.parseUrl(
+          'https://cdn.jsdelivr.net/npm/monaco-editor@0.53.0-dev.1/+esm',
+        ),
+      ).toEqual({ packageName: 'monaco-editor', version: '0.53.0-dev.1' });
+    });
+
+    it('should return null for URLs built by another provider', () => {
+      expect(
+        CDN_PROVIDERS.unpkg.parseUrl(
+          'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/+esm',
+        ),
+      ).toBeNull();
+    });
+  });
+
+  // ==================== detectCdnProvider / parseCdnUrl ====================
+
+  describe('detectCdnProvider', () => {
+    it('should detect the provider that built a URL', () => {
+      expect(detectCdnProvider('https://esm.sh/monaco-editor@0.52.2')?.name).toBe(
+        'esm.sh',
+      );
+      expect(detectCdnProvider('/vendor/monaco-editor@0.52.2/index.js')?.name).toBe(
+        'vendor',
+      );
+    });
+
+    it('should return null for unknown hosts', () => {
+      expect(detectCdnProvider('https://example.com/core@0.23.0.js')).toBeNull();
+      expect(parseCdnUrl('https://example.com/core@0.23.0.js')).toBeNull();
+    });
+  });
+
+  // ==================== getCdnProvider ====================
+
+  describe('getCdnProvider', () => {
+    it('should throw for unknown provider names', () => {
+      expect(() => getCdnProvider('skypack')).toThrow(/Unknown CDN provider "skypack"/);
+    });
+  });
+
+  // ==================== isVendorUrl ====================
+
+  describe('isVendorUrl', () => {
+    it('should recognize self-hosted vendor bundles only', () => {
+      expect(isVendorUrl('/vendor/@constela/core@0.23.0/index.js')).toBe(true);
+      expect(
+        isVendorUrl('https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/+esm'),
+      ).toBe(false);
+    });
+  });
+});
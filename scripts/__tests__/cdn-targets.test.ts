@@ -0,0 +1,151 @@
+/**
+ * Test suite for cdn-targets module
+ *
+ * Coverage:
+ * - Load package.json, installed versions and integrities once
+ * - Report packages with no installed version
+ * - Check a target's versions and integrity hashes
+ * - Sync a target without writing it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import {
+  checkCdnTarget,
+  loadCdnInputs,
+  syncCdnTarget,
+} from '../cdn-targets.js';
+import { computeIntegrity } from '../cdn-integrity.js';
+
+// ==================== Test Fixtures ====================
+
+const CORE_SOURCE = 'export const core = 1;\n';
+const ROUTE_FILE = 'src/routes/playground.json';
+
+async function writeText(root: string, file: string, content: string): Promise<void> {
+  const filePath = join(root, file);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf-8');
+}
+
+async function writeJson(root: string, file: string, json: unknown): Promise<void> {
+  await writeText(root, file, JSON.stringify(json, null, 2) + '\n');
+}
+
+describe('cdn-targets', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'cdn-targets-'));
+    await writeJson(projectRoot, 'package.json', {
+      dependencies: {
+        '@constela/core': '^0.23.0',
+        '@constela/runtime': '^7.0.0',
+        react: '^19.0.0',
+      },
+    });
+    await writeJson(projectRoot, 'node_modules/@constela/core/package.json', {
+      version: '0.23.1',
+      exports: { '.': { import: './dist/index.js' } },
+    });
+    await writeText(projectRoot, 'node_modules/@constela/core/dist/index.js', CORE_SOURCE);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  // ==================== loadCdnInputs ====================
+
+  describe('loadCdnInputs', () => {
+    it('should load allowlisted packages and their installed versions', async () => {
+      // Act
+      const inputs = await loadCdnInputs(projectRoot, []);
+
+      // Assert
+      expect(inputs.mode).toBe('installed');
+      expect(inputs.packageNames).toEqual(['@constela/core', '@constela/runtime']);
+      expect(inputs.installedVersions).toEqual({ '@constela/core': '0.23.1' });
+      expect(inputs.notInstalled).toEqual(['@constela/runtime']);
+      expect(inputs.entryFiles).toEqual({ '@constela/core': 'dist/index.js' });
+    });
+
+    it('should skip installed versions in declared mode', async () => {
+      const inputs = await loadCdnInputs(projectRoot, ['--mode=declared']);
+
+      expect(inputs.installedVersions).toBeUndefined();
+      expect(inputs.notInstalled).toEqual([]);
+    });
+  });
+
+  // ==================== checkCdnTarget / syncCdnTarget ====================
+
+  describe('checkCdnTarget and syncCdnTarget', () => {
+    beforeEach(async () => {
+      await writeJson(projectRoot, ROUTE_FILE, {
+        version: '1.0',
+        externalImports: {
+          '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/+esm',
+        },
+      });
+    });
+
+    it('should report outdated versions and bundles that cannot be hashed', async () => {
+      // Arrange
+      const inputs = await loadCdnInputs(projectRoot, []);
+
+      // Act
+      const result = await checkCdnTarget(inputs, inputs.targets[0]!);
+
+      // Assert
+      expect(result.target.label).toBe(ROUTE_FILE);
+      expect(result.success).toBe(false);
+      expect(result.versionMismatches).toEqual([
+        expect.objectContaining({
+          package: '@constela/core',
+          packageJsonVersion: '0.23.1',
+          playgroundVersion: '0.23.0',
+        }),
+      ]);
+      expect(result.integrityMismatches.map((m) => m.reason)).toEqual(['unpinned']);
+    });
+
+    it('should sync a target without writing it', async () => {
+      // Arrange
+      const inputs = await loadCdnInputs(projectRoot, []);
+      const path = join(projectRoot, ROUTE_FILE);
+      const before = await readFile(path, 'utf-8');
+
+      // Act
+      const result = await syncCdnTarget(inputs, inputs.targets[0]!);
+
+      // Assert
+      expect(result.content).toBe(before);
+      expect(await readFile(path, 'utf-8')).toBe(before);
+      expect(result.updated).toEqual(['@constela/core']);
+      expect(result.integrityUpdated).toEqual(['@constela/core']);
+      const synced = JSON.parse(result.nextContent);
+      const url = synced.externalImports['@constela/core'];
+      expect(url).toBe('https://cdn.jsdelivr.net/npm/@constela/core@0.23.1/dist/index.js');
+      expect(synced.externalImportsIntegrity[url]).toBe(computeIntegrity(CORE_SOURCE));
+    });
+
+    it('should pass a target once it is synced', async () => {
+      // Arrange
+      const inputs = await loadCdnInputs(projectRoot, []);
+      const synced = await syncCdnTarget(inputs, inputs.targets[0]!);
+      await writeFile(join(projectRoot, ROUTE_FILE), synced.nextContent, 'utf-8');
+
+      // Act
+      const result = await checkCdnTarget(inputs, inputs.targets[0]!);
+      const again = await syncCdnTarget(inputs, inputs.targets[0]!);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(again.nextContent).toBe(again.content);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Test suite for check-examples module
+ *
+ * Coverage:
+ * - Consistent examples data passes
+ * - Stale codeStrings / defaultCodeString and wrong $refs are reported
+ * - featuresExtraCount must match featuresExtra
+ * - Duplicate slugs and entries without an example are reported
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  checkExamples,
+  formatExampleCode,
+  type ExamplesData,
+} from '../check-examples.js';
+
+// ==================== Test Fixtures ====================
+
+const FILE = 'src/data/examples.json';
+
+function createData(): ExamplesData {
+  const code = { version: '1.0', state: {}, actions: [], view: { kind: 'text' } };
+  return {
+    examples: [
+      {
+        slug: 'counter',
+        title: 'Counter',
+        featuresExtra: [{ name: 'State updates' }],
+        featuresExtraCount: 1,
+        code,
+      },
+    ],
+    items: { counter: { $ref: '#/examples/0' } },
+    codes: { counter: { $ref: '#/examples/0/code' } },
+    codeStrings: { counter: formatExampleCode(code) },
+    defaultCode: 'counter',
+    defaultCodeString: formatExampleCode(code),
+  };
+}
+
+describe('check-examples', () => {
+  it('should pass for consistent data', () => {
+    expect(checkExamples(createData(), FILE)).toEqual([]);
+  });
+
+  it('should report stale code strings', () => {
+    // Arrange
+    const data = createData();
+    data.examples[0].code = { version: '1.0', view: { kind: 'element', tag: 'p' } };
+
+    // Act
+    const issues = checkExamples(data, FILE);
+
+    // Assert
+    expect(issues.map((issue) => issue.pointer)).toEqual([
+      '/codeStrings/counter',
+      '/defaultCodeString',
+    ]);
+  });
+
+  it('should report wrong $refs and featuresExtraCount', () => {
+    // Arrange
+    const data = createData();
+    data.items.counter = { $ref: '#/examples/1' };
+    delete (data.codes as Record<string, unknown>).counter;
+    data.examples[0].featuresExtraCount = 3;
+
+    // Act
+    const issues = checkExamples(data, FILE);
+
+    // Assert
+    expect(issues).toEqual([
+      { file: FILE, pointer: '/items/counter', message: 'Expected {"$ref": "#/examples/0"}' },
+      { file: FILE, pointer: '/codes/counter', message: 'Expected {"$ref": "#/examples/0/code"}' },
+      {
+        file: FILE,
+        pointer: '/examples/0/featuresExtraCount',
+        message: 'Expected 1 (length of featuresExtra)',
+      },
+    ]);
+  });
+
+  it('should report duplicate slugs and orphaned entries', () => {
+    // Arrange
+    const data = createData();
+    data.examples.push({ ...data.examples[0] });
+    data.codeStrings.removed = '{}';
+    data.defaultCode = 'removed';
+
+    // Act
+    const messages = checkExamples(data, FILE).map((issue) => issue.message);
+
+    // Assert
+    expect(messages).toContain('Duplicate example slug "counter"');
+    expect(messages).toContain('No example with slug "removed"');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Test suite for check-navigation module
+ *
+ * Coverage:
+ * - Collect hrefs with JSON pointers from nested navigation
+ * - Report links and pagination entries for unknown pages
+ * - Ignore external links, anchors and query strings
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  checkNavigation,
+  collectHrefs,
+  escapePointerSegment,
+} from '../check-navigation.js';
+
+const FILE = 'src/data/navigation.json';
+
+describe('check-navigation', () => {
+  describe('escapePointerSegment', () => {
+    it('should escape ~ and /', () => {
+      expect(escapePointerSegment('/docs~x')).toBe('~1docs~0x');
+    });
+  });
+
+  describe('collectHrefs', () => {
+    it('should collect nested hrefs with their pointers', () => {
+      // Arrange
+      const navigation = {
+        topNav: [{ title: 'Docs', href: '/docs' }],
+        docsNavigation: [{ title: 'Start', items: [{ href: '/docs/installation' }] }],
+      };
+
+      // Act
+      const hrefs = collectHrefs(navigation);
+
+      // Assert
+      expect(hrefs).toEqual([
+        { href: '/docs', pointer: '/topNav/0/href' },
+        { href: '/docs/installation', pointer: '/docsNavigation/0/items/0/href' },
+      ]);
+    });
+  });
+
+  describe('checkNavigation', () => {
+    const sitePaths = ['/', '/docs', '/docs/installation'];
+
+    it('should pass when every link points at a site path', () => {
+      // Arrange
+      const navigation = {
+        topNav: [
+          { href: '/docs#intro' },
+          { href: '/docs/installation?tab=pnpm' },
+          { href: 'https://example.com/changelog' },
+        ],
+        docsPagination: { '/docs': { prev: null, next: { href: '/docs/installation' } } },
+      };
+
+      // Act & Assert
+      expect(checkNavigation(navigation, sitePaths, FILE)).toEqual([]);
+    });
+
+    it('should report unknown links and pagination pages', () => {
+      // Arrange
+      const navigation = {
+        topNav: [{ href: '/docs/missing' }],
+        docsPagination: { '/docs/gone': { prev: null, next: null } },
+      };
+
+      // Act
+      const issues = checkNavigation(navigation, sitePaths, FILE);
+
+      // Assert
+      expect(issues).toEqual([
+        {
+          file: FILE,
+          pointer: '/topNav/0/href',
+          message: 'Link to unknown page /docs/missing',
+        },
+        {
+          file: FILE,
+          pointer: '/docsPagination/~1docs~1gone',
+          message: 'Pagination entry for unknown page /docs/gone',
+        },
+      ]);
+    });
+  });
+});
@@ -6,6 +6,11 @@
  * - Parse package.json version (strip ^ prefix)
  * - Check versions match
  * - Detect version mismatches
+ * - Package allowlist matching (exact names and scope patterns)
+ * - Read devDependencies as well as dependencies
+ * - Installed versions take precedence over declared range floors
+ * - Extract versions from every CDN provider URL shape
+ * - Report URLs that do not use the configured CDN provider
  *
  * This script validates that playground.json CDN versions match package.json versions
  * for @constela packages.
@@ -18,6 +23,9 @@ import {
   extractVersionFromCdnUrl,
   parsePackageJsonVersion,
   checkPlaygroundVersions,
+  collectPackageVersions,
+  isPackageAllowed,
+  resolveTargetVersion,
   type VersionCheckResult,
 } from '../check-playground-versions.js';
 
@@ -73,6 +81,15 @@ describe('check-playground-versions', () => {
       expect(result).toBe(expected);
     });
 
+    it('should extract version from esm.sh and vendor URLs', () => {
+      expect(extractVersionFromCdnUrl('https://esm.sh/@constela/core@0.23.0')).toBe(
+        '0.23.0',
+      );
+      expect(
+        extractVersionFromCdnUrl('/vendor/monaco-editor@0.52.2/esm/vs/editor/editor.main.js'),
+      ).toBe('0.52.2');
+    });
+
     it('should return null for invalid CDN URL', () => {
       // Arrange
       const cdnUrl = 'https://example.com/invalid-url';
@@ -137,6 +154,89 @@ describe('check-playground-versions', () => {
     });
   });
 
+  // ==================== resolveTargetVersion ====================
+
+  describe('resolveTargetVersion', () => {
+    it('should use the declared range floor by default', () => {
+      expect(resolveTargetVersion('@constela/runtime', '^7.0.0')).toBe('7.0.0');
+    });
+
+    it('should use the installed version when one is given', () => {
+      // Arrange
+      const options = { installedVersions: { '@constela/runtime': '7.3.1' } };
+
+      // Act
+      const result = resolveTargetVersion('@constela/runtime', '^7.0.0', options);
+
+      // Assert
+      expect(result).toBe('7.3.1');
+    });
+
+    it('should fall back to the range floor for packages not installed', () => {
+      // Arrange
+      const options = { installedVersions: { '@constela/core': '0.23.1' } };
+
+      // Act
+      const result = resolveTargetVersion('@constela/runtime', '^7.0.0', options);
+
+      // Assert
+      expect(result).toBe('7.0.0');
+    });
+  });
+
+  // ==================== isPackageAllowed ====================
+
+  describe('isPackageAllowed', () => {
+    it('should match packages in a scope pattern', () => {
+      expect(isPackageAllowed('@constela/core', ['@constela/*'])).toBe(true);
+    });
+
+    it('should match exact package names', () => {
+      expect(isPackageAllowed('monaco-editor', ['monaco-editor'])).toBe(true);
+    });
+
+    it('should not match packages outside the allowlist', () => {
+      expect(isPackageAllowed('monaco-editor', ['@constela/*'])).toBe(false);
+      expect(isPackageAllowed('@constela-x/core', ['@constela/*'])).toBe(false);
+      expect(isPackageAllowed('monaco-editor-extra', ['monaco-editor'])).toBe(false);
+    });
+  });
+
+  // ==================== collectPackageVersions ====================
+
+  describe('collectPackageVersions', () => {
+    it('should merge dependencies and devDependencies', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: { '@constela/core': '^0.23.0' },
+        devDependencies: { 'monaco-editor': '^0.52.2' },
+      };
+
+      // Act
+      const result = collectPackageVersions(packageJson);
+
+      // Assert
+      expect(result).toEqual({
+        '@constela/core': '^0.23.0',
+        'monaco-editor': '^0.52.2',
+      });
+    });
+
+    it('should prefer dependencies when a package appears in both', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: { 'monaco-editor': '^0.52.2' },
+        devDependencies: { 'monaco-editor': '^0.50.0' },
+      };
+
+      // Act
+      const result = collectPackageVersions(packageJson);
+
+      // Assert
+      expect(result['monaco-editor']).toBe('^0.52.2');
+    });
+  });
+
   // ==================== checkPlaygroundVersions ====================
 
   describe('checkPlaygroundVersions', () => {
@@ -270,5 +370,178 @@ describe('check-playground-versions', () => {
       // Only check packages that exist in both files
       expect(result.success).toBe(true);
     });
+
+    it('should check non-@constela packages in the allowlist', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.14.0',
+        },
+        devDependencies: {
+          'monaco-editor': '^0.52.2',
+        },
+      };
+
+      const playgroundJson = {
+        externalImports: {
+          '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.14.0/+esm',
+          'monaco-editor': 'https://cdn.jsdelivr.net/npm/monaco-editor@0.52.0/+esm',
+        },
+      };
+
+      // Act
+      const result = checkPlaygroundVersions(packageJson, playgroundJson, {
+        allowlist: ['@constela/*', 'monaco-editor'],
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.mismatches).toEqual([
+        {
+          package: 'monaco-editor',
+          packageJsonVersion: '0.52.2',
+          playgroundVersion: '0.52.0',
+        },
+      ]);
+    });
+
+    it('should compare CDN URLs against installed versions', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/runtime': '^7.0.0',
+        },
+      };
+
+      const playgroundJson = {
+        externalImports: {
+          '@constela/runtime': 'https://cdn.jsdelivr.net/npm/@constela/runtime@7.0.0/+esm',
+        },
+      };
+
+      // Act
+      const result = checkPlaygroundVersions(packageJson, playgroundJson, {
+        installedVersions: { '@constela/runtime': '7.3.1' },
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.mismatches).toEqual([
+        {
+          package: '@constela/runtime',
+          packageJsonVersion: '7.3.1',
+          playgroundVersion: '7.0.0',
+        },
+      ]);
+    });
+
+    it('should report URLs that do not use the configured provider', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.14.0',
+        },
+      };
+
+      const playgroundJson = {
+        externalImports: {
+          '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.14.0/+esm',
+        },
+      };
+
+      // Act
+      const result = checkPlaygroundVersions(packageJson, playgroundJson, {
+        provider: 'vendor',
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.mismatches).toEqual([
+        {
+          package: '@constela/core',
+          packageJsonVersion: '0.14.0',
+          playgroundVersion: '0.14.0',
+          expectedProvider: 'vendor',
+          actualProvider: 'jsdelivr',
+        },
+      ]);
+    });
+
+    it('should report URLs that are not pinned to the entry file', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.14.0',
+        },
+      };
+
+      const playgroundJson = {
+        externalImports: {
+          '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.14.0/+esm',
+        },
+      };
+
+      // Act
+      const result = checkPlaygroundVersions(packageJson, playgroundJson, {
+        provider: 'jsdelivr',
+        entryFiles: { '@constela/core': 'dist/index.js' },
+      });
+
+      // Assert
+      expect(result.mismatches).toEqual([
+        {
+          package: '@constela/core',
+          packageJsonVersion: '0.14.0',
+          playgroundVersion: '0.14.0',
+          expectedUrl: 'https://cdn.jsdelivr.net/npm/@constela/core@0.14.0/dist/index.js',
+        },
+      ]);
+    });
+
+    it('should accept self-hosted vendor URLs for any provider', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.14.0',
+        },
+      };
+
+      const playgroundJson = {
+        externalImports: {
+          '@constela/core': '/vendor/@constela/core@0.14.0/index.js',
+        },
+      };
+
+      // Act
+      const result = checkPlaygroundVersions(packageJson, playgroundJson, {
+        provider: 'jsdelivr',
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
+
+    it('should ignore @constela packages missing from a custom allowlist', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.15.0',
+        },
+      };
+
+      const playgroundJson = {
+        externalImports: {
+          '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.14.0/+esm',
+        },
+      };
+
+      // Act
+      const result = checkPlaygroundVersions(packageJson, playgroundJson, {
+        allowlist: ['monaco-editor'],
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+    });
   });
 });
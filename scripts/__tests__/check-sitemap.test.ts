@@ -0,0 +1,124 @@
+/**
+ * Test suite for check-sitemap module
+ *
+ * Coverage:
+ * - Parse <loc> paths
+ * - Report missing, unknown and duplicate entries
+ * - Fix in place: drop stale blocks, add missing ones next to siblings,
+ *   keep comments
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { checkSitemap, fixSitemap, parseSitemapPaths } from '../check-sitemap.js';
+
+// ==================== Test Fixtures ====================
+
+const FILE = 'public/sitemap.xml';
+
+function url(path: string, priority = '0.7'): string {
+  return [
+    '  <url>',
+    `    <loc>https://constela.dev${path}</loc>`,
+    '    <changefreq>weekly</changefreq>',
+    `    <priority>${priority}</priority>`,
+    '  </url>',
+  ].join('\n');
+}
+
+function sitemap(...blocks: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...blocks,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+describe('check-sitemap', () => {
+  describe('parseSitemapPaths', () => {
+    it('should return paths in document order', () => {
+      // Arrange
+      const xml = sitemap('  <!-- Home -->', url('/', '1.0'), url('/docs', '0.8'));
+
+      // Act & Assert
+      expect(parseSitemapPaths(xml)).toEqual(['/', '/docs']);
+    });
+  });
+
+  describe('checkSitemap', () => {
+    it('should report missing, unknown and duplicate entries', () => {
+      // Arrange
+      const xml = sitemap(url('/'), url('/old'), url('/'));
+
+      // Act
+      const issues = checkSitemap(xml, ['/', '/docs'], FILE);
+
+      // Assert
+      expect(issues).toEqual([
+        {
+          file: FILE,
+          pointer: 'https://constela.dev/old',
+          message: 'Entry for unknown page /old',
+        },
+        {
+          file: FILE,
+          pointer: 'https://constela.dev/',
+          message: 'Duplicate entry for /',
+        },
+        { file: FILE, message: 'Missing entry for /docs' },
+      ]);
+    });
+  });
+
+  describe('fixSitemap', () => {
+    it('should remove stale entries and add missing ones among siblings', () => {
+      // Arrange
+      const xml = sitemap(
+        '  <!-- Docs -->',
+        url('/docs', '0.8'),
+        url('/docs/hmr'),
+        url('/docs/routing'),
+        url('/docs/removed'),
+        '',
+        '  <!-- UI -->',
+        url('/ui', '0.8'),
+      );
+
+      // Act
+      const result = fixSitemap(xml, [
+        '/docs',
+        '/docs/hmr',
+        '/docs/installation',
+        '/docs/routing',
+        '/ui',
+        '/ui/button',
+      ]);
+
+      // Assert
+      expect(result).toBe(
+        sitemap(
+          '  <!-- Docs -->',
+          url('/docs', '0.8'),
+          url('/docs/hmr'),
+          url('/docs/installation'),
+          url('/docs/routing'),
+          '',
+          '  <!-- UI -->',
+          url('/ui', '0.8'),
+          url('/ui/button'),
+        ),
+      );
+      expect(checkSitemap(result, parseSitemapPaths(result), FILE)).toEqual([]);
+    });
+
+    it('should leave a complete sitemap unchanged', () => {
+      // Arrange
+      const xml = sitemap('  <!-- Home -->', url('/', '1.0'));
+
+      // Act & Assert
+      expect(fixSitemap(xml, ['/'])).toBe(xml);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Test suite for external-imports-targets module
+ *
+ * Coverage:
+ * - Detect externalImports maps in parsed JSON
+ * - Discover target files across routes, layouts, components and data
+ * - Skip files without externalImports and __tests__ directories
+ * - Tolerate missing search directories
+ * - Report unparseable JSON with its path
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import {
+  discoverExternalImportsTargets,
+  hasExternalImports,
+} from '../external-imports-targets.js';
+
+// ==================== Test Fixtures ====================
+
+const EXTERNAL_IMPORTS = {
+  '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/+esm',
+};
+
+async function writeJson(root: string, file: string, json: unknown): Promise<void> {
+  const filePath = join(root, file);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(json, null, 2), 'utf-8');
+}
+
+describe('external-imports-targets', () => {
+  // ==================== hasExternalImports ====================
+
+  describe('hasExternalImports', () => {
+    it('should return true for JSON with an externalImports object', () => {
+      expect(hasExternalImports({ externalImports: EXTERNAL_IMPORTS })).toBe(true);
+    });
+
+    it('should return false for JSON without externalImports', () => {
+      expect(hasExternalImports({ version: '1.0' })).toBe(false);
+    });
+
+    it('should return false for non-object values', () => {
+      expect(hasExternalImports(null)).toBe(false);
+      expect(hasExternalImports([])).toBe(false);
+      expect(hasExternalImports({ externalImports: ['a'] })).toBe(false);
+    });
+  });
+
+  // ==================== discoverExternalImportsTargets ====================
+
+  describe('discoverExternalImportsTargets', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'external-imports-'));
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should find externalImports files in every search directory', async () => {
+      // Arrange
+      await writeJson(projectRoot, 'src/routes/playground.json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+      await writeJson(projectRoot, 'src/routes/ui/[slug].json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+      await writeJson(projectRoot, 'src/layouts/main.json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+      await writeJson(projectRoot, 'src/components/widget.json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+      await writeJson(projectRoot, 'src/data/embed.json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+
+      // Act
+      const targets = await discoverExternalImportsTargets(projectRoot);
+
+      // Assert
+      expect(targets.map((t) => t.label)).toEqual([
+        'src/components/widget.json',
+        'src/data/embed.json',
+        'src/layouts/main.json',
+        'src/routes/playground.json',
+        'src/routes/ui/[slug].json',
+      ]);
+      expect(targets[3].path).toBe(join(projectRoot, 'src/routes/playground.json'));
+    });
+
+    it('should skip JSON files without externalImports', async () => {
+      // Arrange
+      await writeJson(projectRoot, 'src/routes/index.json', { version: '1.0' });
+      await writeJson(projectRoot, 'src/routes/playground.json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+
+      // Act
+      const targets = await discoverExternalImportsTargets(projectRoot);
+
+      // Assert
+      expect(targets.map((t) => t.label)).toEqual(['src/routes/playground.json']);
+    });
+
+    it('should skip __tests__ directories', async () => {
+      // Arrange
+      await writeJson(projectRoot, 'src/routes/__tests__/fixture.json', {
+        externalImports: EXTERNAL_IMPORTS,
+      });
+
+      // Act
+      const targets = await discoverExternalImportsTargets(projectRoot);
+
+      // Assert
+      expect(targets).toEqual([]);
+    });
+
+    it('should return an empty list when search directories do not exist', async () => {
+      // Act
+      const targets = await discoverExternalImportsTargets(projectRoot);
+
+      // Assert
+      expect(targets).toEqual([]);
+    });
+
+    it('should throw with the file label when JSON cannot be parsed', async () => {
+      // Arrange
+      await mkdir(join(projectRoot, 'src/data'), { recursive: true });
+      await writeFile(join(projectRoot, 'src/data/broken.json'), '{ nope', 'utf-8');
+
+      // Act & Assert
+      await expect(discoverExternalImportsTargets(projectRoot)).rejects.toThrow(
+        /src\/data\/broken\.json/,
+      );
+    });
+
+    it('should discover the targets in this repository', async () => {
+      // Arrange
+      const repoRoot = join(import.meta.dirname, '../..');
+
+      // Act
+      const targets = await discoverExternalImportsTargets(repoRoot);
+
+      // Assert
+      const labels = targets.map((t) => t.label);
+      expect(labels).toContain('src/routes/playground.json');
+      expect(labels).toContain('src/routes/ui/[slug].json');
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Test suite for generate-examples module
+ *
+ * Coverage:
+ * - Derived maps are computed from each example's code
+ * - Examples are assembled in index order with derived feature lists
+ * - Example sources are read from src/examples-style directories
+ * - Missing files and unlisted directories are reported
+ * - The committed examples.json is up to date
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  EXAMPLES_FILE,
+  assembleExamples,
+  deriveExamplesFields,
+  generateExamplesJson,
+  readExampleSources,
+  type ExampleSource,
+} from '../generate-examples.js';
+import { checkExamples, formatExampleCode } from '../check-examples.js';
+
+// ==================== Test Fixtures ====================
+
+const counterCode = { version: '1.0', state: {}, actions: [], view: { kind: 'text' } };
+const todoCode = { version: '1.0', state: {}, actions: [], view: { kind: 'element', tag: 'ul' } };
+
+function createSources(): ExampleSource[] {
+  return [
+    {
+      slug: 'counter',
+      meta: {
+        title: 'Counter',
+        description: 'A counter',
+        features: { extra: [{ name: 'Reset button', category: 'action' }] },
+        runCommands: ['npx constela run counter.json'],
+      },
+      program: counterCode,
+    },
+    { slug: 'todo-list', meta: { title: 'Todo' }, program: todoCode },
+  ];
+}
+
+describe('generate-examples', () => {
+  // ==================== deriveExamplesFields ====================
+
+  describe('deriveExamplesFields', () => {
+    it('should derive $refs and code strings in example order', () => {
+      const derived = deriveExamplesFields({
+        examples: [
+          { slug: 'counter', title: 'Counter', code: counterCode },
+          { slug: 'todo-list', title: 'Todo', code: todoCode },
+        ],
+        defaultCode: 'todo-list',
+      });
+
+      expect(derived).toEqual({
+        codes: {
+          counter: { $ref: '#/examples/0/code' },
+          'todo-list': { $ref: '#/examples/1/code' },
+        },
+        items: {
+          counter: { $ref: '#/examples/0' },
+          'todo-list': { $ref: '#/examples/1' },
+        },
+        defaultCodeString: formatExampleCode(todoCode),
+        codeStrings: {
+          counter: formatExampleCode(counterCode),
+          'todo-list': formatExampleCode(todoCode),
+        },
+      });
+    });
+
+    it('should reject an unknown defaultCode', () => {
+      expect(() =>
+        deriveExamplesFields({ examples: [], defaultCode: 'missing' }),
+      ).toThrow('defaultCode "missing" does not name an example');
+    });
+  });
+
+  // ==================== assembleExamples ====================
+
+  describe('assembleExamples', () => {
+    it('should build consistent examples data', () => {
+      // Act
+      const data = assembleExamples(
+        { defaultCode: 'counter', order: ['counter', 'todo-list'] },
+        createSources(),
+      );
+
+      // Assert
+      expect(Object.keys(data)).toEqual([
+        'examples',
+        'codes',
+        'items',
+        'defaultCode',
+        'defaultCodeString',
+        'codeStrings',
+      ]);
+      expect(checkExamples(data, EXAMPLES_FILE)).toEqual([]);
+    });
+
+    it('should order entry fields with the derived feature lists', () => {
+      const data = assembleExamples(
+        { defaultCode: 'counter', order: ['counter', 'todo-list'] },
+        createSources(),
+      );
+
+      expect(Object.keys(data.examples[0])).toEqual([
+        'slug',
+        'title',
+        'description',
+        'featuresPreview',
+        'featuresExtra',
+        'featuresExtraCount',
+        'runCommands',
+        'code',
+      ]);
+      expect(data.examples[0].featuresExtra).toEqual([
+        { name: 'Reset button', category: 'action' },
+      ]);
+      expect(data.examples[0].featuresExtraCount).toBe(1);
+      expect(data.examples[1]).toEqual({
+        slug: 'todo-list',
+        title: 'Todo',
+        featuresPreview: [],
+        featuresExtra: [],
+        featuresExtraCount: 0,
+        code: todoCode,
+      });
+    });
+
+    it('should name the example whose feature overrides are stale', () => {
+      const sources = createSources();
+      sources[1].meta.features = { hide: ['node:each'] };
+
+      expect(() =>
+        assembleExamples({ defaultCode: 'counter', order: [] }, sources),
+      ).toThrow('src/examples/todo-list/meta.json "features": Feature "node:each" is not used by the program');
+    });
+  });
+
+  // ==================== readExampleSources ====================
+
+  describe('readExampleSources', () => {
+    let projectRoot: string;
+
+    async function writeExample(slug: string, files: Record<string, unknown>) {
+      const dir = join(projectRoot, 'src/examples', slug);
+      await mkdir(dir, { recursive: true });
+      for (const [name, value] of Object.entries(files)) {
+        await writeFile(join(dir, name), JSON.stringify(value));
+      }
+    }
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'generate-examples-'));
+      await writeExample('', {
+        'index.json': { defaultCode: 'todo-list', order: ['todo-list', 'counter'] },
+      });
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should read listed examples in index order', async () => {
+      // Arrange
+      await writeExample('counter', { 'meta.json': { title: 'Counter' }, 'program.json': counterCode });
+      await writeExample('todo-list', { 'meta.json': { title: 'Todo' }, 'program.json': todoCode });
+
+      // Act
+      const sources = await readExampleSources(projectRoot);
+
+      // Assert
+      expect(sources.examples.map((example) => example.slug)).toEqual([
+        'todo-list',
+        'counter',
+      ]);
+      expect(sources.examples[1]).toEqual({
+        slug: 'counter',
+        meta: { title: 'Counter' },
+        program: counterCode,
+      });
+      expect(sources.unlisted).toEqual([]);
+    });
+
+    it('should report directories missing from the index', async () => {
+      // Arrange
+      await writeExample('counter', { 'meta.json': { title: 'Counter' }, 'program.json': counterCode });
+      await writeExample('todo-list', { 'meta.json': { title: 'Todo' }, 'program.json': todoCode });
+      await writeExample('draft', { 'meta.json': { title: 'Draft' } });
+
+      // Act
+      const { unlisted } = await readExampleSources(projectRoot);
+
+      // Assert
+      expect(unlisted).toEqual(['draft']);
+    });
+
+    it('should name a missing program file', async () => {
+      // Arrange
+      await writeExample('counter', { 'meta.json': { title: 'Counter' }, 'program.json': counterCode });
+      await writeExample('todo-list', { 'meta.json': { title: 'Todo' } });
+
+      // Act & Assert
+      await expect(readExampleSources(projectRoot)).rejects.toThrow(
+        `Missing ${join(projectRoot, 'src/examples/todo-list/program.json')}`,
+      );
+    });
+  });
+
+  // ==================== Committed File ====================
+
+  it('should match the committed examples.json', async () => {
+    const repoRoot = join(import.meta.dirname, '../..');
+    const content = await readFile(join(repoRoot, EXAMPLES_FILE), 'utf-8');
+    expect(await generateExamplesJson(repoRoot)).toBe(content);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Test suite for import-map-integrity module
+ *
+ * Coverage:
+ * - Add an integrity field for the URLs an import map imports
+ * - Leave pages without hashed URLs unchanged
+ * - Collect hashes from every externalImports target
+ * - Rewrite the built pages in place
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import {
+  addImportMapIntegrity,
+  collectIntegrity,
+  injectImportMapIntegrity,
+} from '../import-map-integrity.js';
+
+// ==================== Test Fixtures ====================
+
+const CORE_URL = 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/dist/index.js';
+const MONACO_URL = 'https://cdn.jsdelivr.net/npm/monaco-editor@0.52.2/+esm';
+
+/**
+ * Page HTML in the shape @constela/start writes it
+ */
+function page(imports: Record<string, string>): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<script type="importmap">',
+    JSON.stringify({ imports }, null, 2),
+    '</script>',
+    '</head>',
+    '<body></body>',
+    '</html>',
+  ].join('\n');
+}
+
+function readImportMap(html: string): unknown {
+  const match = html.match(/<script type="importmap">([\s\S]*?)<\/script>/);
+  return JSON.parse(match![1]!);
+}
+
+async function writeText(root: string, file: string, content: string): Promise<void> {
+  const filePath = join(root, file);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf-8');
+}
+
+describe('import-map-integrity', () => {
+  // ==================== addImportMapIntegrity ====================
+
+  describe('addImportMapIntegrity', () => {
+    it('should add hashes for the URLs the import map imports', () => {
+      // Arrange
+      const html = page({ '@constela/core': CORE_URL, 'monaco-editor': MONACO_URL });
+
+      // Act
+      const result = addImportMapIntegrity(html, {
+        [CORE_URL]: 'sha384-core',
+        'https://example.com/unused.js': 'sha384-unused',
+      });
+
+      // Assert
+      expect(readImportMap(result)).toEqual({
+        imports: { '@constela/core': CORE_URL, 'monaco-editor': MONACO_URL },
+        integrity: { [CORE_URL]: 'sha384-core' },
+      });
+      expect(result.startsWith('<!DOCTYPE html>\n<html>\n<head>\n')).toBe(true);
+    });
+
+    it('should leave pages without hashed URLs unchanged', () => {
+      // Arrange
+      const html = page({ 'monaco-editor': MONACO_URL });
+
+      // Act & Assert
+      expect(addImportMapIntegrity(html, { [CORE_URL]: 'sha384-core' })).toBe(html);
+      expect(addImportMapIntegrity('<p>no import map</p>', {})).toBe('<p>no import map</p>');
+    });
+  });
+
+  // ==================== collectIntegrity / injectImportMapIntegrity ====================
+
+  describe('injectImportMapIntegrity', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'import-map-integrity-'));
+      await writeText(
+        projectRoot,
+        'src/routes/playground.json',
+        JSON.stringify({
+          externalImports: { '@constela/core': CORE_URL },
+          externalImportsIntegrity: { [CORE_URL]: 'sha384-core' },
+        }),
+      );
+      await writeText(
+        projectRoot,
+        'src/routes/editor.json',
+        JSON.stringify({ externalImports: { 'monaco-editor': MONACO_URL } }),
+      );
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should collect hashes from every target', async () => {
+      expect(await collectIntegrity(projectRoot)).toEqual({ [CORE_URL]: 'sha384-core' });
+    });
+
+    it('should rewrite only the built pages that import hashed URLs', async () => {
+      // Arrange
+      const outDir = join(projectRoot, 'dist');
+      const editorPage = page({ 'monaco-editor': MONACO_URL });
+      await writeText(outDir, 'playground/index.html', page({ '@constela/core': CORE_URL }));
+      await writeText(outDir, 'editor/index.html', editorPage);
+
+      // Act
+      const updated = await injectImportMapIntegrity(projectRoot, outDir);
+
+      // Assert
+      expect(updated).toEqual([join('playground', 'index.html')]);
+      const html = await readFile(join(outDir, 'playground/index.html'), 'utf-8');
+      expect(readImportMap(html)).toMatchObject({
+        integrity: { [CORE_URL]: 'sha384-core' },
+      });
+      expect(await readFile(join(outDir, 'editor/index.html'), 'utf-8')).toBe(editorPage);
+    });
+
+    it('should fail when there is no build output', async () => {
+      await expect(injectImportMapIntegrity(projectRoot)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Test suite for installed-versions module
+ *
+ * Coverage:
+ * - Parse root importer versions from pnpm-lock.yaml
+ * - Strip peer dependency suffixes from lockfile versions
+ * - Read versions from node_modules/<pkg>/package.json
+ * - Prefer lockfile versions, fall back to node_modules
+ * - Parse the --mode CLI flag
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  parsePnpmLockVersions,
+  parseVersionModeArg,
+  readNodeModulesVersion,
+  resolveInstalledVersions,
+} from '../installed-versions.js';
+
+// ==================== Test Fixtures ====================
+
+const PNPM_LOCK = `lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+
+importers:
+
+  .:
+    dependencies:
+      '@constela/core':
+        specifier: ^0.23.0
+        version: 0.23.1
+      '@constela/runtime':
+        specifier: ^7.0.0
+        version: 7.3.1(@constela/ai@8.0.0(@constela/core@0.23.1)(ws@8.19.0))
+    devDependencies:
+      monaco-editor:
+        specifier: ^0.52.2
+        version: 0.52.2
+
+  packages/other:
+    dependencies:
+      '@constela/core':
+        specifier: ^0.1.0
+        version: 0.1.0
+
+packages:
+
+  '@constela/core@0.23.1':
+    resolution: {integrity: sha512-abc}
+`;
+
+async function installPackage(
+  root: string,
+  packageName: string,
+  version: string,
+): Promise<void> {
+  const dir = join(root, 'node_modules', packageName);
+  await mkdir(dir, { recursive: true });
+  await writeFile(
+    join(dir, 'package.json'),
+    JSON.stringify({ name: packageName, version }),
+    'utf-8',
+  );
+}
+
+describe('installed-versions', () => {
+  // ==================== parsePnpmLockVersions ====================
+
+  describe('parsePnpmLockVersions', () => {
+    it('should read root importer dependencies and devDependencies', () => {
+      // Act
+      const result = parsePnpmLockVersions(PNPM_LOCK);
+
+      // Assert
+      expect(result['@constela/core']).toBe('0.23.1');
+      expect(result['monaco-editor']).toBe('0.52.2');
+    });
+
+    it('should strip peer dependency suffixes', () => {
+      // Act
+      const result = parsePnpmLockVersions(PNPM_LOCK);
+
+      // Assert
+      expect(result['@constela/runtime']).toBe('7.3.1');
+    });
+
+    it('should ignore non-root importers and the packages section', () => {
+      // Act
+      const result = parsePnpmLockVersions(PNPM_LOCK);
+
+      // Assert
+      expect(Object.keys(result).sort()).toEqual([
+        '@constela/core',
+        '@constela/runtime',
+        'monaco-editor',
+      ]);
+    });
+
+    it('should skip non-semver versions such as workspace links', () => {
+      // Arrange
+      const lock = `importers:
+
+  .:
+    dependencies:
+      '@constela/core':
+        specifier: workspace:*
+        version: link:../core
+`;
+
+      // Act
+      const result = parsePnpmLockVersions(lock);
+
+      // Assert
+      expect(result).toEqual({});
+    });
+  });
+
+  // ==================== node_modules resolution ====================
+
+  describe('readNodeModulesVersion / resolveInstalledVersions', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'installed-versions-'));
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should read the installed version from node_modules', async () => {
+      // Arrange
+      await installPackage(projectRoot, '@constela/core', '0.23.4');
+
+      // Act
+      const result = await readNodeModulesVersion(projectRoot, '@constela/core');
+
+      // Assert
+      expect(result).toBe('0.23.4');
+    });
+
+    it('should return null when the package is not installed', async () => {
+      // Act
+      const result = await readNodeModulesVersion(projectRoot, '@constela/core');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should prefer pnpm-lock.yaml over node_modules', async () => {
+      // Arrange
+      await writeFile(join(projectRoot, 'pnpm-lock.yaml'), PNPM_LOCK, 'utf-8');
+      await installPackage(projectRoot, '@constela/runtime', '7.0.0');
+
+      // Act
+      const result = await resolveInstalledVersions(projectRoot, [
+        '@constela/runtime',
+      ]);
+
+      // Assert
+      expect(result).toEqual({ '@constela/runtime': '7.3.1' });
+    });
+
+    it('should fall back to node_modules when there is no lockfile', async () => {
+      // Arrange
+      await installPackage(projectRoot, '@constela/runtime', '7.3.1');
+
+      // Act
+      const result = await resolveInstalledVersions(projectRoot, [
+        '@constela/runtime',
+        '@constela/missing',
+      ]);
+
+      // Assert
+      expect(result).toEqual({ '@constela/runtime': '7.3.1' });
+    });
+  });
+
+  // ==================== parseVersionModeArg ====================
+
+  describe('parseVersionModeArg', () => {
+    it('should return the fallback when no --mode flag is given', () => {
+      expect(parseVersionModeArg([], 'installed')).toBe('installed');
+    });
+
+    it('should read --mode=declared', () => {
+      expect(parseVersionModeArg(['--mode=declared'], 'installed')).toBe('declared');
+    });
+
+    it('should throw for an unknown mode', () => {
+      expect(() => parseVersionModeArg(['--mode=latest'], 'installed')).toThrow(
+        /Unknown --mode "latest"/,
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Test suite for json-edit module
+ *
+ * Coverage:
+ * - Replace a value without touching surrounding formatting
+ * - Insert a member after an existing one at its indentation
+ * - Errors for missing paths
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  detectIndentUnit,
+  insertJsonMemberAfter,
+  replaceJsonValue,
+} from '../json-edit.js';
+
+// ==================== Test Fixtures ====================
+
+// Deliberately not JSON.stringify output: inline arrays, escapes, tabs
+const SOURCE = [
+  '{',
+  '\t"version": "1.0",',
+  '\t"externalImports": {',
+  '\t\t"a": "https://cdn/a@1.0.0/+esm",',
+  '\t\t"b":"https://cdn/b@1.0.0/+esm"',
+  '\t},',
+  '\t"items": [1, 2, {"label": "\\"quoted\\""}],',
+  '\t"route": {}',
+  '}',
+  '',
+].join('\n');
+
+describe('json-edit', () => {
+  // ==================== detectIndentUnit ====================
+
+  describe('detectIndentUnit', () => {
+    it('should detect tab and space indentation', () => {
+      expect(detectIndentUnit(SOURCE)).toBe('\t');
+      expect(detectIndentUnit('{\n    "a": 1\n}')).toBe('    ');
+      expect(detectIndentUnit('{"a": 1}')).toBe('  ');
+    });
+  });
+
+  // ==================== replaceJsonValue ====================
+
+  describe('replaceJsonValue', () => {
+    it('should replace only the value literal', () => {
+      // Act
+      const result = replaceJsonValue(
+        SOURCE,
+        ['externalImports', 'b'],
+        'https://cdn/b@2.0.0/+esm',
+      );
+
+      // Assert
+      expect(result).toBe(
+        SOURCE.replace('b@1.0.0', 'b@2.0.0'),
+      );
+    });
+
+    it('should indent a replaced object at the member indentation', () => {
+      // Act
+      const result = replaceJsonValue(SOURCE, ['route'], { a: 1 });
+
+      // Assert
+      expect(result).toContain('\t"route": {\n\t\t"a": 1\n\t}\n}');
+    });
+
+    it('should throw for a missing path', () => {
+      expect(() => replaceJsonValue(SOURCE, ['missing'], 1)).toThrow(
+        'JSON path not found: /missing',
+      );
+    });
+  });
+
+  // ==================== insertJsonMemberAfter ====================
+
+  describe('insertJsonMemberAfter', () => {
+    it('should insert a member after an existing one', () => {
+      // Act
+      const result = insertJsonMemberAfter(
+        SOURCE,
+        [],
+        'externalImports',
+        'externalImportsIntegrity',
+        { x: 'sha384-x' },
+      );
+
+      // Assert
+      expect(result).toContain(
+        '\t},\n\t"externalImportsIntegrity": {\n\t\t"x": "sha384-x"\n\t},\n\t"items"',
+      );
+      expect(JSON.parse(result).externalImportsIntegrity).toEqual({ x: 'sha384-x' });
+    });
+
+    it('should insert after the last member of an object', () => {
+      // Act
+      const result = insertJsonMemberAfter(SOURCE, [], 'route', 'extra', true);
+
+      // Assert
+      expect(result.endsWith('\t"route": {},\n\t"extra": true\n}\n')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Test suite for site-doctor module
+ *
+ * Coverage:
+ * - Parse --only / --skip / --fix flags
+ * - Select checks and reject unknown ids
+ * - Run checks, fix failing ones and re-check
+ * - Report checks that throw as failed
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  parseDoctorArgs,
+  runSiteDoctor,
+  selectChecks,
+  type DoctorCheck,
+} from '../site-doctor.js';
+
+// ==================== Test Fixtures ====================
+
+const context = { projectRoot: '/project', args: [] };
+
+function passingCheck(id: string): DoctorCheck {
+  return { id, title: id, run: async () => [] };
+}
+
+function failingCheck(id: string): DoctorCheck {
+  return {
+    id,
+    title: id,
+    run: async () => [{ file: 'a.json', message: 'broken' }],
+  };
+}
+
+describe('site-doctor', () => {
+  // ==================== parseDoctorArgs ====================
+
+  describe('parseDoctorArgs', () => {
+    it('should parse comma-separated --only and --skip lists', () => {
+      // Act
+      const options = parseDoctorArgs(['--only=a, b', '--skip=c', '--json']);
+
+      // Assert
+      expect(options).toEqual({ only: ['a', 'b'], skip: ['c'], fix: false });
+    });
+
+    it('should default to all checks without fixing', () => {
+      expect(parseDoctorArgs([])).toEqual({
+        only: undefined,
+        skip: undefined,
+        fix: false,
+      });
+      expect(parseDoctorArgs(['--fix']).fix).toBe(true);
+    });
+  });
+
+  // ==================== selectChecks ====================
+
+  describe('selectChecks', () => {
+    const checks = [passingCheck('a'), passingCheck('b'), passingCheck('c')];
+
+    it('should apply --only then --skip in registry order', () => {
+      // Act
+      const selected = selectChecks(checks, { only: ['c', 'a', 'b'], skip: ['b'] });
+
+      // Assert
+      expect(selected.map((check) => check.id)).toEqual(['a', 'c']);
+    });
+
+    it('should throw for an unknown check id', () => {
+      expect(() => selectChecks(checks, { skip: ['nope'] })).toThrow(
+        'Unknown check "nope" (expected a, b, c)',
+      );
+    });
+  });
+
+  // ==================== runSiteDoctor ====================
+
+  describe('runSiteDoctor', () => {
+    it('should report passing and failing checks', async () => {
+      // Act
+      const report = await runSiteDoctor(
+        [passingCheck('a'), failingCheck('b')],
+        context,
+      );
+
+      // Assert
+      expect(report.success).toBe(false);
+      expect(report.checks.map((check) => check.status)).toEqual(['pass', 'fail']);
+      expect(report.checks[1].issues).toEqual([
+        { file: 'a.json', message: 'broken' },
+      ]);
+    });
+
+    it('should not run fixers without --fix', async () => {
+      // Arrange
+      const fix = vi.fn(async () => ['fixed']);
+      const check = { ...failingCheck('a'), fix };
+
+      // Act
+      await runSiteDoctor([check], context);
+
+      // Assert
+      expect(fix).not.toHaveBeenCalled();
+    });
+
+    it('should fix a failing check and re-run it', async () => {
+      // Arrange
+      let broken = true;
+      const check: DoctorCheck = {
+        id: 'a',
+        title: 'a',
+        run: async () => (broken ? [{ file: 'a.json', message: 'broken' }] : []),
+        fix: async () => {
+          broken = false;
+          return ['a.json: repaired'];
+        },
+      };
+
+      // Act
+      const report = await runSiteDoctor([check], context, { fix: true });
+
+      // Assert
+      expect(report.success).toBe(true);
+      expect(report.checks[0]).toMatchObject({
+        status: 'fixed',
+        issues: [],
+        fixes: ['a.json: repaired'],
+      });
+    });
+
+    it('should stay failed when the fixer does not resolve the issues', async () => {
+      // Arrange
+      const check = { ...failingCheck('a'), fix: async () => [] };
+
+      // Act
+      const report = await runSiteDoctor([check], context, { fix: true });
+
+      // Assert
+      expect(report.success).toBe(false);
+      expect(report.checks[0].status).toBe('fail');
+    });
+
+    it('should report a check that throws as failed and keep going', async () => {
+      // Arrange
+      const check: DoctorCheck = {
+        id: 'a',
+        title: 'a',
+        run: async () => {
+          throw new Error('missing file');
+        },
+      };
+
+      // Act
+      const report = await runSiteDoctor([check, passingCheck('b')], context);
+
+      // Assert
+      expect(report.checks[0]).toMatchObject({ status: 'fail', error: 'missing file' });
+      expect(report.checks[1].status).toBe('pass');
+    });
+  });
+});
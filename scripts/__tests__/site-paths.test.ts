@@ -0,0 +1,49 @@
+/**
+ * Test suite for site-paths module
+ *
+ * Coverage:
+ * - Map route and content files to URL paths
+ * - Collect static, content and data-driven paths from the repository
+ */
+
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+
+import { collectSitePaths, fileToSitePath } from '../site-paths.js';
+
+describe('site-paths', () => {
+  describe('fileToSitePath', () => {
+    it('should strip extensions and index segments', () => {
+      expect(fileToSitePath('', 'index.json')).toBe('/');
+      expect(fileToSitePath('', 'playground.json')).toBe('/playground');
+      expect(fileToSitePath('', join('ui', 'index.json'))).toBe('/ui');
+      expect(fileToSitePath('/docs', 'index.mdx')).toBe('/docs');
+      expect(fileToSitePath('/reference', join('core', 'index.mdx'))).toBe(
+        '/reference/core',
+      );
+      expect(fileToSitePath('/reference', join('core', 'examples.mdx'))).toBe(
+        '/reference/core/examples',
+      );
+    });
+  });
+
+  describe('collectSitePaths', () => {
+    it('should list the pages of this repository', async () => {
+      // Arrange
+      const repoRoot = join(import.meta.dirname, '../..');
+
+      // Act
+      const paths = await collectSitePaths(repoRoot);
+
+      // Assert
+      expect(paths).toContain('/');
+      expect(paths).toContain('/playground');
+      expect(paths).toContain('/docs/installation');
+      expect(paths).toContain('/reference/core/api-reference');
+      expect(paths).toContain('/examples/counter');
+      expect(paths).toContain('/ui/button');
+      expect(paths.some((path) => path.includes('['))).toBe(false);
+      expect(paths).toEqual([...paths].sort());
+    });
+  });
+});
@@ -6,15 +6,29 @@
  * - Sync CDN versions to match package.json
  * - Handle version prefix stripping (^, ~)
  * - Skip non-@constela packages
+ * - Sync allowlisted non-@constela packages from devDependencies
+ * - Pin installed versions instead of declared range floors
+ * - Build and rewrite URLs for a configured CDN provider
+ * - Keep self-hosted vendor URLs vendored
+ * - Format-preserving rewrites of JSON source text
+ * - Summarize URL and integrity updates
  * - Immutability of input data
  *
  * This script syncs playground.json CDN URLs to match package.json versions
  * for @constela packages.
  */
 
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
 import { describe, it, expect } from 'vitest';
 
-import { buildCdnUrl, syncCdnVersions } from '../sync-cdn-versions.js';
+import {
+  buildCdnUrl,
+  formatSyncSummary,
+  rewriteExternalImportsSource,
+  syncCdnVersions,
+  type SyncReport,
+} from '../sync-cdn-versions.js';
 
 // ==================== Test Fixtures ====================
 
@@ -53,6 +67,17 @@ describe('sync-cdn-versions', () => {
       // Assert
       expect(result).toBe(expected);
     });
+
+    it('should build URL for a configured provider and entry file', () => {
+      // Act
+      const result = buildCdnUrl('@constela/core', '0.23.0', {
+        provider: 'unpkg',
+        file: 'dist/index.js',
+      });
+
+      // Assert
+      expect(result).toBe('https://unpkg.com/@constela/core@0.23.0/dist/index.js');
+    });
   });
 
   // ==================== syncCdnVersions ====================
@@ -227,6 +252,136 @@ describe('sync-cdn-versions', () => {
       );
     });
 
+    it('should update allowlisted non-@constela packages from devDependencies', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.19.0',
+        },
+        devDependencies: {
+          'monaco-editor': '^0.52.2',
+        },
+      };
+
+      const externalImports: Record<string, string> = {
+        '@constela/core': cdnUrl('@constela/core', '0.19.0'),
+        'monaco-editor': cdnUrl('monaco-editor', '0.52.0'), // Outdated
+      };
+
+      // Act
+      const result = syncCdnVersions(packageJson, externalImports, {
+        allowlist: ['@constela/*', 'monaco-editor'],
+      });
+
+      // Assert
+      expect(result.updated).toEqual(['monaco-editor']);
+      expect(result.skipped).toEqual([]);
+      expect(result.externalImports['monaco-editor']).toBe(
+        cdnUrl('monaco-editor', '0.52.2'),
+      );
+    });
+
+    it('should pin installed versions when they are given', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/runtime': '^7.0.0',
+        },
+      };
+
+      const externalImports: Record<string, string> = {
+        '@constela/runtime': cdnUrl('@constela/runtime', '7.0.0'),
+      };
+
+      // Act
+      const result = syncCdnVersions(packageJson, externalImports, {
+        installedVersions: { '@constela/runtime': '7.3.1' },
+      });
+
+      // Assert
+      expect(result.updated).toEqual(['@constela/runtime']);
+      expect(result.externalImports['@constela/runtime']).toBe(
+        cdnUrl('@constela/runtime', '7.3.1'),
+      );
+    });
+
+    it('should rewrite URLs from another provider even when versions match', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.23.0',
+        },
+      };
+
+      const externalImports: Record<string, string> = {
+        '@constela/core': cdnUrl('@constela/core', '0.23.0'),
+      };
+
+      // Act
+      const result = syncCdnVersions(packageJson, externalImports, {
+        provider: 'unpkg',
+        entryFiles: { '@constela/core': 'dist/index.js' },
+      });
+
+      // Assert
+      expect(result.updated).toEqual(['@constela/core']);
+      expect(result.externalImports['@constela/core']).toBe(
+        'https://unpkg.com/@constela/core@0.23.0/dist/index.js',
+      );
+    });
+
+    it('should pin generated bundle URLs to the entry file', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.23.0',
+          'monaco-editor': '^0.52.2',
+        },
+      };
+
+      const externalImports: Record<string, string> = {
+        '@constela/core': cdnUrl('@constela/core', '0.23.0'),
+        'monaco-editor': cdnUrl('monaco-editor', '0.52.2'),
+      };
+
+      // Act
+      const result = syncCdnVersions(packageJson, externalImports, {
+        allowlist: ['@constela/*', 'monaco-editor'],
+        provider: 'jsdelivr',
+        entryFiles: { '@constela/core': 'dist/index.js' },
+      });
+
+      // Assert
+      expect(result.updated).toEqual(['@constela/core']);
+      expect(result.externalImports).toEqual({
+        '@constela/core': 'https://cdn.jsdelivr.net/npm/@constela/core@0.23.0/dist/index.js',
+        'monaco-editor': cdnUrl('monaco-editor', '0.52.2'),
+      });
+    });
+
+    it('should keep vendor URLs vendored when bumping versions', () => {
+      // Arrange
+      const packageJson = {
+        dependencies: {
+          '@constela/core': '^0.24.0',
+        },
+      };
+
+      const externalImports: Record<string, string> = {
+        '@constela/core': '/vendor/@constela/core@0.23.0/index.js',
+      };
+
+      // Act
+      const result = syncCdnVersions(packageJson, externalImports, {
+        provider: 'jsdelivr',
+      });
+
+      // Assert
+      expect(result.externalImports['@constela/core']).toBe(
+        '/vendor/@constela/core@0.24.0/index.js',
+      );
+    });
+
     it('should not mutate the original externalImports object', () => {
       // Arrange
       const packageJson = {
@@ -256,4 +411,137 @@ describe('sync-cdn-versions', () => {
       );
     });
   });
+
+  // ==================== rewriteExternalImportsSource ====================
+
+  describe('rewriteExternalImportsSource', () => {
+    const repoRoot = join(import.meta.dirname, '../..');
+
+    it.each(['src/routes/playground.json', 'src/routes/ui/[slug].json'])(
+      'should leave %s byte-for-byte unchanged when nothing changes',
+      (file) => {
+        // Arrange
+        const content = readFileSync(join(repoRoot, file), 'utf-8');
+        const json = JSON.parse(content);
+
+        // Act
+        const result = rewriteExternalImportsSource(
+          content,
+          json.externalImports,
+          json.externalImportsIntegrity ?? {},
+        );
+
+        // Assert
+        expect(result).toBe(content);
+      },
+    );
+
+    it('should change only the updated URL line', () => {
+      // Arrange
+      const content = [
+        '{',
+        '  "externalImports": {',
+        `    "@constela/core": "${cdnUrl('@constela/core', '0.18.0')}",`,
+        `    "lodash": "${cdnUrl('lodash', '4.17.21')}"`,
+        '  },',
+        '  "view": { "kind": "text", "value": { "expr": "lit", "value": "hi" } }',
+        '}',
+        '',
+      ].join('\n');
+
+      // Act
+      const result = rewriteExternalImportsSource(
+        content,
+        {
+          '@constela/core': cdnUrl('@constela/core', '0.19.0'),
+          lodash: cdnUrl('lodash', '4.17.21'),
+        },
+        {},
+      );
+
+      // Assert
+      expect(result).toBe(content.replace('core@0.18.0', 'core@0.19.0'));
+    });
+
+    it('should insert the integrity map after externalImports when absent', () => {
+      // Arrange
+      const url = cdnUrl('@constela/core', '0.19.0');
+      const content = `{\n  "externalImports": {\n    "@constela/core": "${url}"\n  },\n  "view": {}\n}\n`;
+
+      // Act
+      const result = rewriteExternalImportsSource(
+        content,
+        { '@constela/core': url },
+        { [url]: 'sha384-core' },
+      );
+
+      // Assert
+      expect(result).toBe(
+        `{\n  "externalImports": {\n    "@constela/core": "${url}"\n  },\n` +
+          `  "externalImportsIntegrity": {\n    "${url}": "sha384-core"\n  },\n` +
+          '  "view": {}\n}\n',
+      );
+    });
+
+    it('should not add an empty integrity map', () => {
+      // Arrange
+      const content = '{\n  "externalImports": {}\n}\n';
+
+      // Act
+      const result = rewriteExternalImportsSource(content, {}, {});
+
+      // Assert
+      expect(result).toBe(content);
+    });
+  });
+
+  // ==================== formatSyncSummary ====================
+
+  describe('formatSyncSummary', () => {
+    function report(
+      targets: { updated: string[]; integrityUpdated: string[] }[],
+      dryRun = false,
+    ): SyncReport {
+      return {
+        dryRun,
+        mode: 'installed',
+        targets: targets.map((target, index) => ({
+          file: `src/routes/${index}.json`,
+          skipped: [],
+          ...target,
+        })),
+        totalUpdated: 0,
+      };
+    }
+
+    it('should count integrity updates when no URL changed', () => {
+      const summary = formatSyncSummary(
+        report([{ updated: [], integrityUpdated: ['@constela/core', '@constela/runtime'] }]),
+      );
+
+      expect(summary).toBe('Synced 2 integrity hash(es).');
+    });
+
+    it('should count URL and integrity updates across targets', () => {
+      const summary = formatSyncSummary(
+        report(
+          [
+            { updated: ['@constela/core'], integrityUpdated: ['@constela/core'] },
+            { updated: [], integrityUpdated: ['@constela/runtime'] },
+          ],
+          true,
+        ),
+      );
+
+      expect(summary).toBe(
+        'Would sync 1 CDN URL(s) and 2 integrity hash(es). No files were written.',
+      );
+    });
+
+    it('should report targets that are already in sync', () => {
+      expect(formatSyncSummary(report([{ updated: [], integrityUpdated: [] }]))).toBe(
+        'All CDN versions and integrity hashes already in sync.',
+      );
+    });
+  });
 });
@@ -0,0 +1,63 @@
+/**
+ * Test suite for unified-diff module
+ *
+ * Coverage:
+ * - Empty diff for identical content
+ * - Single-line replacement with context
+ * - Added lines and hunk header line counts
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { createUnifiedDiff } from '../unified-diff.js';
+
+describe('unified-diff', () => {
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for identical content', () => {
+      expect(createUnifiedDiff('a.json', '{}\n', '{}\n')).toBe('');
+    });
+
+    it('should show a replaced line with surrounding context', () => {
+      // Arrange
+      const before = ['{', '  "a": 1,', '  "b": 2,', '  "c": 3', '}', ''].join('\n');
+      const after = ['{', '  "a": 1,', '  "b": 20,', '  "c": 3', '}', ''].join('\n');
+
+      // Act
+      const result = createUnifiedDiff('src/a.json', before, after, 1);
+
+      // Assert
+      expect(result).toBe(
+        [
+          '--- a/src/a.json',
+          '+++ b/src/a.json',
+          '@@ -2,3 +2,3 @@',
+          '   "a": 1,',
+          '-  "b": 2,',
+          '+  "b": 20,',
+          '   "c": 3',
+        ].join('\n'),
+      );
+    });
+
+    it('should count added lines in the hunk header', () => {
+      // Arrange
+      const before = ['{', '  "a": 1', '}'].join('\n');
+      const after = ['{', '  "a": 1,', '  "b": 2', '}'].join('\n');
+
+      // Act
+      const result = createUnifiedDiff('a.json', before, after, 0);
+
+      // Assert
+      expect(result).toBe(
+        [
+          '--- a/a.json',
+          '+++ b/a.json',
+          '@@ -2,1 +2,2 @@',
+          '-  "a": 1',
+          '+  "a": 1,',
+          '+  "b": 2',
+        ].join('\n'),
+      );
+    });
+  });
+});
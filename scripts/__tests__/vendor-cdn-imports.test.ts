@@ -0,0 +1,248 @@
+/**
+ * Test suite for vendor-cdn-imports module
+ *
+ * Coverage:
+ * - Bundle a package entry point into public/vendor/<pkg>@<version>/
+ * - Keep other vendored packages as bare imports
+ * - Load extracted CSS next to the bundle
+ * - Find vendored URLs and their missing bundles
+ * - Rebuild bundles only at the installed version
+ * - Rewrite externalImports to vendor URLs and back to CDN URLs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  buildVendoredPackages,
+  bundleVendorPackage,
+  collectVendoredPackages,
+  findMissingVendorBundles,
+  rewriteToCdn,
+  rewriteToVendor,
+  vendorOutputDir,
+} from '../vendor-cdn-imports.js';
+
+// ==================== Test Fixtures ====================
+
+const CDN_BASE = 'https://cdn.jsdelivr.net/npm';
+
+function cdnUrl(pkg: string, version: string): string {
+  return `${CDN_BASE}/${pkg}@${version}/+esm`;
+}
+
+async function installPackage(
+  root: string,
+  packageName: string,
+  files: Record<string, string>,
+): Promise<void> {
+  const dir = join(root, 'node_modules', packageName);
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(join(dir, file, '..'), { recursive: true });
+    await writeFile(join(dir, file), content, 'utf-8');
+  }
+}
+
+describe('vendor-cdn-imports', () => {
+  // ==================== bundleVendorPackage ====================
+
+  describe('bundleVendorPackage', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'vendor-cdn-'));
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should bundle the entry point and keep vendored packages external', async () => {
+      // Arrange
+      await installPackage(projectRoot, '@constela/compiler', {
+        'package.json': JSON.stringify({
+          version: '0.16.0',
+          exports: { '.': { import: './dist/index.js' } },
+        }),
+        'dist/index.js':
+          "import { helper } from './helper.js';\n" +
+          "import { validateAst } from '@constela/core';\n" +
+          'export const compile = (x) => validateAst(helper(x));\n',
+        'dist/helper.js': 'export const helper = (x) => x;\n',
+      });
+
+      // Act
+      const indexPath = await bundleVendorPackage(
+        projectRoot,
+        '@constela/compiler',
+        '0.16.0',
+        ['@constela/core', '@constela/compiler'],
+      );
+
+      // Assert
+      expect(indexPath).toBe(
+        join(vendorOutputDir(projectRoot, '@constela/compiler', '0.16.0'), 'index.js'),
+      );
+      expect(indexPath).toContain(join('public/vendor/@constela/compiler@0.16.0'));
+      const code = await readFile(indexPath, 'utf-8');
+      expect(code).toContain('"@constela/core"');
+      expect(code).not.toContain('./helper.js');
+    });
+
+    it('should load extracted CSS next to the bundle', async () => {
+      // Arrange
+      await installPackage(projectRoot, 'monaco-editor', {
+        'package.json': JSON.stringify({ version: '0.52.2', module: './esm/main.js' }),
+        'esm/main.js': "import './editor.css';\nexport const editor = {};\n",
+        'esm/editor.css': '.monaco-editor { color: red; }\n',
+      });
+
+      // Act
+      const indexPath = await bundleVendorPackage(
+        projectRoot,
+        'monaco-editor',
+        '0.52.2',
+        ['monaco-editor'],
+      );
+
+      // Assert
+      const code = await readFile(indexPath, 'utf-8');
+      expect(code).toContain("new URL('./index.css', import.meta.url)");
+      const css = await readFile(join(indexPath, '../index.css'), 'utf-8');
+      expect(css).toContain('.monaco-editor');
+    });
+  });
+
+  // ==================== collectVendoredPackages ====================
+
+  describe('collectVendoredPackages', () => {
+    it('should list each vendored package version once', () => {
+      // Act
+      const result = collectVendoredPackages([
+        {
+          '@constela/core': '/vendor/@constela/core@0.23.0/index.js',
+          'monaco-editor': cdnUrl('monaco-editor', '0.52.2'),
+        },
+        {
+          '@constela/core': '/vendor/@constela/core@0.23.0/index.js',
+          '@constela/runtime': '/vendor/@constela/runtime@7.0.0/index.js',
+        },
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        { packageName: '@constela/core', version: '0.23.0' },
+        { packageName: '@constela/runtime', version: '7.0.0' },
+      ]);
+    });
+  });
+
+  // ==================== findMissingVendorBundles / buildVendoredPackages ====================
+
+  describe('findMissingVendorBundles and buildVendoredPackages', () => {
+    const core = { packageName: '@constela/core', version: '0.23.0' };
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await mkdtemp(join(tmpdir(), 'vendor-cdn-'));
+      await installPackage(projectRoot, '@constela/core', {
+        'package.json': JSON.stringify({ version: '0.23.0', module: './dist/index.js' }),
+        'dist/index.js': 'export const core = 1;\n',
+      });
+    });
+
+    afterEach(async () => {
+      await rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should report bundles until they are built', async () => {
+      // Act & Assert
+      expect(await findMissingVendorBundles(projectRoot, [core])).toEqual([core]);
+      await buildVendoredPackages(projectRoot, [core]);
+      expect(await findMissingVendorBundles(projectRoot, [core])).toEqual([]);
+    });
+
+    it('should refuse to build a version that is not installed', async () => {
+      // Arrange
+      const outdated = { packageName: '@constela/core', version: '0.22.0' };
+
+      // Act & Assert
+      await expect(buildVendoredPackages(projectRoot, [outdated])).rejects.toThrow(
+        '@constela/core@0.22.0 is vendored but 0.23.0 is installed',
+      );
+    });
+  });
+
+  // ==================== rewriteToVendor ====================
+
+  describe('rewriteToVendor', () => {
+    it('should point vendored packages at their bundles', () => {
+      // Arrange
+      const externalImports = {
+        '@constela/core': cdnUrl('@constela/core', '0.23.0'),
+        'other-lib': 'https://example.com/other-lib.js',
+      };
+
+      // Act
+      const result = rewriteToVendor(externalImports, { '@constela/core': '0.23.0' });
+
+      // Assert
+      expect(result.updated).toEqual(['@constela/core']);
+      expect(result.externalImports).toEqual({
+        '@constela/core': '/vendor/@constela/core@0.23.0/index.js',
+        'other-lib': 'https://example.com/other-lib.js',
+      });
+      // Original object should be unchanged
+      expect(externalImports['@constela/core']).toBe(cdnUrl('@constela/core', '0.23.0'));
+    });
+
+    it('should report no updates when already vendored', () => {
+      // Act
+      const result = rewriteToVendor(
+        { '@constela/core': '/vendor/@constela/core@0.23.0/index.js' },
+        { '@constela/core': '0.23.0' },
+      );
+
+      // Assert
+      expect(result.updated).toEqual([]);
+    });
+  });
+
+  // ==================== rewriteToCdn ====================
+
+  describe('rewriteToCdn', () => {
+    it('should switch vendor URLs back to the CDN at the same version', () => {
+      // Arrange
+      const externalImports = {
+        '@constela/core': '/vendor/@constela/core@0.23.0/index.js',
+        'monaco-editor': cdnUrl('monaco-editor', '0.52.2'),
+      };
+
+      // Act
+      const result = rewriteToCdn(externalImports, 'jsdelivr');
+
+      // Assert
+      expect(result.updated).toEqual(['@constela/core']);
+      expect(result.externalImports).toEqual({
+        '@constela/core': cdnUrl('@constela/core', '0.23.0'),
+        'monaco-editor': cdnUrl('monaco-editor', '0.52.2'),
+      });
+    });
+
+    it('should use entry files for providers that serve package files', () => {
+      // Act
+      const result = rewriteToCdn(
+        { '@constela/core': '/vendor/@constela/core@0.23.0/index.js' },
+        'unpkg',
+        { '@constela/core': 'dist/index.js' },
+      );
+
+      // Assert
+      expect(result.externalImports['@constela/core']).toBe(
+        'https://unpkg.com/@constela/core@0.23.0/dist/index.js',
+      );
+    });
+  });
+});
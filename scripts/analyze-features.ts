@@ -0,0 +1,271 @@
+/**
+ * Example feature analyser.
+ * Walks an example program and detects the DSL features it uses:
+ * top-level sections (theme, styles, route), state field types, event
+ * handlers, action steps ("do"), view nodes ("kind") and expressions
+ * ("expr"). Each is mapped to a named feature with a category through
+ * FEATURE_CATALOG; kinds missing from the catalog still show up with a
+ * generic name, so new DSL features are never silently dropped.
+ *
+ * The "Features Used" lists of an example are derived from the
+ * detected features plus the manual overrides in its meta.json
+ * "features" (see FeatureOverrides).
+ */
+
+/**
+ * A feature as shown on the examples pages
+ */
+export interface Feature {
+  name: string;
+  category: string;
+}
+
+/**
+ * A feature detected in a program; ids look like "do:fetch",
+ * "expr:cond", "node:each", "state:list", "event:click" or
+ * "program:theme"
+ */
+export interface DetectedFeature extends Feature {
+  id: string;
+}
+
+/**
+ * A feature in an override list: the id of a detected feature, a
+ * detected feature renamed ({ id, name, category }), or a manual
+ * feature the analyser cannot see ({ name, category })
+ */
+export type FeatureRef = string | (Feature & { id?: string });
+
+/**
+ * meta.json "features": manual overrides of the detected features
+ */
+export interface FeatureOverrides {
+  /** Shown first; filled up to PREVIEW_SIZE with detected features */
+  preview?: FeatureRef[];
+  /** Listed first among the extra features */
+  extra?: FeatureRef[];
+  /** Ids of detected features not worth listing */
+  hide?: string[];
+}
+
+/**
+ * Number of features shown before the "+N" badge
+ */
+export const PREVIEW_SIZE = 3;
+
+type FeatureGroup = 'program' | 'state' | 'event' | 'do' | 'node' | 'expr';
+
+/**
+ * Groups in listing order, with the category and generic name used for
+ * kinds missing from the catalog
+ */
+const GROUPS: Record<FeatureGroup, { category: string; name: (kind: string) => string }> = {
+  program: { category: 'default', name: (kind) => `${kind} section` },
+  state: { category: 'state', name: (kind) => `${kind} state` },
+  event: { category: 'action', name: (kind) => `${kind} events` },
+  do: { category: 'action', name: (kind) => `${kind} step` },
+  node: { category: 'view', name: (kind) => `${kind} nodes` },
+  expr: { category: 'expression', name: (kind) => `${kind} expressions` },
+};
+
+/**
+ * Named features by id
+ */
+export const FEATURE_CATALOG: Record<string, Feature> = {
+  'program:theme': { name: 'Theme configuration', category: 'theme' },
+  'program:styles': { name: 'Styles with variants', category: 'style' },
+  'program:route': { name: 'Route definitions', category: 'component' },
+  'program:components': { name: 'Component definitions', category: 'component' },
+  'program:lifecycle': { name: 'Lifecycle hooks', category: 'action' },
+
+  'state:number': { name: 'Number state', category: 'state' },
+  'state:string': { name: 'String state', category: 'state' },
+  'state:boolean': { name: 'Boolean state', category: 'state' },
+  'state:list': { name: 'List state', category: 'state' },
+  'state:object': { name: 'Object state', category: 'state' },
+
+  'event:click': { name: 'Click event handlers', category: 'action' },
+  'event:input': { name: 'Input binding', category: 'action' },
+  'event:change': { name: 'Change events', category: 'action' },
+  'event:submit': { name: 'Form submit', category: 'action' },
+  'event:intersect': { name: 'Intersection Observer', category: 'action' },
+
+  'do:update': { name: 'State updates', category: 'action' },
+  'do:setPath': { name: 'setPath step', category: 'action' },
+  'do:fetch': { name: 'Fetch step', category: 'action' },
+  'do:if': { name: 'Conditional steps', category: 'action' },
+  'do:storage': { name: 'Local storage', category: 'action' },
+  'do:dom': { name: 'DOM manipulation', category: 'action' },
+  'do:navigate': { name: 'Navigation', category: 'action' },
+  'do:delay': { name: 'Delayed steps', category: 'action' },
+  'do:interval': { name: 'Interval timer', category: 'action' },
+  'do:clearTimer': { name: 'Timer cleanup', category: 'action' },
+
+  'node:each': { name: 'Each loop', category: 'view' },
+  'node:if': { name: 'Conditional rendering', category: 'view' },
+  'node:component': { name: 'Components', category: 'component' },
+  'node:slot': { name: 'Slots', category: 'component' },
+  'node:portal': { name: 'Portal', category: 'component' },
+  'node:markdown': { name: 'Markdown', category: 'view' },
+  'node:code': { name: 'Code blocks', category: 'view' },
+  'node:island': { name: 'Islands', category: 'component' },
+  'node:suspense': { name: 'Suspense', category: 'component' },
+  'node:errorBoundary': { name: 'Error boundaries', category: 'component' },
+
+  'expr:bin': { name: 'Binary expressions', category: 'expression' },
+  'expr:not': { name: 'not expressions', category: 'expression' },
+  'expr:cond': { name: 'cond expressions', category: 'expression' },
+  'expr:get': { name: 'Object path access', category: 'expression' },
+  'expr:index': { name: 'Index access', category: 'expression' },
+  'expr:concat': { name: 'String concatenation', category: 'expression' },
+  'expr:array': { name: 'Array expression', category: 'expression' },
+  'expr:obj': { name: 'Object expression', category: 'expression' },
+  'expr:call': { name: 'Call expressions', category: 'expression' },
+  'expr:lambda': { name: 'Lambda expressions', category: 'expression' },
+  'expr:route': { name: 'Route params', category: 'expression' },
+  'expr:param': { name: 'Param expressions', category: 'expression' },
+  'expr:validity': { name: 'Form validity', category: 'expression' },
+  'expr:style': { name: 'Style expressions', category: 'style' },
+  'expr:cookie': { name: 'Cookie expression', category: 'expression' },
+};
+
+/**
+ * Kinds nearly every program uses; never listed
+ */
+const IGNORED = new Set([
+  'do:set',
+  'node:element',
+  'node:text',
+  'expr:lit',
+  'expr:var',
+  'expr:state',
+]);
+
+const PROGRAM_SECTIONS = ['theme', 'styles', 'route', 'components', 'lifecycle'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Detect the features a program uses
+ * @param program - An example program (the contents of program.json)
+ * @returns Detected features, grouped in GROUPS order and in order of
+ *   first use within a group
+ */
+export function detectFeatures(program: unknown): DetectedFeature[] {
+  const found = new Map<FeatureGroup, string[]>(
+    Object.keys(GROUPS).map((group) => [group as FeatureGroup, []]),
+  );
+  const add = (group: FeatureGroup, kind: string) => {
+    const kinds = found.get(group)!;
+    if (!kinds.includes(kind) && !IGNORED.has(`${group}:${kind}`)) {
+      kinds.push(kind);
+    }
+  };
+
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!isRecord(value)) {
+      return;
+    }
+    if (typeof value.expr === 'string') {
+      add('expr', value.expr);
+      // Literal values are data, not DSL
+      if (value.expr === 'lit') {
+        return;
+      }
+    } else if (typeof value.do === 'string') {
+      add('do', value.do);
+    } else if (typeof value.kind === 'string') {
+      add('node', value.kind);
+    } else if (typeof value.event === 'string' && 'action' in value) {
+      add('event', value.event);
+    }
+    Object.values(value).forEach(walk);
+  };
+
+  if (isRecord(program)) {
+    for (const section of PROGRAM_SECTIONS) {
+      if (section in program) {
+        add('program', section);
+      }
+    }
+    if (isRecord(program.state)) {
+      for (const field of Object.values(program.state)) {
+        if (isRecord(field) && typeof field.type === 'string') {
+          add('state', field.type);
+        }
+      }
+    }
+    for (const [key, value] of Object.entries(program)) {
+      // State initial values are data
+      if (key !== 'state') {
+        walk(value);
+      }
+    }
+  }
+
+  return [...found].flatMap(([group, kinds]) =>
+    kinds.map((kind) => {
+      const id = `${group}:${kind}`;
+      const { name, category } = FEATURE_CATALOG[id] ?? {
+        name: GROUPS[group].name(kind),
+        category: GROUPS[group].category,
+      };
+      return { id, name, category };
+    }),
+  );
+}
+
+/**
+ * Build the "Features Used" lists from detected features and overrides
+ * @returns featuresPreview (overrides.preview, filled up to PREVIEW_SIZE
+ *   with detected features) and featuresExtra (overrides.extra, then
+ *   every other detected feature that is not hidden)
+ * @throws Error if an override names a feature id the program does not use
+ */
+export function resolveFeatures(
+  detected: DetectedFeature[],
+  overrides: FeatureOverrides = {},
+): { featuresPreview: Feature[]; featuresExtra: Feature[] } {
+  const byId = new Map(detected.map((feature) => [feature.id, feature]));
+  const used = new Set<string>();
+
+  const requireDetected = (id: string) => {
+    if (!byId.has(id)) {
+      throw new Error(`Feature "${id}" is not used by the program`);
+    }
+    used.add(id);
+  };
+
+  const resolve = (ref: FeatureRef): Feature => {
+    if (typeof ref === 'string') {
+      requireDetected(ref);
+      const { name, category } = byId.get(ref)!;
+      return { name, category };
+    }
+    if (ref.id !== undefined) {
+      requireDetected(ref.id);
+    }
+    return { name: ref.name, category: ref.category };
+  };
+
+  const preview = (overrides.preview ?? []).map(resolve);
+  const extra = (overrides.extra ?? []).map(resolve);
+  overrides.hide?.forEach(requireDetected);
+
+  const listed = new Set([...preview, ...extra].map((feature) => feature.name));
+  const rest: Feature[] = detected
+    .filter((feature) => !used.has(feature.id) && !listed.has(feature.name))
+    .map(({ name, category }) => ({ name, category }));
+  const fill = Math.max(PREVIEW_SIZE - preview.length, 0);
+
+  return {
+    featuresPreview: [...preview, ...rest.slice(0, fill)],
+    featuresExtra: [...extra, ...rest.slice(fill)],
+  };
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+/**
+ * CLI entry point for the playground helper bundle.
+ * Bundles src/playground/index.ts into public/playground/index.js.
+ * Runs before `dev` and `build`.
+ *
+ * Usage: npx tsx scripts/bundle-playground.cli.ts
+ *
+ * Exit codes:
+ *   0 - Bundle written
+ *   1 - Error occurred
+ */
+
+import { relative, resolve } from 'node:path';
+import { bundlePlayground } from './bundle-playground.js';
+
+async function main(): Promise<void> {
+  const projectRoot = resolve(import.meta.dirname, '..');
+
+  try {
+    const outfile = await bundlePlayground(projectRoot);
+    console.log(`Bundled playground helpers into ${relative(projectRoot, outfile)}.`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,53 @@
+/**
+ * Playground helper bundle.
+ * The playground route calls browser helpers (share links, ...) written
+ * in TypeScript under src/playground/. They are bundled into one ES
+ * module in public/playground/ and mapped to a bare specifier in the
+ * route's externalImports, so "import" steps can load them like any
+ * other external package.
+ */
+
+import { build } from 'esbuild';
+import { join } from 'node:path';
+
+/**
+ * Entry point of the helpers, relative to the project root
+ */
+export const PLAYGROUND_ENTRY = 'src/playground/index.ts';
+
+/**
+ * Output directory, relative to the project root
+ */
+export const PLAYGROUND_BUNDLE_DIR = 'public/playground';
+
+/**
+ * externalImports key and URL the playground route loads the bundle from
+ */
+export const PLAYGROUND_MODULE = 'constela-playground';
+export const PLAYGROUND_MODULE_URL = '/playground/index.js';
+
+/**
+ * Bundle the playground helpers
+ * @param projectRoot - Absolute path to the project root
+ * @param outdir - Absolute output directory (defaults to PLAYGROUND_BUNDLE_DIR)
+ * @returns Absolute path of the bundled index.js
+ */
+export async function bundlePlayground(
+  projectRoot: string,
+  outdir: string = join(projectRoot, PLAYGROUND_BUNDLE_DIR),
+): Promise<string> {
+  const outfile = join(outdir, 'index.js');
+
+  await build({
+    entryPoints: [join(projectRoot, PLAYGROUND_ENTRY)],
+    outfile,
+    bundle: true,
+    format: 'esm',
+    platform: 'browser',
+    target: 'es2020',
+    minify: true,
+    logLevel: 'silent',
+  });
+
+  return outfile;
+}
@@ -0,0 +1,46 @@
+/**
+ * Configuration shared by the CDN sync and vendor CLIs and the site doctor.
+ */
+
+import type { CdnProviderName } from './cdn-providers.js';
+import type { VersionMode } from './installed-versions.js';
+
+/**
+ * Packages whose externalImports CDN URLs must match package.json.
+ * Entries ending in "/*" match a whole scope.
+ */
+export const CDN_PACKAGE_ALLOWLIST = ['@constela/*', 'monaco-editor'];
+
+/**
+ * Packages loaded from their published entry file and checked against an
+ * integrity hash. Their bare imports must be in the same externalImports.
+ * The rest of CDN_PACKAGE_ALLOWLIST loads the CDN's generated ESM bundle
+ * (monaco-editor's modules import CSS, which the browser cannot load as
+ * a module).
+ */
+export const CDN_INTEGRITY_ALLOWLIST = ['@constela/*'];
+
+/**
+ * Default version mode for the CDN CLIs (override with --mode=declared).
+ * "installed" pins CDN URLs to the exact version in pnpm-lock.yaml.
+ */
+export const CDN_VERSION_MODE: VersionMode = 'installed';
+
+/**
+ * CDN provider used for target files not listed in CDN_TARGET_PROVIDERS
+ */
+export const CDN_DEFAULT_PROVIDER: CdnProviderName = 'jsdelivr';
+
+/**
+ * CDN provider per target file, keyed by path relative to the project root,
+ * e.g. { 'src/routes/playground.json': 'vendor' }
+ */
+export const CDN_TARGET_PROVIDERS: Record<string, CdnProviderName> = {};
+
+/**
+ * Get the configured CDN provider for a target file
+ * @param label - Target path relative to the project root
+ */
+export function getTargetProvider(label: string): CdnProviderName {
+  return CDN_TARGET_PROVIDERS[label] ?? CDN_DEFAULT_PROVIDER;
+}
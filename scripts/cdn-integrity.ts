@@ -0,0 +1,308 @@
+/**
+ * Subresource Integrity (SRI) hashes for externalImports CDN URLs.
+ * Hashes are computed from the package's ESM entry file in local
+ * node_modules and stored in an externalImportsIntegrity sidecar map,
+ * keyed by URL like the import map "integrity" field. After the build,
+ * import-map-integrity copies them into the pages' import maps.
+ *
+ * A hash only matches what the browser downloads when the URL serves the
+ * published file unchanged, so hashed packages are pinned to their entry
+ * file (e.g. jsdelivr /npm/<pkg>@<ver>/dist/index.js). Bundles generated
+ * by the CDN (+esm, esm.sh) cannot be hashed, and self-hosted /vendor/
+ * URLs are same-origin and are not hashed.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  DEFAULT_PACKAGE_ALLOWLIST,
+  isPackageAllowed,
+} from './check-playground-versions.js';
+import { isVendorUrl, parseCdnUrl } from './cdn-providers.js';
+
+/**
+ * Key of the sidecar map stored next to externalImports in route JSON
+ */
+export const INTEGRITY_KEY = 'externalImportsIntegrity';
+
+/**
+ * Integrity of an installed package's ESM entry file
+ */
+export interface PackageIntegrity {
+  /** Installed version, e.g. "0.23.0" */
+  version: string;
+  /** Entry file relative to the package root, e.g. "dist/index.js" */
+  file: string;
+  /** SRI string, e.g. "sha384-..." */
+  integrity: string;
+  /**
+   * Bare specifiers the entry file statically imports, e.g.
+   * ["@constela/core"]. The browser resolves them through the page's
+   * import map.
+   */
+  imports: string[];
+}
+
+/**
+ * Integrity problem found for one externalImports entry
+ */
+export interface IntegrityMismatch {
+  package: string;
+  url: string;
+  /**
+   * - unpinned: the URL serves a bundle generated by the CDN, which no
+   *   hash of the published file can match
+   * - missing: no stored hash for the URL
+   * - mismatch: stored hash differs from the hash of the installed file
+   * - unverifiable: the URL serves another version or file than the
+   *   installed entry file
+   * - unmapped: the entry file imports packages missing from externalImports
+   */
+  reason: 'unpinned' | 'missing' | 'mismatch' | 'unverifiable' | 'unmapped';
+  expected?: string;
+  actual?: string;
+  /** Bare imports missing from externalImports (unmapped only) */
+  unmapped?: string[];
+}
+
+/**
+ * Compute an SRI string for file content
+ * @param content - File content
+ * @returns SRI string like "sha384-<base64>"
+ */
+export function computeIntegrity(content: string | Buffer): string {
+  const digest = createHash('sha384').update(content).digest('base64');
+  return `sha384-${digest}`;
+}
+
+// `import ... from "x"`, `export ... from "x"` and `import "x"` statements
+const IMPORT_STATEMENT =
+  /^\s*(?:import|export)\s*(?:[^"'`;]*?\bfrom\s*)?["']([^"']+)["']/gm;
+
+/**
+ * Find the bare module specifiers an ES module statically imports.
+ * Dynamic import() calls are lazy and often optional, so they are left
+ * out, as are relative, absolute and URL specifiers.
+ * @param source - Module source
+ * @returns Unique specifiers in first-seen order
+ */
+export function findBareImports(source: string): string[] {
+  const specifiers = new Set<string>();
+  for (const match of source.matchAll(IMPORT_STATEMENT)) {
+    const specifier = match[1]!;
+    if (!/^(?:\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(specifier)) {
+      specifiers.add(specifier);
+    }
+  }
+  return [...specifiers];
+}
+
+/**
+ * Resolve the ESM entry file of a package from its package.json
+ * Prefers exports["."] (import, browser, default), then module, then main.
+ * @returns Entry path relative to the package root, without leading "./"
+ */
+export function resolvePackageEntry(packageJson: {
+  exports?: unknown;
+  module?: string;
+  main?: string;
+}): string {
+  const pickExport = (value: unknown): string | null => {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const conditions = value as Record<string, unknown>;
+      for (const key of ['.', 'import', 'browser', 'default']) {
+        if (key in conditions) {
+          const picked = pickExport(conditions[key]);
+          if (picked) return picked;
+        }
+      }
+    }
+    return null;
+  };
+
+  const entry =
+    pickExport(packageJson.exports) ??
+    packageJson.module ??
+    packageJson.main ??
+    'index.js';
+  return entry.replace(/^\.\//, '');
+}
+
+/**
+ * Compute the integrity of an installed package's ESM entry file
+ * @param projectRoot - Absolute path to the project root
+ * @param packageName - Package name like "@constela/core"
+ * @returns Package integrity or null if the package is not installed
+ */
+export async function computePackageIntegrity(
+  projectRoot: string,
+  packageName: string,
+): Promise<PackageIntegrity | null> {
+  const packageDir = join(projectRoot, 'node_modules', packageName);
+
+  let manifest: { version?: string; exports?: unknown; module?: string; main?: string };
+  try {
+    manifest = JSON.parse(await readFile(join(packageDir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (!manifest.version) {
+    return null;
+  }
+
+  const file = resolvePackageEntry(manifest);
+  const content = await readFile(join(packageDir, file));
+
+  return {
+    version: manifest.version,
+    file,
+    integrity: computeIntegrity(content),
+    imports: findBareImports(content.toString('utf-8')),
+  };
+}
+
+/**
+ * Whether a URL serves the installed entry file of a package unchanged
+ */
+function servesInstalledFile(
+  url: string,
+  installed: PackageIntegrity | undefined,
+): installed is PackageIntegrity {
+  const parsed = parseCdnUrl(url);
+  return (
+    installed !== undefined &&
+    parsed?.file === installed.file &&
+    parsed.version === installed.version
+  );
+}
+
+/**
+ * Build the integrity sidecar map for externalImports.
+ * Entries are added for allowlisted packages whose URL serves the
+ * installed entry file; stored hashes are kept for other URLs that serve
+ * a package file (e.g. another version in declared mode). Entries for
+ * URLs no longer in externalImports, for CDN-generated bundles and for
+ * self-hosted vendor URLs are dropped.
+ * Does not mutate the inputs.
+ */
+export function syncIntegrity(
+  externalImports: Record<string, string>,
+  storedIntegrity: Record<string, string>,
+  packageIntegrities: Record<string, PackageIntegrity>,
+  options: { allowlist?: string[] } = {},
+): {
+  integrity: Record<string, string>;
+  updated: string[];
+  skipped: string[];
+} {
+  const allowlist = options.allowlist ?? DEFAULT_PACKAGE_ALLOWLIST;
+  const integrity: Record<string, string> = {};
+  const updated: string[] = [];
+  const skipped: string[] = [];
+
+  for (const [packageName, url] of Object.entries(externalImports)) {
+    if (isVendorUrl(url)) {
+      skipped.push(packageName);
+      continue;
+    }
+
+    const installed = packageIntegrities[packageName];
+    if (
+      !isPackageAllowed(packageName, allowlist) ||
+      !servesInstalledFile(url, installed)
+    ) {
+      skipped.push(packageName);
+      if (storedIntegrity[url] && parseCdnUrl(url)?.file) {
+        integrity[url] = storedIntegrity[url];
+      }
+      continue;
+    }
+
+    integrity[url] = installed.integrity;
+    if (storedIntegrity[url] !== installed.integrity) {
+      updated.push(packageName);
+    }
+  }
+
+  return { integrity, updated, skipped };
+}
+
+/**
+ * Check stored integrity hashes against the installed package files.
+ * Only checks allowlisted packages (@constela packages by default), whose
+ * URLs must serve the entry file and whose bare imports must also be in
+ * externalImports.
+ */
+export function checkIntegrity(
+  externalImports: Record<string, string>,
+  storedIntegrity: Record<string, string>,
+  packageIntegrities: Record<string, PackageIntegrity>,
+  options: { allowlist?: string[] } = {},
+): { success: boolean; mismatches: IntegrityMismatch[] } {
+  const allowlist = options.allowlist ?? DEFAULT_PACKAGE_ALLOWLIST;
+  const mismatches: IntegrityMismatch[] = [];
+
+  for (const [packageName, url] of Object.entries(externalImports)) {
+    if (!isPackageAllowed(packageName, allowlist) || isVendorUrl(url)) {
+      continue;
+    }
+
+    if (!parseCdnUrl(url)?.file) {
+      mismatches.push({ package: packageName, url, reason: 'unpinned' });
+      continue;
+    }
+
+    const installed = packageIntegrities[packageName];
+    const unmapped = (installed?.imports ?? []).filter(
+      (specifier) => !(specifier in externalImports),
+    );
+    if (unmapped.length > 0) {
+      mismatches.push({ package: packageName, url, reason: 'unmapped', unmapped });
+    }
+
+    const stored = storedIntegrity[url];
+    if (!stored) {
+      mismatches.push({ package: packageName, url, reason: 'missing' });
+      continue;
+    }
+
+    if (!servesInstalledFile(url, installed)) {
+      mismatches.push({ package: packageName, url, reason: 'unverifiable' });
+      continue;
+    }
+
+    if (stored !== installed.integrity) {
+      mismatches.push({
+        package: packageName,
+        url,
+        reason: 'mismatch',
+        expected: installed.integrity,
+        actual: stored,
+      });
+    }
+  }
+
+  return { success: mismatches.length === 0, mismatches };
+}
+
+/**
+ * Compute integrities for several installed packages
+ * Packages that are not installed are left out of the result.
+ */
+export async function computePackageIntegrities(
+  projectRoot: string,
+  packageNames: string[],
+): Promise<Record<string, PackageIntegrity>> {
+  const result: Record<string, PackageIntegrity> = {};
+  for (const packageName of packageNames) {
+    const integrity = await computePackageIntegrity(projectRoot, packageName);
+    if (integrity) {
+      result[packageName] = integrity;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,170 @@
+/**
+ * CDN providers for externalImports URLs.
+ * Each provider knows how to build a URL for a package version and how
+ * to parse one back, so the check and sync scripts work the same way
+ * whichever CDN (or self-hosted path) a target file uses.
+ */
+
+/**
+ * Supported provider names
+ */
+export type CdnProviderName = 'jsdelivr' | 'esm.sh' | 'unpkg' | 'vendor';
+
+/**
+ * Package and version parsed from a provider URL
+ */
+export interface ParsedCdnUrl {
+  packageName: string;
+  version: string;
+  /**
+   * Package file the URL serves unchanged, e.g. "dist/index.js". Absent
+   * when the URL serves a bundle generated by the CDN (jsdelivr +esm,
+   * esm.sh) or by vendor-cdn-imports, whose bytes are not the published
+   * file.
+   */
+  file?: string;
+}
+
+/**
+ * A CDN URL shape
+ */
+export interface CdnProvider {
+  name: CdnProviderName;
+  /**
+   * Build a URL for a package version
+   * @param packageName - Package name like "@constela/core"
+   * @param version - Exact version like "0.23.0"
+   * @param file - Package file relative to the package root, e.g. "dist/index.js".
+   *   Providers that serve package files as-is (jsdelivr, unpkg) pin the
+   *   URL to it; the others ignore it.
+   */
+  buildUrl(packageName: string, version: string, file?: string): string;
+  /**
+   * Parse a URL built by this provider
+   * @returns package and version, or null if the URL has another shape
+   */
+  parseUrl(url: string): ParsedCdnUrl | null;
+}
+
+// Matches "<package>@<version>" where package may be scoped
+const PACKAGE_AT_VERSION = '((?:@[^/@]+/)?[^/@?]+)@(\\d+\\.\\d+\\.\\d+(?:-[a-zA-Z0-9.]+)?)';
+
+/**
+ * @param servesFiles - Whether a path after "<pkg>@<ver>/" is served as
+ *   the published file (unless it asks for a generated "+esm" bundle)
+ */
+function createParser(
+  prefix: string,
+  servesFiles: boolean,
+): (url: string) => ParsedCdnUrl | null {
+  const pattern = new RegExp(`^${prefix}${PACKAGE_AT_VERSION}(?:/([^?#]*))?([?#].*)?$`);
+  return (url) => {
+    const match = url.match(pattern);
+    if (!match) {
+      return null;
+    }
+    const [, packageName, version, file, query] = match;
+    return servesFiles && file && !file.endsWith('+esm') && !query
+      ? { packageName, version, file }
+      : { packageName, version };
+  };
+}
+
+/**
+ * jsdelivr: the published file when one is given,
+ * https://cdn.jsdelivr.net/npm/<pkg>@<ver>/<file>, otherwise the ESM
+ * bundle jsdelivr generates, https://cdn.jsdelivr.net/npm/<pkg>@<ver>/+esm
+ */
+const jsdelivr: CdnProvider = {
+  name: 'jsdelivr',
+  buildUrl: (packageName, version, file) =>
+    `https://cdn.jsdelivr.net/npm/${packageName}@${version}/${file ?? '+esm'}`,
+  parseUrl: createParser('https://cdn\\.jsdelivr\\.net/npm/', true),
+};
+
+/**
+ * esm.sh ESM bundles: https://esm.sh/<pkg>@<ver>
+ */
+const esmSh: CdnProvider = {
+  name: 'esm.sh',
+  buildUrl: (packageName, version) => `https://esm.sh/${packageName}@${version}`,
+  parseUrl: createParser('https://esm\\.sh/(?:v\\d+/)?', false),
+};
+
+/**
+ * unpkg raw package files: https://unpkg.com/<pkg>@<ver>/<file>
+ */
+const unpkg: CdnProvider = {
+  name: 'unpkg',
+  buildUrl: (packageName, version, file) =>
+    `https://unpkg.com/${packageName}@${version}${file ? `/${file}` : ''}`,
+  parseUrl: createParser('https://unpkg\\.com/', true),
+};
+
+/**
+ * Self-hosted bundles written by vendor-cdn-imports:
+ * /vendor/<pkg>@<ver>/index.js
+ */
+const vendor: CdnProvider = {
+  name: 'vendor',
+  buildUrl: (packageName, version) =>
+    `/vendor/${packageName}@${version}/index.js`,
+  parseUrl: createParser('/vendor/', false),
+};
+
+/**
+ * All providers by name
+ */
+export const CDN_PROVIDERS: Record<CdnProviderName, CdnProvider> = {
+  jsdelivr,
+  'esm.sh': esmSh,
+  unpkg,
+  vendor,
+};
+
+/**
+ * Provider used when none is configured
+ */
+export const DEFAULT_CDN_PROVIDER: CdnProviderName = 'jsdelivr';
+
+/**
+ * Get a provider by name
+ * @throws Error if the provider is unknown
+ */
+export function getCdnProvider(name: string): CdnProvider {
+  const provider = CDN_PROVIDERS[name as CdnProviderName];
+  if (!provider) {
+    throw new Error(
+      `Unknown CDN provider "${name}" (expected ${Object.keys(CDN_PROVIDERS).join(', ')})`,
+    );
+  }
+  return provider;
+}
+
+/**
+ * Find the provider that built a URL
+ * @returns the provider, or null if no provider recognizes the URL
+ */
+export function detectCdnProvider(url: string): CdnProvider | null {
+  return (
+    Object.values(CDN_PROVIDERS).find((provider) => provider.parseUrl(url)) ??
+    null
+  );
+}
+
+/**
+ * Parse a URL with whichever provider recognizes it
+ * @returns package and version, or null if no provider recognizes the URL
+ */
+export function parseCdnUrl(url: string): ParsedCdnUrl | null {
+  return detectCdnProvider(url)?.parseUrl(url) ?? null;
+}
+
+/**
+ * Check if a URL points at a self-hosted vendor bundle.
+ * Vendor bundles are same-origin, so they need no integrity hash and
+ * satisfy any configured CDN provider.
+ */
+export function isVendorUrl(url: string): boolean {
+  return CDN_PROVIDERS.vendor.parseUrl(url) !== null;
+}
@@ -0,0 +1,206 @@
+/**
+ * Check and sync flows shared by the CDN CLIs and the site doctor.
+ * Loads package.json, the installed versions and package integrities
+ * once, then checks or syncs each externalImports target with the
+ * provider configured for it in cdn-config.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  checkPlaygroundVersions,
+  collectPackageVersions,
+  isPackageAllowed,
+} from './check-playground-versions.js';
+import type {
+  PackageJsonDependencies,
+  VersionMismatch,
+} from './check-playground-versions.js';
+import {
+  rewriteExternalImportsSource,
+  syncCdnVersions,
+} from './sync-cdn-versions.js';
+import { discoverExternalImportsTargets } from './external-imports-targets.js';
+import type { ExternalImportsTarget } from './external-imports-targets.js';
+import {
+  parseVersionModeArg,
+  resolveInstalledVersions,
+} from './installed-versions.js';
+import type { VersionMode } from './installed-versions.js';
+import {
+  INTEGRITY_KEY,
+  checkIntegrity,
+  computePackageIntegrities,
+  syncIntegrity,
+} from './cdn-integrity.js';
+import type { IntegrityMismatch, PackageIntegrity } from './cdn-integrity.js';
+import {
+  CDN_INTEGRITY_ALLOWLIST,
+  CDN_PACKAGE_ALLOWLIST,
+  CDN_VERSION_MODE,
+  getTargetProvider,
+} from './cdn-config.js';
+
+/**
+ * Fields of a target file read by the CDN scripts
+ */
+export interface ExternalImportsJson {
+  externalImports: Record<string, string>;
+  externalImportsIntegrity?: Record<string, string>;
+}
+
+/**
+ * Inputs shared by every target
+ */
+export interface CdnInputs {
+  packageJson: PackageJsonDependencies;
+  mode: VersionMode;
+  /** Allowlisted packages declared in package.json */
+  packageNames: string[];
+  /** Exact installed versions (installed mode only) */
+  installedVersions?: Record<string, string>;
+  /** Allowlisted packages with no installed version (installed mode only) */
+  notInstalled: string[];
+  /** Integrity of each installed package in CDN_INTEGRITY_ALLOWLIST */
+  packageIntegrities: Record<string, PackageIntegrity>;
+  /** Entry file CDN URLs are pinned to, for the same packages */
+  entryFiles: Record<string, string>;
+  targets: ExternalImportsTarget[];
+}
+
+/**
+ * Check result for one target file
+ */
+export interface CdnTargetCheck {
+  target: ExternalImportsTarget;
+  versionMismatches: VersionMismatch[];
+  integrityMismatches: IntegrityMismatch[];
+  success: boolean;
+}
+
+/**
+ * Sync result for one target file; nothing is written
+ */
+export interface CdnTargetSync {
+  target: ExternalImportsTarget;
+  content: string;
+  /** Synced file content, identical to content when already in sync */
+  nextContent: string;
+  /** Packages whose CDN URL changed */
+  updated: string[];
+  /** Packages left as-is (not allowlisted or not in package.json) */
+  skipped: string[];
+  /** Packages whose integrity hash changed */
+  integrityUpdated: string[];
+}
+
+/**
+ * Load the inputs for checking or syncing CDN URLs
+ * @param projectRoot - Absolute path to the project root
+ * @param args - CLI arguments, for --mode=declared|installed
+ */
+export async function loadCdnInputs(
+  projectRoot: string,
+  args: string[],
+): Promise<CdnInputs> {
+  const packageJson = JSON.parse(
+    await readFile(join(projectRoot, 'package.json'), 'utf-8'),
+  ) as PackageJsonDependencies;
+  const mode = parseVersionModeArg(args, CDN_VERSION_MODE);
+  const packageNames = Object.keys(collectPackageVersions(packageJson)).filter(
+    (name) => isPackageAllowed(name, CDN_PACKAGE_ALLOWLIST),
+  );
+  const installedVersions =
+    mode === 'installed'
+      ? await resolveInstalledVersions(projectRoot, packageNames)
+      : undefined;
+  const packageIntegrities = await computePackageIntegrities(
+    projectRoot,
+    packageNames.filter((name) => isPackageAllowed(name, CDN_INTEGRITY_ALLOWLIST)),
+  );
+
+  return {
+    packageJson,
+    mode,
+    packageNames,
+    installedVersions,
+    notInstalled: installedVersions
+      ? packageNames.filter((name) => !installedVersions[name])
+      : [],
+    packageIntegrities,
+    entryFiles: Object.fromEntries(
+      Object.entries(packageIntegrities).map(([name, { file }]) => [name, file]),
+    ),
+    targets: await discoverExternalImportsTargets(projectRoot),
+  };
+}
+
+/**
+ * Check a target's CDN versions, providers and integrity hashes
+ */
+export async function checkCdnTarget(
+  inputs: CdnInputs,
+  target: ExternalImportsTarget,
+): Promise<CdnTargetCheck> {
+  const json = JSON.parse(
+    await readFile(target.path, 'utf-8'),
+  ) as ExternalImportsJson;
+
+  const versions = checkPlaygroundVersions(inputs.packageJson, json, {
+    allowlist: CDN_PACKAGE_ALLOWLIST,
+    installedVersions: inputs.installedVersions,
+    provider: getTargetProvider(target.label),
+    entryFiles: inputs.entryFiles,
+  });
+  const integrity = checkIntegrity(
+    json.externalImports,
+    json[INTEGRITY_KEY] ?? {},
+    inputs.packageIntegrities,
+    { allowlist: CDN_INTEGRITY_ALLOWLIST },
+  );
+
+  return {
+    target,
+    versionMismatches: versions.mismatches,
+    integrityMismatches: integrity.mismatches,
+    success: versions.success && integrity.success,
+  };
+}
+
+/**
+ * Sync a target's CDN URLs and integrity hashes; the caller writes
+ * nextContent (or diffs it for a dry run)
+ */
+export async function syncCdnTarget(
+  inputs: CdnInputs,
+  target: ExternalImportsTarget,
+): Promise<CdnTargetSync> {
+  const content = await readFile(target.path, 'utf-8');
+  const json = JSON.parse(content) as ExternalImportsJson;
+
+  const { externalImports, updated, skipped } = syncCdnVersions(
+    inputs.packageJson,
+    json.externalImports,
+    {
+      allowlist: CDN_PACKAGE_ALLOWLIST,
+      installedVersions: inputs.installedVersions,
+      provider: getTargetProvider(target.label),
+      entryFiles: inputs.entryFiles,
+    },
+  );
+  const { integrity, updated: integrityUpdated } = syncIntegrity(
+    externalImports,
+    json[INTEGRITY_KEY] ?? {},
+    inputs.packageIntegrities,
+    { allowlist: CDN_INTEGRITY_ALLOWLIST },
+  );
+
+  return {
+    target,
+    content,
+    nextContent: rewriteExternalImportsSource(content, externalImports, integrity),
+    updated,
+    skipped,
+    integrityUpdated,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Examples data consistency check.
+ * examples.json keeps derived copies of each example (items and codes
+ * $refs, pretty-printed codeStrings, defaultCodeString,
+ * featuresExtraCount) next to the source example; they must agree.
+ */
+
+import type { DoctorIssue } from './site-doctor.js';
+import { escapePointerSegment } from './check-navigation.js';
+
+/**
+ * One entry of examples.json "examples"
+ */
+export interface ExampleEntry {
+  slug: string;
+  title: string;
+  featuresPreview?: unknown[];
+  featuresExtra?: unknown[];
+  featuresExtraCount?: number;
+  code: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Shape of src/data/examples.json
+ */
+export interface ExamplesData {
+  examples: ExampleEntry[];
+  items: Record<string, { $ref: string }>;
+  codes: Record<string, { $ref: string }>;
+  codeStrings: Record<string, string>;
+  defaultCode: string;
+  defaultCodeString: string;
+}
+
+/**
+ * Pretty-print an example program the way the playground shows it
+ */
+export function formatExampleCode(code: unknown): string {
+  return JSON.stringify(code, null, 2);
+}
+
+/**
+ * Check the derived fields of examples.json against the examples
+ * @param data - Parsed examples.json
+ * @param file - Path of examples.json relative to the project root
+ */
+export function checkExamples(data: ExamplesData, file: string): DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+  const slugs = new Set<string>();
+  const issue = (pointer: string, message: string) =>
+    issues.push({ file, pointer, message });
+
+  data.examples.forEach((example, index) => {
+    const { slug } = example;
+    const key = escapePointerSegment(slug);
+
+    if (slugs.has(slug)) {
+      issue(`/examples/${index}/slug`, `Duplicate example slug "${slug}"`);
+    }
+    slugs.add(slug);
+
+    if (data.items[slug]?.$ref !== `#/examples/${index}`) {
+      issue(`/items/${key}`, `Expected {"$ref": "#/examples/${index}"}`);
+    }
+    if (data.codes[slug]?.$ref !== `#/examples/${index}/code`) {
+      issue(`/codes/${key}`, `Expected {"$ref": "#/examples/${index}/code"}`);
+    }
+    if (data.codeStrings[slug] !== formatExampleCode(example.code)) {
+      issue(`/codeStrings/${key}`, `Out of date with /examples/${index}/code`);
+    }
+    if (
+      example.featuresExtra &&
+      example.featuresExtraCount !== example.featuresExtra.length
+    ) {
+      issue(
+        `/examples/${index}/featuresExtraCount`,
+        `Expected ${example.featuresExtra.length} (length of featuresExtra)`,
+      );
+    }
+  });
+
+  for (const field of ['items', 'codes', 'codeStrings'] as const) {
+    for (const slug of Object.keys(data[field])) {
+      if (!slugs.has(slug)) {
+        issue(`/${field}/${escapePointerSegment(slug)}`, `No example with slug "${slug}"`);
+      }
+    }
+  }
+
+  const defaultIndex = data.examples.findIndex(
+    (example) => example.slug === data.defaultCode,
+  );
+  if (defaultIndex === -1) {
+    issue('/defaultCode', `No example with slug "${data.defaultCode}"`);
+  } else if (
+    data.defaultCodeString !== formatExampleCode(data.examples[defaultIndex].code)
+  ) {
+    issue('/defaultCodeString', `Out of date with /examples/${defaultIndex}/code`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,84 @@
+/**
+ * Navigation consistency check.
+ * Every internal href in navigation.json, and every page key of the
+ * pagination maps, must point at a path the site builds.
+ */
+
+import type { DoctorIssue } from './site-doctor.js';
+
+/**
+ * Escape one JSON pointer segment (RFC 6901)
+ */
+export function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Collect every "href" string in a JSON value
+ * @returns href values with the JSON pointer of each
+ */
+export function collectHrefs(
+  value: unknown,
+  pointer = '',
+): { href: string; pointer: string }[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectHrefs(item, `${pointer}/${index}`));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+
+  const hrefs: { href: string; pointer: string }[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    const childPointer = `${pointer}/${escapePointerSegment(key)}`;
+    if (key === 'href' && typeof child === 'string') {
+      hrefs.push({ href: child, pointer: childPointer });
+    } else {
+      hrefs.push(...collectHrefs(child, childPointer));
+    }
+  }
+  return hrefs;
+}
+
+/**
+ * Check navigation links against the site paths
+ * @param navigation - Parsed navigation.json
+ * @param sitePaths - Paths from collectSitePaths
+ * @param file - Path of navigation.json relative to the project root
+ */
+export function checkNavigation(
+  navigation: Record<string, unknown>,
+  sitePaths: string[],
+  file: string,
+): DoctorIssue[] {
+  const known = new Set(sitePaths);
+  const issues: DoctorIssue[] = [];
+
+  for (const { href, pointer } of collectHrefs(navigation)) {
+    // External links and in-page anchors are not site paths
+    if (!href.startsWith('/')) {
+      continue;
+    }
+    const path = href.replace(/[?#].*$/, '');
+    if (!known.has(path)) {
+      issues.push({ file, pointer, message: `Link to unknown page ${href}` });
+    }
+  }
+
+  for (const [key, value] of Object.entries(navigation)) {
+    if (!key.endsWith('Pagination') || typeof value !== 'object' || value === null) {
+      continue;
+    }
+    for (const page of Object.keys(value)) {
+      if (!known.has(page)) {
+        issues.push({
+          file,
+          pointer: `/${key}/${escapePointerSegment(page)}`,
+          message: `Pagination entry for unknown page ${page}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -1,8 +1,59 @@
 /**
- * Version validation script that checks if playground.json CDN versions
- * match package.json versions for @constela packages.
+ * Version validation script that checks if externalImports CDN versions
+ * match package.json versions for an allowlist of packages
+ * (@constela packages by default).
  */
 
+import {
+  detectCdnProvider,
+  getCdnProvider,
+  isVendorUrl,
+  parseCdnUrl,
+} from './cdn-providers.js';
+import type { CdnProviderName } from './cdn-providers.js';
+
+/**
+ * package.json fields read by the CDN scripts
+ */
+export interface PackageJsonDependencies {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * Options shared by the CDN check and sync functions
+ */
+export interface CdnPackageOptions {
+  /**
+   * Package names to check. Entries ending in "/*" match a whole scope,
+   * e.g. "@constela/*". Defaults to DEFAULT_PACKAGE_ALLOWLIST.
+   */
+  allowlist?: string[];
+  /**
+   * Exact installed versions (see resolveInstalledVersions). When a package
+   * is listed here its installed version is used instead of the floor of
+   * the package.json range.
+   */
+  installedVersions?: Record<string, string>;
+  /**
+   * CDN provider the URLs must use. When set, URLs built by another
+   * provider are reported (check) or rewritten (sync). Self-hosted
+   * vendor URLs satisfy any provider.
+   */
+  provider?: CdnProviderName;
+  /**
+   * ESM entry file of each package relative to its root. Providers that
+   * serve package files as-is (jsdelivr, unpkg) pin the URL to it;
+   * packages without an entry use the provider's package URL.
+   */
+  entryFiles?: Record<string, string>;
+}
+
+/**
+ * Packages checked when no allowlist is given
+ */
+export const DEFAULT_PACKAGE_ALLOWLIST = ['@constela/*'];
+
 /**
  * Version mismatch info
  */
@@ -10,6 +61,11 @@ export interface VersionMismatch {
   package: string;
   packageJsonVersion: string;
   playgroundVersion: string;
+  /** Set when the URL is not built by the configured provider */
+  expectedProvider?: CdnProviderName;
+  actualProvider?: CdnProviderName | null;
+  /** Set when the provider matches but the URL is not the one it builds */
+  expectedUrl?: string;
 }
 
 /**
@@ -22,10 +78,16 @@ export interface VersionCheckResult {
 
 /**
  * Extract version from CDN URL
+ * Uses the matching CDN provider, falling back to any "@<semver>" in the URL.
  * @param cdnUrl - URL like "https://cdn.jsdelivr.net/npm/@constela/core@0.14.0/+esm"
  * @returns version string like "0.14.0" or null if invalid
  */
 export function extractVersionFromCdnUrl(cdnUrl: string): string | null {
+  const parsed = parseCdnUrl(cdnUrl);
+  if (parsed) {
+    return parsed.version;
+  }
+
   // Match pattern: package@version (handles both scoped and non-scoped packages)
   // Examples:
   //   @constela/core@0.14.0/+esm -> 0.14.0
@@ -49,18 +111,69 @@ export function parsePackageJsonVersion(version: string): string {
 }
 
 /**
- * Check if playground.json CDN versions match package.json versions
- * Only checks @constela packages
+ * Resolve the version a CDN URL should pin for a package
+ * @param packageName - Package name like "@constela/runtime"
+ * @param range - package.json range like "^7.0.0"
+ * @param options - installedVersions take precedence over the range floor
+ * @returns version like "7.0.0" (declared) or "7.3.1" (installed)
+ */
+export function resolveTargetVersion(
+  packageName: string,
+  range: string,
+  options: CdnPackageOptions = {},
+): string {
+  return (
+    options.installedVersions?.[packageName] ?? parsePackageJsonVersion(range)
+  );
+}
+
+/**
+ * Check if a package name matches an allowlist
+ * @param packageName - Package name like "@constela/core" or "monaco-editor"
+ * @param allowlist - Exact names or scope patterns like "@constela/*"
+ * @returns true if any allowlist entry matches
+ */
+export function isPackageAllowed(
+  packageName: string,
+  allowlist: string[],
+): boolean {
+  return allowlist.some((entry) =>
+    entry.endsWith('/*')
+      ? packageName.startsWith(entry.slice(0, -1))
+      : packageName === entry,
+  );
+}
+
+/**
+ * Merge dependencies and devDependencies into one map.
+ * dependencies take precedence when a package appears in both.
+ */
+export function collectPackageVersions(
+  packageJson: PackageJsonDependencies,
+): Record<string, string> {
+  return {
+    ...packageJson.devDependencies,
+    ...packageJson.dependencies,
+  };
+}
+
+/**
+ * Check if externalImports CDN versions match package.json versions
+ * Only checks packages in the allowlist (@constela packages by default)
  */
 export function checkPlaygroundVersions(
-  packageJson: { dependencies: Record<string, string> },
-  playgroundJson: { externalImports: Record<string, string> }
+  packageJson: PackageJsonDependencies,
+  playgroundJson: { externalImports: Record<string, string> },
+  options: CdnPackageOptions = {},
 ): VersionCheckResult {
+  const allowlist = options.allowlist ?? DEFAULT_PACKAGE_ALLOWLIST;
   const mismatches: VersionMismatch[] = [];
 
-  for (const [packageName, version] of Object.entries(packageJson.dependencies)) {
-    // Only check @constela packages
-    if (!packageName.startsWith('@constela/')) {
+  for (const [packageName, version] of Object.entries(
+    collectPackageVersions(packageJson),
+  )) {
+    // Only check allowlisted packages
+    if (!isPackageAllowed(packageName, allowlist)) {
       continue;
     }
 
@@ -70,7 +183,7 @@ export function checkPlaygroundVersions(
       continue;
     }
 
-    const packageJsonVersion = parsePackageJsonVersion(version);
+    const packageJsonVersion = resolveTargetVersion(packageName, version, options);
     const playgroundVersion = extractVersionFromCdnUrl(cdnUrl);
 
     if (playgroundVersion && packageJsonVersion !== playgroundVersion) {
@@ -79,6 +192,37 @@ export function checkPlaygroundVersions(
         packageJsonVersion,
         playgroundVersion,
       });
+      continue;
+    }
+
+    if (!options.provider || isVendorUrl(cdnUrl)) {
+      continue;
+    }
+
+    const actualProvider = detectCdnProvider(cdnUrl)?.name ?? null;
+    if (actualProvider !== options.provider) {
+      mismatches.push({
+        package: packageName,
+        packageJsonVersion,
+        playgroundVersion: playgroundVersion ?? packageJsonVersion,
+        expectedProvider: options.provider,
+        actualProvider,
+      });
+      continue;
+    }
+
+    const expectedUrl = getCdnProvider(options.provider).buildUrl(
+      packageName,
+      packageJsonVersion,
+      options.entryFiles?.[packageName],
+    );
+    if (cdnUrl !== expectedUrl) {
+      mismatches.push({
+        package: packageName,
+        packageJsonVersion,
+        playgroundVersion: playgroundVersion ?? packageJsonVersion,
+        expectedUrl,
+      });
     }
   }
 
@@ -0,0 +1,137 @@
+/**
+ * Sitemap consistency check.
+ * public/sitemap.xml must list every path the site builds, and nothing
+ * else. The fixer edits the file in place: stale <url> blocks are
+ * removed and missing ones are added next to their sibling pages,
+ * keeping the hand-written comments and ordering.
+ */
+
+import type { DoctorIssue } from './site-doctor.js';
+
+/**
+ * Origin prepended to paths in <loc>
+ */
+export const SITE_ORIGIN = 'https://constela.dev';
+
+const URL_BLOCK = /^[ \t]*<url>\s*<loc>([^<]*)<\/loc>[\s\S]*?<\/url>\n?/gm;
+
+/**
+ * Parse sitemap paths in document order
+ * @returns Paths relative to SITE_ORIGIN, e.g. ["/", "/docs"]
+ */
+export function parseSitemapPaths(xml: string): string[] {
+  return [...xml.matchAll(URL_BLOCK)].map((match) =>
+    match[1].trim().replace(SITE_ORIGIN, '') || '/',
+  );
+}
+
+function locOf(path: string): string {
+  return `${SITE_ORIGIN}${path === '/' ? '/' : path}`;
+}
+
+/**
+ * Check sitemap paths against the site paths
+ * @param xml - sitemap.xml content
+ * @param sitePaths - Paths from collectSitePaths
+ * @param file - Path of sitemap.xml relative to the project root
+ */
+export function checkSitemap(
+  xml: string,
+  sitePaths: string[],
+  file: string,
+): DoctorIssue[] {
+  const listed = parseSitemapPaths(xml);
+  const known = new Set(sitePaths);
+  const issues: DoctorIssue[] = [];
+
+  const seen = new Set<string>();
+  for (const path of listed) {
+    if (seen.has(path)) {
+      issues.push({ file, pointer: locOf(path), message: `Duplicate entry for ${path}` });
+    } else if (!known.has(path)) {
+      issues.push({ file, pointer: locOf(path), message: `Entry for unknown page ${path}` });
+    }
+    seen.add(path);
+  }
+  for (const path of sitePaths) {
+    if (!seen.has(path)) {
+      issues.push({ file, message: `Missing entry for ${path}` });
+    }
+  }
+
+  return issues;
+}
+
+function parentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf('/')) || '/';
+}
+
+/**
+ * Rewrite a sitemap so it lists exactly the site paths
+ * @param xml - sitemap.xml content
+ * @param sitePaths - Paths from collectSitePaths
+ * @returns Updated sitemap.xml content
+ */
+export function fixSitemap(xml: string, sitePaths: string[]): string {
+  const known = new Set(sitePaths);
+  const seen = new Set<string>();
+
+  let result = xml.replace(URL_BLOCK, (block, loc: string) => {
+    const path = loc.trim().replace(SITE_ORIGIN, '') || '/';
+    if (!known.has(path) || seen.has(path)) {
+      return '';
+    }
+    seen.add(path);
+    return block;
+  });
+
+  const hasChildren = (path: string) =>
+    sitePaths.some((other) => other.startsWith(`${path === '/' ? '' : path}/`));
+
+  for (const path of [...sitePaths].sort()) {
+    if (seen.has(path)) {
+      continue;
+    }
+
+    const entry = [
+      '  <url>',
+      `    <loc>${locOf(path)}</loc>`,
+      '    <changefreq>weekly</changefreq>',
+      `    <priority>${path.split('/').length > 2 ? '0.7' : '0.8'}</priority>`,
+      '  </url>',
+      '',
+    ].join('\n');
+
+    // Place the entry among its siblings of the same kind (leaf pages
+    // next to leaf pages, section pages next to section pages): after
+    // the closest sibling that sorts before it, else before the closest
+    // one after it, else after the parent page, else at the end.
+    const siblings = [...seen]
+      .filter(
+        (other) =>
+          other !== '/' &&
+          parentPath(other) === parentPath(path) &&
+          hasChildren(other) === hasChildren(path),
+      )
+      .sort();
+    const before = siblings.filter((other) => other < path).pop();
+    const after = siblings.find((other) => other > path);
+    const blocks = [...result.matchAll(URL_BLOCK)].map((match) => ({
+      path: match[1].trim().replace(SITE_ORIGIN, '') || '/',
+      start: match.index,
+      end: match.index + match[0].length,
+    }));
+    const blockOf = (target: string | undefined) =>
+      blocks.find((block) => block.path === target);
+
+    const insertAt =
+      blockOf(before)?.end ??
+      blockOf(after)?.start ??
+      blockOf(parentPath(path))?.end ??
+      result.lastIndexOf('</urlset>');
+    result = result.slice(0, insertAt) + entry + result.slice(insertAt);
+    seen.add(path);
+  }
+
+  return result;
+}
@@ -0,0 +1,114 @@
+/**
+ * Target discovery for CDN version scripts.
+ * Finds every JSON file under the site source directories that declares
+ * an externalImports map, so new routes, layouts and components are
+ * checked and synced without being registered by hand.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+
+/**
+ * Directories (relative to the project root) searched for externalImports
+ */
+export const DEFAULT_SEARCH_DIRS = [
+  'src/routes',
+  'src/layouts',
+  'src/components',
+  'src/data',
+];
+
+/**
+ * A JSON file that declares externalImports
+ */
+export interface ExternalImportsTarget {
+  /** Path relative to the project root, e.g. "src/routes/playground.json" */
+  label: string;
+  /** Absolute path to the file */
+  path: string;
+}
+
+/**
+ * Check if a parsed JSON value has an externalImports map
+ * @param json - Parsed JSON file content
+ * @returns true if json.externalImports is a non-null object
+ */
+export function hasExternalImports(
+  json: unknown,
+): json is { externalImports: Record<string, string> } {
+  if (typeof json !== 'object' || json === null) {
+    return false;
+  }
+  const externalImports = (json as { externalImports?: unknown }).externalImports;
+  return (
+    typeof externalImports === 'object' &&
+    externalImports !== null &&
+    !Array.isArray(externalImports)
+  );
+}
+
+/**
+ * Recursively list JSON files in a directory.
+ * Missing directories yield no files. __tests__ directories are skipped.
+ */
+async function listJsonFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === '__tests__' || entry.name === 'node_modules') {
+        continue;
+      }
+      files.push(...(await listJsonFiles(entryPath)));
+    } else if (entry.isFile() && entry.name.endsWith('.json')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Discover every JSON file with an externalImports map
+ * @param projectRoot - Absolute path to the project root
+ * @param searchDirs - Directories to walk, relative to projectRoot
+ * @returns Targets sorted by label
+ */
+export async function discoverExternalImportsTargets(
+  projectRoot: string,
+  searchDirs: string[] = DEFAULT_SEARCH_DIRS,
+): Promise<ExternalImportsTarget[]> {
+  const targets: ExternalImportsTarget[] = [];
+
+  for (const searchDir of searchDirs) {
+    const files = await listJsonFiles(join(projectRoot, searchDir));
+
+    for (const file of files) {
+      const label = relative(projectRoot, file).split(sep).join('/');
+      const content = await readFile(file, 'utf-8');
+
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse ${label}: ${message}`);
+      }
+
+      if (hasExternalImports(json)) {
+        targets.push({ label, path: file });
+      }
+    }
+  }
+
+  return targets.sort((a, b) => a.label.localeCompare(b.label));
+}
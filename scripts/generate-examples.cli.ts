@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+/**
+ * CLI entry point for the examples data aggregator.
+ * Assembles src/data/examples.json from the per-example directories
+ * under src/examples/ (see generate-examples.ts).
+ *
+ * Usage: npx tsx scripts/generate-examples.cli.ts [--check]
+ *
+ * --check writes nothing and prints a unified diff if the committed
+ * file differs from the generated output. The prebuild gate runs the
+ * same check as the site doctor's "examples" check.
+ *
+ * Exit codes:
+ *   0 - File generated (or already up to date)
+ *   1 - --check found differences, or an error occurred
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { EXAMPLES_FILE, generateExamplesJson } from './generate-examples.js';
+import { createUnifiedDiff } from './unified-diff.js';
+
+async function main(): Promise<void> {
+  const projectRoot = resolve(import.meta.dirname, '..');
+  const path = resolve(projectRoot, EXAMPLES_FILE);
+  const check = process.argv.slice(2).includes('--check');
+
+  try {
+    const content = await readFile(path, 'utf-8').catch(() => '');
+    const nextContent = await generateExamplesJson(projectRoot);
+
+    if (nextContent === content) {
+      console.log(`${EXAMPLES_FILE} is up to date.`);
+      return;
+    }
+
+    if (check) {
+      console.log(createUnifiedDiff(EXAMPLES_FILE, content, nextContent));
+      console.error(
+        `\n${EXAMPLES_FILE} differs from the generated output. Run \`pnpm generate-examples\` to update it.`,
+      );
+      process.exit(1);
+    }
+
+    await writeFile(path, nextContent, 'utf-8');
+    console.log(`Updated ${EXAMPLES_FILE}.`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,209 @@
+/**
+ * Examples data aggregator.
+ * Each example lives in its own directory under src/examples/:
+ *   src/examples/index.json          - { defaultCode, order } (slugs in page order)
+ *   src/examples/<slug>/meta.json    - title, description, feature
+ *                                      overrides, run commands,
+ *                                      interaction script, ...
+ *   src/examples/<slug>/program.json - the example program
+ * The aggregator assembles src/data/examples.json from them: the
+ * "examples" list, each with featuresPreview, featuresExtra and
+ * featuresExtraCount derived by the feature analyser, plus the derived
+ * items/codes $ref maps and the pretty-printed codeStrings and
+ * defaultCodeString. Routes import the assembled file.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { formatExampleCode } from './check-examples.js';
+import type { ExampleEntry, ExamplesData } from './check-examples.js';
+import { detectFeatures, resolveFeatures } from './analyze-features.js';
+import type { FeatureOverrides } from './analyze-features.js';
+
+export const EXAMPLES_SOURCE_DIR = 'src/examples';
+export const EXAMPLES_FILE = 'src/data/examples.json';
+
+/**
+ * Shape of src/examples/index.json
+ */
+export interface ExamplesIndex {
+  defaultCode: string;
+  order: string[];
+}
+
+/**
+ * Example metadata (src/examples/<slug>/meta.json); the slug comes from
+ * the directory name and the feature lists are derived from the
+ * program, adjusted by "features"
+ */
+export interface ExampleMeta {
+  title: string;
+  description?: string;
+  features?: FeatureOverrides;
+  [key: string]: unknown;
+}
+
+/**
+ * One example as read from its directory
+ */
+export interface ExampleSource {
+  slug: string;
+  meta: ExampleMeta;
+  program: unknown;
+}
+
+/**
+ * Everything read from src/examples
+ */
+export interface ExampleSources {
+  index: ExamplesIndex;
+  /** Examples in index order */
+  examples: ExampleSource[];
+  /** Example directories missing from index.json "order" */
+  unlisted: string[];
+}
+
+async function readJsonFile<T>(path: string): Promise<T> {
+  let content;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    throw new Error(`Missing ${path}`);
+  }
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${path}: ${message}`);
+  }
+}
+
+/**
+ * Read every example listed in src/examples/index.json
+ * @param projectRoot - Absolute path to the project root
+ * @throws Error if index.json or a listed example's files are missing or
+ *   not valid JSON
+ */
+export async function readExampleSources(projectRoot: string): Promise<ExampleSources> {
+  const dir = join(projectRoot, EXAMPLES_SOURCE_DIR);
+  const index = await readJsonFile<ExamplesIndex>(join(dir, 'index.json'));
+
+  const examples: ExampleSource[] = [];
+  for (const slug of index.order) {
+    examples.push({
+      slug,
+      meta: await readJsonFile<ExampleMeta>(join(dir, slug, 'meta.json')),
+      program: await readJsonFile<unknown>(join(dir, slug, 'program.json')),
+    });
+  }
+
+  const entries = await readdir(dir, { withFileTypes: true });
+  const unlisted = entries
+    .filter((entry) => entry.isDirectory() && !index.order.includes(entry.name))
+    .map((entry) => entry.name)
+    .sort();
+
+  return { index, examples, unlisted };
+}
+
+type DerivedKey = 'codes' | 'items' | 'defaultCodeString' | 'codeStrings';
+
+/**
+ * Compute the derived top-level fields from the examples
+ * @throws Error if defaultCode does not name an example
+ */
+export function deriveExamplesFields(
+  data: Pick<ExamplesData, 'examples' | 'defaultCode'>,
+): Pick<ExamplesData, DerivedKey> {
+  const defaultExample = data.examples.find(
+    (example) => example.slug === data.defaultCode,
+  );
+  if (!defaultExample) {
+    throw new Error(`defaultCode "${data.defaultCode}" does not name an example`);
+  }
+
+  return {
+    codes: Object.fromEntries(
+      data.examples.map((example, index) => [
+        example.slug,
+        { $ref: `#/examples/${index}/code` },
+      ]),
+    ),
+    items: Object.fromEntries(
+      data.examples.map((example, index) => [
+        example.slug,
+        { $ref: `#/examples/${index}` },
+      ]),
+    ),
+    defaultCodeString: formatExampleCode(defaultExample.code),
+    codeStrings: Object.fromEntries(
+      data.examples.map((example) => [example.slug, formatExampleCode(example.code)]),
+    ),
+  };
+}
+
+/**
+ * Build an examples.json entry: slug, title and description, the derived
+ * feature lists, the rest of the metadata, then the code
+ * @throws Error if the feature overrides do not match the program
+ */
+function toExampleEntry({ slug, meta, program }: ExampleSource): ExampleEntry {
+  const { title, description, features: overrides, ...rest } = meta;
+  let features;
+  try {
+    features = resolveFeatures(detectFeatures(program), overrides);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${EXAMPLES_SOURCE_DIR}/${slug}/meta.json "features": ${message}`);
+  }
+
+  return {
+    slug,
+    title,
+    ...(description !== undefined ? { description } : {}),
+    ...features,
+    featuresExtraCount: features.featuresExtra.length,
+    ...rest,
+    code: program,
+  };
+}
+
+/**
+ * Assemble examples.json from the example sources
+ * @throws Error if defaultCode does not name an example
+ */
+export function assembleExamples(
+  index: ExamplesIndex,
+  examples: ExampleSource[],
+): ExamplesData {
+  const data = {
+    examples: examples.map(toExampleEntry),
+    defaultCode: index.defaultCode,
+  };
+  const derived = deriveExamplesFields(data);
+
+  return {
+    examples: data.examples,
+    codes: derived.codes,
+    items: derived.items,
+    defaultCode: data.defaultCode,
+    defaultCodeString: derived.defaultCodeString,
+    codeStrings: derived.codeStrings,
+  };
+}
+
+/**
+ * Serialize assembled examples data as examples.json text
+ */
+export function formatExamplesJson(data: ExamplesData): string {
+  return JSON.stringify(data, null, 2) + '\n';
+}
+
+/**
+ * Read src/examples and return the examples.json text to write
+ * @param projectRoot - Absolute path to the project root
+ */
+export async function generateExamplesJson(projectRoot: string): Promise<string> {
+  const { index, examples } = await readExampleSources(projectRoot);
+  return formatExamplesJson(assembleExamples(index, examples));
+}
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+/**
+ * CLI entry point for import map integrity.
+ * Copies the externalImportsIntegrity hashes into the import maps of the
+ * built pages. Runs after `build`.
+ *
+ * Usage: npx tsx scripts/import-map-integrity.cli.ts
+ *
+ * Exit codes:
+ *   0 - Pages updated (or nothing to add)
+ *   1 - Error occurred (e.g. no build output)
+ */
+
+import { resolve } from 'node:path';
+import { BUILD_OUT_DIR, injectImportMapIntegrity } from './import-map-integrity.js';
+
+async function main(): Promise<void> {
+  const projectRoot = resolve(import.meta.dirname, '..');
+
+  try {
+    const updated = await injectImportMapIntegrity(projectRoot);
+    console.log(
+      `Added integrity hashes to the import maps of ${updated.length} page(s) in ${BUILD_OUT_DIR}.`,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
+
+main();
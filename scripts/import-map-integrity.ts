@@ -0,0 +1,105 @@
+/**
+ * Integrity hashes in the built pages' import maps.
+ * @constela/start writes a page's externalImports as the "imports" of its
+ * import map and has no field for hashes, so after the build the
+ * externalImportsIntegrity maps are copied into an "integrity" field of
+ * every import map in the output HTML. The browser then rejects a module
+ * whose bytes differ from its hash.
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { INTEGRITY_KEY } from './cdn-integrity.js';
+import { discoverExternalImportsTargets } from './external-imports-targets.js';
+
+/**
+ * Build output directory of `constela-start build`, relative to the
+ * project root
+ */
+export const BUILD_OUT_DIR = 'dist';
+
+const IMPORT_MAP_SCRIPT = /(<script type="importmap">\s*)([\s\S]*?)(\s*<\/script>)/g;
+
+/**
+ * Collect the integrity hashes of every externalImports target, keyed by URL
+ * @param projectRoot - Absolute path to the project root
+ */
+export async function collectIntegrity(
+  projectRoot: string,
+): Promise<Record<string, string>> {
+  const integrity: Record<string, string> = {};
+  for (const target of await discoverExternalImportsTargets(projectRoot)) {
+    const json = JSON.parse(await readFile(target.path, 'utf-8')) as {
+      [INTEGRITY_KEY]?: Record<string, string>;
+    };
+    Object.assign(integrity, json[INTEGRITY_KEY]);
+  }
+  return integrity;
+}
+
+/**
+ * Add an "integrity" field to the import maps of an HTML page.
+ * Only URLs the map imports and that have a hash are listed.
+ * @param html - Page HTML
+ * @param integrity - Hashes keyed by URL
+ * @returns Updated HTML, identical to the input when nothing was added
+ */
+export function addImportMapIntegrity(
+  html: string,
+  integrity: Record<string, string>,
+): string {
+  return html.replace(IMPORT_MAP_SCRIPT, (script, open: string, json: string, close: string) => {
+    const importMap = JSON.parse(json) as {
+      imports?: Record<string, string>;
+      integrity?: Record<string, string>;
+    };
+    const hashes = { ...importMap.integrity };
+    for (const url of Object.values(importMap.imports ?? {})) {
+      if (integrity[url]) {
+        hashes[url] = integrity[url];
+      }
+    }
+    if (Object.keys(hashes).length === 0) {
+      return script;
+    }
+    return `${open}${JSON.stringify({ ...importMap, integrity: hashes }, null, 2)}${close}`;
+  });
+}
+
+async function listHtmlFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listHtmlFiles(path)));
+    } else if (entry.name.endsWith('.html')) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Add integrity hashes to the import maps of every built page
+ * @param projectRoot - Absolute path to the project root
+ * @param outDir - Absolute build output directory
+ * @returns Updated pages, relative to outDir
+ */
+export async function injectImportMapIntegrity(
+  projectRoot: string,
+  outDir: string = join(projectRoot, BUILD_OUT_DIR),
+): Promise<string[]> {
+  const integrity = await collectIntegrity(projectRoot);
+  const updated: string[] = [];
+
+  for (const file of await listHtmlFiles(outDir)) {
+    const html = await readFile(file, 'utf-8');
+    const next = addImportMapIntegrity(html, integrity);
+    if (next !== html) {
+      await writeFile(file, next, 'utf-8');
+      updated.push(relative(outDir, file));
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,171 @@
+/**
+ * Installed version resolution for CDN version scripts.
+ * Resolves the exact version of each package the build and tests ran
+ * against, from pnpm-lock.yaml or node_modules/<pkg>/package.json,
+ * instead of the floor of the range declared in package.json.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * How the target version for a CDN URL is chosen
+ * - declared: floor of the package.json range ("^7.0.0" -> "7.0.0")
+ * - installed: exact version from pnpm-lock.yaml or node_modules
+ */
+export type VersionMode = 'declared' | 'installed';
+
+export const VERSION_MODES: readonly VersionMode[] = ['declared', 'installed'];
+
+const LOCKFILE_DEPENDENCY_SECTIONS = [
+  'dependencies',
+  'devDependencies',
+  'optionalDependencies',
+];
+
+/**
+ * Parse root importer versions from pnpm-lock.yaml content (lockfile v6+)
+ * @param content - pnpm-lock.yaml file content
+ * @returns Map of package name to exact version like { "@constela/runtime": "7.0.0" }
+ */
+export function parsePnpmLockVersions(content: string): Record<string, string> {
+  const versions: Record<string, string> = {};
+  let inImporters = false;
+  let inRootImporter = false;
+  let inDependencySection = false;
+  let currentPackage: string | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '') {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      inImporters = text === 'importers:';
+      inRootImporter = false;
+      inDependencySection = false;
+      continue;
+    }
+    if (!inImporters) {
+      continue;
+    }
+
+    if (indent === 2) {
+      inRootImporter = text === '.:';
+      inDependencySection = false;
+      continue;
+    }
+    if (!inRootImporter) {
+      continue;
+    }
+
+    if (indent === 4) {
+      inDependencySection = LOCKFILE_DEPENDENCY_SECTIONS.includes(
+        text.replace(/:$/, ''),
+      );
+      currentPackage = null;
+      continue;
+    }
+    if (!inDependencySection) {
+      continue;
+    }
+
+    if (indent === 6) {
+      const nameMatch = text.match(/^(['"]?)(.+)\1:$/);
+      currentPackage = nameMatch ? nameMatch[2] : null;
+      continue;
+    }
+
+    if (indent === 8 && currentPackage) {
+      // version: 7.0.0(@constela/ai@8.0.0) -> 7.0.0 (strip peer suffix)
+      const versionMatch = text.match(/^version:\s*['"]?(\d+\.\d+\.\d+[^('"\s]*)/);
+      if (versionMatch) {
+        versions[currentPackage] = versionMatch[1];
+      }
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * Read the version of an installed package from node_modules
+ * @param projectRoot - Absolute path to the project root
+ * @param packageName - Package name like "@constela/core"
+ * @returns version string or null if the package is not installed
+ */
+export async function readNodeModulesVersion(
+  projectRoot: string,
+  packageName: string,
+): Promise<string | null> {
+  try {
+    const content = await readFile(
+      join(projectRoot, 'node_modules', packageName, 'package.json'),
+      'utf-8',
+    );
+    const { version } = JSON.parse(content) as { version?: string };
+    return version ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve installed versions for the given packages.
+ * pnpm-lock.yaml is preferred; node_modules is used for packages the
+ * lockfile does not list (or when there is no lockfile).
+ * Packages that cannot be resolved are left out of the result.
+ * @param projectRoot - Absolute path to the project root
+ * @param packageNames - Packages to resolve
+ * @returns Map of package name to exact installed version
+ */
+export async function resolveInstalledVersions(
+  projectRoot: string,
+  packageNames: string[],
+): Promise<Record<string, string>> {
+  let lockVersions: Record<string, string> = {};
+  try {
+    const content = await readFile(join(projectRoot, 'pnpm-lock.yaml'), 'utf-8');
+    lockVersions = parsePnpmLockVersions(content);
+  } catch {
+    // No lockfile: fall back to node_modules for every package
+  }
+
+  const result: Record<string, string> = {};
+  for (const packageName of packageNames) {
+    const version =
+      lockVersions[packageName] ??
+      (await readNodeModulesVersion(projectRoot, packageName));
+    if (version) {
+      result[packageName] = version;
+    }
+  }
+  return result;
+}
+
+/**
+ * Read a --mode=<declared|installed> flag from CLI arguments
+ * @param args - CLI arguments (process.argv.slice(2))
+ * @param fallback - Mode used when no flag is given
+ * @returns Selected version mode
+ * @throws Error if the flag names an unknown mode
+ */
+export function parseVersionModeArg(
+  args: string[],
+  fallback: VersionMode,
+): VersionMode {
+  const flag = args.find((arg) => arg.startsWith('--mode='));
+  if (!flag) {
+    return fallback;
+  }
+  const mode = flag.slice('--mode='.length);
+  if (!VERSION_MODES.includes(mode as VersionMode)) {
+    throw new Error(
+      `Unknown --mode "${mode}" (expected ${VERSION_MODES.join(' or ')})`,
+    );
+  }
+  return mode as VersionMode;
+}
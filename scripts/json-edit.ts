@@ -0,0 +1,73 @@
+/**
+ * Format-preserving JSON edits.
+ * Splices new values into JSON source text at a path (located with
+ * src/lib/json-scan.ts), leaving every other byte (whitespace, key order,
+ * escapes) untouched.
+ * Used by the CDN scripts so a sync only changes the lines it must.
+ */
+
+import { findJsonValue } from '../src/lib/json-scan.js';
+
+/**
+ * Indentation of the line containing an offset
+ */
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * Serialize a value to sit at a given indentation
+ */
+function serializeAt(value: unknown, indent: string, indentUnit: string): string {
+  return JSON.stringify(value, null, indentUnit).replace(/\n/g, `\n${indent}`);
+}
+
+/**
+ * Detect the indentation unit used by a JSON document
+ * @returns The first line's indentation, or two spaces
+ */
+export function detectIndentUnit(text: string): string {
+  return text.match(/\n([ \t]+)\S/)?.[1] ?? '  ';
+}
+
+/**
+ * Replace the value at a path, keeping the rest of the text unchanged
+ * @throws Error if the path does not exist
+ */
+export function replaceJsonValue(text: string, path: string[], value: unknown): string {
+  const range = findJsonValue(text, path);
+  if (!range) {
+    throw new Error(`JSON path not found: /${path.join('/')}`);
+  }
+  const indent = lineIndent(text, 'keyStart' in range ? range.keyStart : range.start);
+  const serialized = serializeAt(value, indent, detectIndentUnit(text));
+  return text.slice(0, range.start) + serialized + text.slice(range.end);
+}
+
+/**
+ * Insert a new member into an object directly after an existing member
+ * @param text - JSON source text
+ * @param parentPath - Path of the object (empty for the root object)
+ * @param afterKey - Existing member to insert after
+ * @param key - New member key
+ * @param value - New member value
+ * @throws Error if afterKey does not exist
+ */
+export function insertJsonMemberAfter(
+  text: string,
+  parentPath: string[],
+  afterKey: string,
+  key: string,
+  value: unknown,
+): string {
+  const range = findJsonValue(text, [...parentPath, afterKey]);
+  if (!range || !('keyStart' in range)) {
+    throw new Error(`JSON path not found: /${[...parentPath, afterKey].join('/')}`);
+  }
+  const indent = lineIndent(text, range.keyStart);
+  const member =
+    `,\n${indent}${JSON.stringify(key)}: ` +
+    serializeAt(value, indent, detectIndentUnit(text));
+  return text.slice(0, range.end) + member + text.slice(range.end);
+}
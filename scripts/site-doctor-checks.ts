@@ -0,0 +1,274 @@
+/**
+ * Check registry for the site doctor.
+ * Add new consistency checks here; they run in array order.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DoctorCheck, DoctorIssue } from './site-doctor.js';
+import { INTEGRITY_KEY } from './cdn-integrity.js';
+import type { IntegrityMismatch } from './cdn-integrity.js';
+import { checkCdnTarget, loadCdnInputs, syncCdnTarget } from './cdn-targets.js';
+import type { ExternalImportsJson } from './cdn-targets.js';
+import { discoverExternalImportsTargets } from './external-imports-targets.js';
+import {
+  VENDOR_DIR,
+  buildVendoredPackages,
+  collectVendoredPackages,
+  findMissingVendorBundles,
+} from './vendor-cdn-imports.js';
+import { collectSitePaths } from './site-paths.js';
+import { checkNavigation, escapePointerSegment } from './check-navigation.js';
+import { checkExamples } from './check-examples.js';
+import type { ExamplesData } from './check-examples.js';
+import {
+  EXAMPLES_FILE,
+  EXAMPLES_SOURCE_DIR,
+  assembleExamples,
+  formatExamplesJson,
+  readExampleSources,
+} from './generate-examples.js';
+import { checkSitemap, fixSitemap } from './check-sitemap.js';
+
+const NAVIGATION_FILE = 'src/data/navigation.json';
+const SITEMAP_FILE = 'public/sitemap.xml';
+
+async function readJson<T>(projectRoot: string, file: string): Promise<T> {
+  return JSON.parse(await readFile(join(projectRoot, file), 'utf-8')) as T;
+}
+
+function integrityIssue(file: string, mismatch: IntegrityMismatch): DoctorIssue {
+  switch (mismatch.reason) {
+    case 'unpinned':
+      return {
+        file,
+        pointer: `/externalImports/${escapePointerSegment(mismatch.package)}`,
+        message: `${mismatch.package} loads a CDN-generated bundle, which no integrity hash can match`,
+      };
+    case 'unmapped':
+      return {
+        file,
+        pointer: '/externalImports',
+        message: `${mismatch.package} imports ${mismatch.unmapped?.join(', ')}, which externalImports does not map`,
+      };
+    default:
+      return {
+        file,
+        pointer: `/${INTEGRITY_KEY}/${escapePointerSegment(mismatch.url)}`,
+        message: `${mismatch.package} integrity hash is ${mismatch.reason}`,
+      };
+  }
+}
+
+/**
+ * CDN URLs match package versions and integrity hashes match the
+ * installed files. Fixed by the same sync as `pnpm sync-cdn`.
+ */
+const cdnVersionsCheck: DoctorCheck = {
+  id: 'cdn-versions',
+  title: 'CDN versions and integrity hashes',
+
+  async run(context) {
+    const inputs = await loadCdnInputs(context.projectRoot, context.args);
+    const issues: DoctorIssue[] = [];
+
+    for (const target of inputs.targets) {
+      const result = await checkCdnTarget(inputs, target);
+      for (const mismatch of result.versionMismatches) {
+        issues.push({
+          file: target.label,
+          pointer: `/externalImports/${escapePointerSegment(mismatch.package)}`,
+          message: mismatch.expectedProvider
+            ? `${mismatch.package} uses ${mismatch.actualProvider ?? 'an unknown CDN'} (expected ${mismatch.expectedProvider})`
+            : mismatch.expectedUrl
+              ? `${mismatch.package} should load ${mismatch.expectedUrl}`
+              : `${mismatch.package} is ${mismatch.playgroundVersion} on the CDN (expected ${mismatch.packageJsonVersion})`,
+        });
+      }
+      for (const mismatch of result.integrityMismatches) {
+        issues.push(integrityIssue(target.label, mismatch));
+      }
+    }
+
+    return issues;
+  },
+
+  async fix(context) {
+    const inputs = await loadCdnInputs(context.projectRoot, context.args);
+    const fixes: string[] = [];
+
+    for (const target of inputs.targets) {
+      const result = await syncCdnTarget(inputs, target);
+      if (result.nextContent === result.content) {
+        continue;
+      }
+
+      await writeFile(target.path, result.nextContent, 'utf-8');
+      for (const pkg of result.updated) {
+        fixes.push(`${target.label}: updated ${pkg}`);
+      }
+      for (const pkg of result.integrityUpdated) {
+        fixes.push(`${target.label}: updated integrity for ${pkg}`);
+      }
+    }
+
+    return fixes;
+  },
+};
+
+async function readExternalImports(
+  projectRoot: string,
+): Promise<{ label: string; externalImports: Record<string, string> }[]> {
+  const targets = await discoverExternalImportsTargets(projectRoot);
+  return Promise.all(
+    targets.map(async ({ label }) => ({
+      label,
+      externalImports: (await readJson<ExternalImportsJson>(projectRoot, label))
+        .externalImports,
+    })),
+  );
+}
+
+/**
+ * Every self-hosted /vendor/ URL has its bundle in public/vendor, which
+ * is not committed. Fixed by building the missing bundles (same as
+ * `pnpm vendor-cdn --rebuild`).
+ */
+const vendorBundlesCheck: DoctorCheck = {
+  id: 'vendor-bundles',
+  title: 'Vendor bundles',
+
+  async run(context) {
+    const issues: DoctorIssue[] = [];
+    for (const { label, externalImports } of await readExternalImports(context.projectRoot)) {
+      const missing = await findMissingVendorBundles(
+        context.projectRoot,
+        collectVendoredPackages([externalImports]),
+      );
+      for (const pkg of missing) {
+        issues.push({
+          file: label,
+          pointer: `/externalImports/${escapePointerSegment(pkg.packageName)}`,
+          message: `vendor bundle for ${pkg.packageName}@${pkg.version} is missing (run \`pnpm vendor-cdn --rebuild\`)`,
+        });
+      }
+    }
+    return issues;
+  },
+
+  async fix(context) {
+    const targets = await readExternalImports(context.projectRoot);
+    const vendored = collectVendoredPackages(
+      targets.map((target) => target.externalImports),
+    );
+    const missing = await findMissingVendorBundles(context.projectRoot, vendored);
+    await buildVendoredPackages(
+      context.projectRoot,
+      missing,
+      vendored.map((pkg) => pkg.packageName),
+    );
+    return missing.map((pkg) => `${VENDOR_DIR}/${pkg.packageName}@${pkg.version}: built`);
+  },
+};
+
+/**
+ * Every internal navigation link points at a built page
+ */
+const navigationCheck: DoctorCheck = {
+  id: 'navigation',
+  title: 'Navigation links',
+
+  async run(context) {
+    return checkNavigation(
+      await readJson(context.projectRoot, NAVIGATION_FILE),
+      await collectSitePaths(context.projectRoot),
+      NAVIGATION_FILE,
+    );
+  },
+};
+
+/**
+ * examples.json is the aggregator output for src/examples, and its
+ * derived fields agree with the example programs. Fixed by
+ * regenerating it (same as `pnpm generate-examples`).
+ */
+const examplesCheck: DoctorCheck = {
+  id: 'examples',
+  title: 'Examples data',
+
+  async run(context) {
+    const { index, examples, unlisted } = await readExampleSources(context.projectRoot);
+    const issues: DoctorIssue[] = unlisted.map((slug) => ({
+      file: `${EXAMPLES_SOURCE_DIR}/index.json`,
+      pointer: '/order',
+      message: `Example directory "${slug}" is not listed`,
+    }));
+
+    const nextContent = formatExamplesJson(assembleExamples(index, examples));
+    const content = await readFile(join(context.projectRoot, EXAMPLES_FILE), 'utf-8').catch(
+      () => '',
+    );
+    if (content !== nextContent) {
+      issues.push({
+        file: EXAMPLES_FILE,
+        message: `Out of date with ${EXAMPLES_SOURCE_DIR}`,
+      });
+    } else {
+      issues.push(...checkExamples(JSON.parse(content) as ExamplesData, EXAMPLES_FILE));
+    }
+    return issues;
+  },
+
+  async fix(context) {
+    const { index, examples } = await readExampleSources(context.projectRoot);
+    const path = join(context.projectRoot, EXAMPLES_FILE);
+    const content = await readFile(path, 'utf-8').catch(() => '');
+    const nextContent = formatExamplesJson(assembleExamples(index, examples));
+    if (nextContent === content) {
+      return [];
+    }
+    await writeFile(path, nextContent, 'utf-8');
+    return [`${EXAMPLES_FILE}: regenerated from ${EXAMPLES_SOURCE_DIR}`];
+  },
+};
+
+/**
+ * sitemap.xml lists exactly the built pages
+ */
+const sitemapCheck: DoctorCheck = {
+  id: 'sitemap',
+  title: 'Sitemap entries',
+
+  async run(context) {
+    return checkSitemap(
+      await readFile(join(context.projectRoot, SITEMAP_FILE), 'utf-8'),
+      await collectSitePaths(context.projectRoot),
+      SITEMAP_FILE,
+    );
+  },
+
+  async fix(context) {
+    const path = join(context.projectRoot, SITEMAP_FILE);
+    const content = await readFile(path, 'utf-8');
+    const nextContent = fixSitemap(
+      content,
+      await collectSitePaths(context.projectRoot),
+    );
+    if (nextContent === content) {
+      return [];
+    }
+    await writeFile(path, nextContent, 'utf-8');
+    return [`${SITEMAP_FILE}: rewrote entries`];
+  },
+};
+
+/**
+ * All registered checks, in run order
+ */
+export const SITE_DOCTOR_CHECKS: DoctorCheck[] = [
+  cdnVersionsCheck,
+  vendorBundlesCheck,
+  navigationCheck,
+  examplesCheck,
+  sitemapCheck,
+];
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/**
+ * CLI entry point for the site doctor.
+ * Runs every consistency check in SITE_DOCTOR_CHECKS (CDN versions,
+ * vendor bundles, navigation, examples, sitemap) and reports the
+ * problems found.
+ * Used as the prebuild gate.
+ *
+ * Usage: npx tsx scripts/site-doctor.cli.ts [--only=<ids>] [--skip=<ids>] [--fix] [--json] [--mode=declared|installed]
+ *
+ * --only / --skip take comma-separated check ids, e.g. --only=cdn-versions,sitemap.
+ * --fix runs the fixer of each failing check (e.g. the CDN sync) and
+ * checks again.
+ * --json prints a DoctorReport to stdout instead of the human-readable log.
+ * --mode is passed to the cdn-versions check.
+ *
+ * Exit codes:
+ *   0 - All checks passed (or were fixed)
+ *   1 - Problems remain or an error occurred
+ */
+
+import { resolve } from 'node:path';
+import { parseDoctorArgs, runSiteDoctor } from './site-doctor.js';
+import { SITE_DOCTOR_CHECKS } from './site-doctor-checks.js';
+
+const STATUS_MARKS = { pass: '✓', fixed: '✓', fail: '✗' } as const;
+
+async function main(): Promise<void> {
+  const projectRoot = resolve(import.meta.dirname, '..');
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+
+  try {
+    const options = parseDoctorArgs(args);
+    const report = await runSiteDoctor(
+      SITE_DOCTOR_CHECKS,
+      { projectRoot, args },
+      options,
+    );
+
+    if (asJson) {
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(report.success ? 0 : 1);
+    }
+
+    console.log(`Running ${report.checks.length} site check(s):`);
+    for (const check of report.checks) {
+      const suffix =
+        check.status === 'fixed'
+          ? ' (fixed)'
+          : check.status === 'fail' && !check.error
+            ? ` (${check.issues.length} problem(s))`
+            : '';
+      console.log(`  ${STATUS_MARKS[check.status]} ${check.id}: ${check.title}${suffix}`);
+      for (const fix of check.fixes) {
+        console.log(`      fixed ${fix}`);
+      }
+      if (check.error) {
+        console.log(`      error: ${check.error}`);
+      }
+      for (const issue of check.issues) {
+        const location = issue.pointer ? `${issue.file}#${issue.pointer}` : issue.file;
+        console.log(`      ${location}: ${issue.message}`);
+      }
+    }
+
+    console.log('');
+    if (report.success) {
+      console.log('All site checks passed.');
+      process.exit(0);
+    }
+
+    const fixable = report.checks
+      .filter((check) => check.status === 'fail')
+      .filter((check) => SITE_DOCTOR_CHECKS.find(({ id }) => id === check.id)?.fix)
+      .map((check) => check.id);
+    if (!options.fix && fixable.length > 0) {
+      console.error(
+        `Run \`pnpm doctor --fix --only=${fixable.join(',')}\` to fix.`,
+      );
+    } else {
+      console.error('Site checks failed.');
+    }
+    process.exit(1);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
+
+main();
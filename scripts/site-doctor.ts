@@ -0,0 +1,180 @@
+/**
+ * Site doctor: runs a registry of consistency checks over the site
+ * sources (CDN versions, navigation, examples, sitemap, ...) and,
+ * with --fix, the fixer registered for each failing check.
+ */
+
+/**
+ * One problem found by a check
+ */
+export interface DoctorIssue {
+  /** Path relative to the project root */
+  file: string;
+  /** Human-readable description */
+  message: string;
+  /** JSON pointer (or other location) inside the file */
+  pointer?: string;
+}
+
+/**
+ * Shared inputs for checks
+ */
+export interface DoctorContext {
+  /** Absolute path to the project root */
+  projectRoot: string;
+  /** CLI arguments, for checks with their own flags (e.g. --mode) */
+  args: string[];
+}
+
+/**
+ * A registered consistency check
+ */
+export interface DoctorCheck {
+  /** Stable id used by --only / --skip, e.g. "cdn-versions" */
+  id: string;
+  /** Short description shown in the report */
+  title: string;
+  /** Find problems; an empty list means the check passed */
+  run(context: DoctorContext): Promise<DoctorIssue[]>;
+  /**
+   * Fix the problems found by run
+   * @returns Human-readable descriptions of the changes made
+   */
+  fix?(context: DoctorContext): Promise<string[]>;
+}
+
+/**
+ * Outcome of one check
+ * - pass: no issues
+ * - fail: issues remain
+ * - fixed: issues were found and --fix resolved them
+ */
+export type DoctorStatus = 'pass' | 'fail' | 'fixed';
+
+/**
+ * Result for one check, as printed by --json
+ */
+export interface DoctorCheckResult {
+  id: string;
+  title: string;
+  status: DoctorStatus;
+  /** Issues remaining after any fix */
+  issues: DoctorIssue[];
+  /** Changes made by the fixer (--fix only) */
+  fixes: string[];
+  /** Error message if the check itself failed to run */
+  error?: string;
+}
+
+/**
+ * Result for a whole run, as printed by --json
+ */
+export interface DoctorReport {
+  success: boolean;
+  fix: boolean;
+  checks: DoctorCheckResult[];
+}
+
+/**
+ * Options parsed from CLI arguments
+ */
+export interface DoctorOptions {
+  /** Run only these check ids */
+  only?: string[];
+  /** Skip these check ids */
+  skip?: string[];
+  /** Run fixers for failing checks */
+  fix?: boolean;
+}
+
+function parseListFlag(args: string[], name: string): string[] | undefined {
+  const flag = args.find((arg) => arg.startsWith(`--${name}=`));
+  if (!flag) {
+    return undefined;
+  }
+  return flag
+    .slice(name.length + 3)
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read --only=<ids>, --skip=<ids> and --fix from CLI arguments
+ * @param args - CLI arguments (process.argv.slice(2))
+ */
+export function parseDoctorArgs(args: string[]): DoctorOptions {
+  return {
+    only: parseListFlag(args, 'only'),
+    skip: parseListFlag(args, 'skip'),
+    fix: args.includes('--fix'),
+  };
+}
+
+/**
+ * Select the checks to run
+ * @throws Error if --only or --skip names an unknown check
+ */
+export function selectChecks(
+  checks: DoctorCheck[],
+  options: DoctorOptions,
+): DoctorCheck[] {
+  const ids = checks.map((check) => check.id);
+  for (const id of [...(options.only ?? []), ...(options.skip ?? [])]) {
+    if (!ids.includes(id)) {
+      throw new Error(`Unknown check "${id}" (expected ${ids.join(', ')})`);
+    }
+  }
+
+  return checks.filter(
+    (check) =>
+      (!options.only || options.only.includes(check.id)) &&
+      !options.skip?.includes(check.id),
+  );
+}
+
+/**
+ * Run checks in registry order.
+ * With options.fix, a failing check with a fixer is fixed and re-run;
+ * it counts as fixed only if the re-run finds no issues.
+ * A check that throws is reported as failed with its error message.
+ */
+export async function runSiteDoctor(
+  checks: DoctorCheck[],
+  context: DoctorContext,
+  options: DoctorOptions = {},
+): Promise<DoctorReport> {
+  const results: DoctorCheckResult[] = [];
+
+  for (const check of selectChecks(checks, options)) {
+    const result: DoctorCheckResult = {
+      id: check.id,
+      title: check.title,
+      status: 'pass',
+      issues: [],
+      fixes: [],
+    };
+
+    try {
+      result.issues = await check.run(context);
+      if (result.issues.length > 0 && options.fix && check.fix) {
+        result.fixes = await check.fix(context);
+        result.issues = await check.run(context);
+        result.status = result.issues.length === 0 ? 'fixed' : 'fail';
+      } else if (result.issues.length > 0) {
+        result.status = 'fail';
+      }
+    } catch (error) {
+      result.status = 'fail';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    results.push(result);
+  }
+
+  return {
+    success: results.every((result) => result.status !== 'fail'),
+    fix: options.fix ?? false,
+    checks: results,
+  };
+}
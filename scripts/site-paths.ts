@@ -0,0 +1,105 @@
+/**
+ * Site path discovery for consistency checks.
+ * Lists every URL path the site builds: static route files, MDX pages
+ * behind the docs and reference catch-all routes, and the data-driven
+ * examples and UI component pages.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+
+/**
+ * Dynamic routes whose paths come from MDX files in a content directory
+ */
+export const CONTENT_ROUTES: { prefix: string; dir: string }[] = [
+  { prefix: '/docs', dir: 'src/content/docs' },
+  { prefix: '/reference', dir: 'src/content/reference' },
+];
+
+/**
+ * Dynamic routes whose paths come from slugs in a data file
+ */
+export const DATA_ROUTES: { prefix: string; file: string; key: string }[] = [
+  { prefix: '/examples', file: 'src/data/examples.json', key: 'examples' },
+  { prefix: '/ui', file: 'src/data/ui-components.json', key: 'components' },
+];
+
+const ROUTES_DIR = 'src/routes';
+
+async function listFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Convert a file path relative to its root into a URL path
+ * @param prefix - URL prefix, e.g. "/docs" ("" for the site root)
+ * @param relativePath - Path like "core/index.mdx" or "playground.json"
+ * @returns URL path like "/docs/core" or "/playground"
+ */
+export function fileToSitePath(prefix: string, relativePath: string): string {
+  const segments = relativePath
+    .split(sep)
+    .join('/')
+    .replace(/\.[^/.]+$/, '')
+    .split('/');
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+  const path = [prefix, ...segments].filter(Boolean).join('/');
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Collect every URL path the site builds
+ * @param projectRoot - Absolute path to the project root
+ * @returns Sorted, de-duplicated URL paths like ["/", "/docs", ...]
+ */
+export async function collectSitePaths(projectRoot: string): Promise<string[]> {
+  const paths = new Set<string>();
+
+  const routesDir = join(projectRoot, ROUTES_DIR);
+  for (const file of await listFiles(routesDir)) {
+    const relativePath = relative(routesDir, file);
+    // Dynamic route files ([slug].json, [...slug].json) are listed below
+    if (!file.endsWith('.json') || relativePath.includes('[')) {
+      continue;
+    }
+    paths.add(fileToSitePath('', relativePath));
+  }
+
+  for (const { prefix, dir } of CONTENT_ROUTES) {
+    const contentDir = join(projectRoot, dir);
+    for (const file of await listFiles(contentDir)) {
+      if (file.endsWith('.mdx')) {
+        paths.add(fileToSitePath(prefix, relative(contentDir, file)));
+      }
+    }
+  }
+
+  for (const { prefix, file, key } of DATA_ROUTES) {
+    const data = JSON.parse(
+      await readFile(join(projectRoot, file), 'utf-8'),
+    ) as Record<string, { slug: string }[]>;
+    for (const item of data[key] ?? []) {
+      paths.add(`${prefix}/${item.slug}`);
+    }
+  }
+
+  return [...paths].sort();
+}
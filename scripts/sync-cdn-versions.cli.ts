@@ -1,79 +1,129 @@
 #!/usr/bin/env node
 /**
  * CLI entry point for CDN version sync script.
- * Syncs playground.json and ui/[slug].json CDN versions to match package.json.
+ * Syncs the CDN versions in every JSON file with externalImports
+ * (routes, layouts, components, data) to match package.json for the
+ * packages listed in CDN_PACKAGE_ALLOWLIST.
  *
- * Usage: npx tsx scripts/sync-cdn-versions.cli.ts
+ * Usage: npx tsx scripts/sync-cdn-versions.cli.ts [--mode=declared|installed] [--dry-run] [--json]
+ *
+ * --dry-run prints a unified diff per file instead of writing it.
+ * --json prints a SyncReport (updated/skipped per target) to stdout
+ * instead of the human-readable log.
+ * --mode=installed (default) pins the exact versions from pnpm-lock.yaml or
+ * node_modules; --mode=declared pins the floor of each package.json range.
+ * Subresource Integrity hashes are written to the externalImportsIntegrity
+ * sidecar map for every URL that serves an installed package's entry file.
+ * Files are edited in place: only changed URL and integrity values are
+ * rewritten, so formatting elsewhere in the file is preserved.
+ * Self-hosted /vendor/ URLs that move to a new version get their bundle
+ * rebuilt from node_modules.
  *
  * Exit codes:
  *   0 - Sync completed (or already in sync)
  *   1 - Error occurred
  */
 
-import { readFile, writeFile } from 'node:fs/promises';
+import { writeFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
-import { syncCdnVersions } from './sync-cdn-versions.js';
-
-interface JsonFileWithExternalImports {
-  externalImports: Record<string, string>;
-  [key: string]: unknown;
-}
-
-interface SyncTarget {
-  label: string;
-  path: string;
-}
+import { formatSyncSummary } from './sync-cdn-versions.js';
+import type { SyncReport } from './sync-cdn-versions.js';
+import { createUnifiedDiff } from './unified-diff.js';
+import { loadCdnInputs, syncCdnTarget } from './cdn-targets.js';
+import type { ExternalImportsJson } from './cdn-targets.js';
+import {
+  VENDOR_DIR,
+  buildVendoredPackages,
+  collectVendoredPackages,
+} from './vendor-cdn-imports.js';
 
 async function main(): Promise<void> {
   const projectRoot = resolve(import.meta.dirname, '..');
-  const packageJsonPath = resolve(projectRoot, 'package.json');
 
-  const targets: SyncTarget[] = [
-    {
-      label: 'playground.json',
-      path: resolve(projectRoot, 'src/routes/playground.json'),
-    },
-    {
-      label: 'ui/[slug].json',
-      path: resolve(projectRoot, 'src/routes/ui/[slug].json'),
-    },
-  ];
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const asJson = args.includes('--json');
+  // Keep stdout clean for the JSON report
+  const log = asJson ? () => {} : console.log;
 
   try {
-    const packageJsonContent = await readFile(packageJsonPath, 'utf-8');
-    const packageJson = JSON.parse(packageJsonContent) as {
-      dependencies: Record<string, string>;
-    };
+    const inputs = await loadCdnInputs(projectRoot, args);
+    const { mode, targets } = inputs;
+    for (const name of inputs.notInstalled) {
+      console.warn(
+        `Warning: ${name} is not installed; using the package.json range floor.`,
+      );
+    }
 
-    let totalUpdated = 0;
+    const report: SyncReport = { dryRun, mode, targets: [], totalUpdated: 0 };
+    const syncedImports: Record<string, string>[] = [];
+    const bumpedImports: Record<string, string>[] = [];
 
-    for (const target of targets) {
-      const content = await readFile(target.path, 'utf-8');
-      const json = JSON.parse(content) as JsonFileWithExternalImports;
+    log(
+      `${dryRun ? 'Dry run: syncing' : 'Syncing'} ${targets.length} file(s) with externalImports (${mode} versions):`,
+    );
 
-      const { externalImports, updated } = syncCdnVersions(
-        packageJson,
-        json.externalImports,
+    for (const target of targets) {
+      const { content, nextContent, updated, skipped, integrityUpdated } =
+        await syncCdnTarget(inputs, target);
+      const changed = nextContent !== content;
+      const { externalImports } = JSON.parse(nextContent) as ExternalImportsJson;
+      syncedImports.push(externalImports);
+      bumpedImports.push(
+        Object.fromEntries(updated.map((pkg) => [pkg, externalImports[pkg]!])),
       );
 
-      if (updated.length > 0) {
-        json.externalImports = externalImports;
-        await writeFile(
-          target.path,
-          JSON.stringify(json, null, 2) + '\n',
-          'utf-8',
-        );
-        for (const pkg of updated) {
-          console.log(`  Updated ${pkg} in ${target.label}`);
-        }
-        totalUpdated += updated.length;
+      const targetReport = {
+        file: target.label,
+        updated,
+        skipped,
+        integrityUpdated,
+        ...(dryRun && changed
+          ? { diff: createUnifiedDiff(target.label, content, nextContent) }
+          : {}),
+      };
+      report.targets.push(targetReport);
+      report.totalUpdated += updated.length + integrityUpdated.length;
+
+      if (!changed) {
+        log(`  ${target.label}: already in sync`);
+        continue;
       }
+
+      if (!dryRun) {
+        await writeFile(target.path, nextContent, 'utf-8');
+      }
+      log(`  ${target.label}:`);
+      for (const pkg of updated) {
+        log(`    Updated ${pkg}`);
+      }
+      for (const pkg of integrityUpdated) {
+        log(`    Updated integrity for ${pkg}`);
+      }
+      if (skipped.length > 0) {
+        log(`    Skipped ${skipped.join(', ')}`);
+      }
+      if (targetReport.diff) {
+        log('');
+        log(targetReport.diff);
+        log('');
+      }
+    }
+
+    const rebuilt = collectVendoredPackages(bumpedImports);
+    if (!dryRun && rebuilt.length > 0) {
+      await buildVendoredPackages(
+        projectRoot,
+        rebuilt,
+        collectVendoredPackages(syncedImports).map((pkg) => pkg.packageName),
+      );
+      log(`\nRebuilt ${rebuilt.length} vendor bundle(s) in ${VENDOR_DIR}.`);
     }
 
-    if (totalUpdated === 0) {
-      console.log('All CDN versions already in sync.');
+    if (asJson) {
+      console.log(JSON.stringify(report, null, 2));
     } else {
-      console.log(`\nSynced ${totalUpdated} CDN URL(s).`);
+      log(`\n${formatSyncSummary(report)}`);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -1,31 +1,65 @@
 /**
  * CDN version sync script that updates externalImports CDN URLs
- * to match package.json versions for @constela packages.
+ * to match package.json versions for an allowlist of packages
+ * (@constela packages by default).
  */
 
 import {
+  DEFAULT_PACKAGE_ALLOWLIST,
+  collectPackageVersions,
   extractVersionFromCdnUrl,
-  parsePackageJsonVersion,
+  isPackageAllowed,
+  resolveTargetVersion,
 } from './check-playground-versions.js';
+import type {
+  CdnPackageOptions,
+  PackageJsonDependencies,
+} from './check-playground-versions.js';
+import {
+  DEFAULT_CDN_PROVIDER,
+  getCdnProvider,
+  isVendorUrl,
+} from './cdn-providers.js';
+import type { CdnProviderName } from './cdn-providers.js';
+import { INTEGRITY_KEY } from './cdn-integrity.js';
+import type { VersionMode } from './installed-versions.js';
+import { insertJsonMemberAfter, replaceJsonValue } from './json-edit.js';
 
 /**
- * Build a jsdelivr CDN URL for a package
+ * Build a CDN URL for a package
  * @param packageName - Package name (e.g. "@constela/core" or "monaco-editor")
  * @param version - Version string (e.g. "0.19.0")
- * @returns CDN URL like "https://cdn.jsdelivr.net/npm/@constela/core@0.19.0/+esm"
+ * @param options - provider (jsdelivr by default) and ESM entry file
+ * @returns CDN URL like "https://cdn.jsdelivr.net/npm/@constela/core@0.19.0/dist/index.js",
+ *   or ".../+esm" without a file
  */
-export function buildCdnUrl(packageName: string, version: string): string {
-  return `https://cdn.jsdelivr.net/npm/${packageName}@${version}/+esm`;
+export function buildCdnUrl(
+  packageName: string,
+  version: string,
+  options: { provider?: CdnProviderName; file?: string } = {},
+): string {
+  return getCdnProvider(options.provider ?? DEFAULT_CDN_PROVIDER).buildUrl(
+    packageName,
+    version,
+    options.file,
+  );
 }
 
 /**
  * Sync externalImports CDN versions to match package.json versions.
- * Only updates @constela packages that exist in both externalImports and package.json.
+ * Only updates allowlisted packages (@constela packages by default) that exist
+ * in both externalImports and package.json dependencies or devDependencies.
+ * When options.provider is set, URLs that differ from the one the
+ * provider builds (another provider, or a generated bundle instead of
+ * the pinned entry file) are rewritten even if their version already
+ * matches. Self-hosted vendor URLs keep pointing at /vendor/ with the
+ * new version.
  * Does not mutate the original externalImports object.
  */
 export function syncCdnVersions(
-  packageJson: { dependencies: Record<string, string> },
+  packageJson: PackageJsonDependencies,
   externalImports: Record<string, string>,
+  options: CdnPackageOptions = {},
 ): {
   externalImports: Record<string, string>;
   updated: string[];
@@ -34,26 +68,37 @@ export function syncCdnVersions(
   const result: Record<string, string> = {};
   const updated: string[] = [];
   const skipped: string[] = [];
+  const allowlist = options.allowlist ?? DEFAULT_PACKAGE_ALLOWLIST;
+  const versions = collectPackageVersions(packageJson);
 
   for (const [packageName, cdnUrl] of Object.entries(externalImports)) {
-    if (!packageName.startsWith('@constela/')) {
+    if (!isPackageAllowed(packageName, allowlist)) {
       skipped.push(packageName);
       result[packageName] = cdnUrl;
       continue;
     }
 
-    const depVersion = packageJson.dependencies[packageName];
+    const depVersion = versions[packageName];
     if (!depVersion) {
       skipped.push(packageName);
       result[packageName] = cdnUrl;
       continue;
     }
 
-    const targetVersion = parsePackageJsonVersion(depVersion);
+    const targetVersion = resolveTargetVersion(packageName, depVersion, options);
     const currentVersion = extractVersionFromCdnUrl(cdnUrl);
 
-    if (currentVersion !== targetVersion) {
-      result[packageName] = buildCdnUrl(packageName, targetVersion);
+    // Vendored URLs stay vendored; vendor-cdn-imports switches them back
+    const vendored = isVendorUrl(cdnUrl);
+    const expectedUrl = buildCdnUrl(packageName, targetVersion, {
+      provider: vendored ? 'vendor' : options.provider,
+      file: options.entryFiles?.[packageName],
+    });
+    const urlMismatch =
+      options.provider !== undefined && !vendored && cdnUrl !== expectedUrl;
+
+    if (currentVersion !== targetVersion || urlMismatch) {
+      result[packageName] = expectedUrl;
       updated.push(packageName);
     } else {
       result[packageName] = cdnUrl;
@@ -62,3 +107,100 @@ export function syncCdnVersions(
 
   return { externalImports: result, updated, skipped };
 }
+
+/**
+ * Write synced externalImports and integrity map back into JSON source text.
+ * Only the URL string literals that changed are replaced, and the
+ * externalImportsIntegrity map is rewritten (or inserted directly after
+ * externalImports) only when its entries changed. All other bytes of the
+ * file are kept, so a sync with nothing to do leaves the file identical.
+ * @param content - Original JSON file content
+ * @param externalImports - Synced externalImports map
+ * @param integrity - Synced integrity sidecar map
+ * @returns Updated file content
+ */
+export function rewriteExternalImportsSource(
+  content: string,
+  externalImports: Record<string, string>,
+  integrity: Record<string, string>,
+): string {
+  const json = JSON.parse(content) as {
+    externalImports?: Record<string, string>;
+    externalImportsIntegrity?: Record<string, string>;
+  };
+  let result = content;
+
+  for (const [packageName, url] of Object.entries(externalImports)) {
+    if (json.externalImports?.[packageName] !== url) {
+      result = replaceJsonValue(result, ['externalImports', packageName], url);
+    }
+  }
+
+  const stored = json[INTEGRITY_KEY];
+  if (stored === undefined) {
+    if (Object.keys(integrity).length > 0) {
+      result = insertJsonMemberAfter(
+        result,
+        [],
+        'externalImports',
+        INTEGRITY_KEY,
+        integrity,
+      );
+    }
+  } else if (JSON.stringify(stored) !== JSON.stringify(integrity)) {
+    result = replaceJsonValue(result, [INTEGRITY_KEY], integrity);
+  }
+
+  return result;
+}
+
+/**
+ * Sync result for one target file, as printed by --json
+ */
+export interface SyncTargetReport {
+  /** Path relative to the project root */
+  file: string;
+  /** Packages whose CDN URL was (or would be) rewritten */
+  updated: string[];
+  /** Packages left as-is (not allowlisted or not in package.json) */
+  skipped: string[];
+  /** Packages whose integrity hash was (or would be) rewritten */
+  integrityUpdated: string[];
+  /** Unified diff of the file change (dry run only) */
+  diff?: string;
+}
+
+/**
+ * Sync result for all target files, as printed by --json
+ */
+export interface SyncReport {
+  dryRun: boolean;
+  mode: VersionMode;
+  targets: SyncTargetReport[];
+  /** CDN URLs plus integrity hashes that were (or would be) rewritten */
+  totalUpdated: number;
+}
+
+/**
+ * One-line summary of a sync, counting URL and integrity updates
+ * @returns e.g. "Synced 1 CDN URL(s) and 2 integrity hash(es)."
+ */
+export function formatSyncSummary(report: SyncReport): string {
+  const count = (key: 'updated' | 'integrityUpdated') =>
+    report.targets.reduce((total, target) => total + target[key].length, 0);
+  const urls = count('updated');
+  const hashes = count('integrityUpdated');
+  if (urls + hashes === 0) {
+    return 'All CDN versions and integrity hashes already in sync.';
+  }
+
+  const counts = [
+    urls > 0 ? `${urls} CDN URL(s)` : null,
+    hashes > 0 ? `${hashes} integrity hash(es)` : null,
+  ]
+    .filter(Boolean)
+    .join(' and ');
+  return report.dryRun
+    ? `Would sync ${counts}. No files were written.`
+    : `Synced ${counts}.`;
+}
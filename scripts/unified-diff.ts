@@ -0,0 +1,92 @@
+/**
+ * Minimal unified diff for script dry runs.
+ * Produces a single hunk covering the changed region of two texts, which
+ * is enough for the small, localized edits the CDN scripts make.
+ */
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param label - File path shown in the ---/+++ headers
+ * @param before - Original content
+ * @param after - New content
+ * @param context - Unchanged lines shown around the change
+ * @returns Unified diff text, or an empty string when the contents are equal
+ */
+export function createUnifiedDiff(
+  label: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Trim the common prefix and suffix so only the changed region is compared
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const changedA = a.slice(prefix, a.length - suffix);
+  const changedB = b.slice(prefix, b.length - suffix);
+
+  // Longest common subsequence table for the changed region
+  const lcs: number[][] = Array.from({ length: changedA.length + 1 }, () =>
+    new Array<number>(changedB.length + 1).fill(0),
+  );
+  for (let i = changedA.length - 1; i >= 0; i--) {
+    for (let j = changedB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        changedA[i] === changedB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const body: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < changedA.length || j < changedB.length) {
+    if (i < changedA.length && j < changedB.length && changedA[i] === changedB[j]) {
+      body.push(` ${changedA[i]}`);
+      i++;
+      j++;
+    } else if (
+      i < changedA.length &&
+      (j >= changedB.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      body.push(`-${changedA[i]}`);
+      i++;
+    } else {
+      body.push(`+${changedB[j]}`);
+      j++;
+    }
+  }
+
+  const leading = a.slice(Math.max(0, prefix - context), prefix);
+  const trailing = a.slice(a.length - suffix, a.length - suffix + context);
+  const start = prefix - leading.length;
+  const lengthA = leading.length + changedA.length + trailing.length;
+  const lengthB = leading.length + changedB.length + trailing.length;
+
+  return [
+    `--- a/${label}`,
+    `+++ b/${label}`,
+    `@@ -${start + 1},${lengthA} +${start + 1},${lengthB} @@`,
+    ...leading.map((line) => ` ${line}`),
+    ...body,
+    ...trailing.map((line) => ` ${line}`),
+  ].join('\n');
+}
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+/**
+ * CLI entry point for vendor bundle script.
+ * Bundles every allowlisted package used in externalImports from
+ * node_modules into public/vendor/<pkg>@<version>/ and points
+ * externalImports at the bundles, or switches them back to the CDN.
+ *
+ * Usage: npx tsx scripts/vendor-cdn-imports.cli.ts [--cdn | --rebuild]
+ *
+ *   (default) Bundle packages and rewrite externalImports to /vendor/ URLs
+ *   --cdn     Rewrite /vendor/ URLs back to the configured CDN provider
+ *   --rebuild Build the bundles the /vendor/ URLs point at without
+ *             rewriting anything (runs before `build`; public/vendor is
+ *             not committed)
+ *
+ * `pnpm sync-cdn` rebuilds the bundles of the vendored URLs it bumps.
+ *
+ * Exit codes:
+ *   0 - Completed
+ *   1 - Error occurred
+ */
+
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { readNodeModulesVersion } from './installed-versions.js';
+import { INTEGRITY_KEY, syncIntegrity } from './cdn-integrity.js';
+import { DEFAULT_CDN_PROVIDER } from './cdn-providers.js';
+import {
+  VENDOR_DIR,
+  buildVendoredPackages,
+  bundleVendorPackage,
+  collectVendoredPackages,
+  rewriteToCdn,
+  rewriteToVendor,
+} from './vendor-cdn-imports.js';
+import { rewriteExternalImportsSource } from './sync-cdn-versions.js';
+import { loadCdnInputs } from './cdn-targets.js';
+import type { ExternalImportsJson } from './cdn-targets.js';
+import { CDN_INTEGRITY_ALLOWLIST, getTargetProvider } from './cdn-config.js';
+
+async function main(): Promise<void> {
+  const projectRoot = resolve(import.meta.dirname, '..');
+  const args = process.argv.slice(2);
+  const toCdn = args.includes('--cdn');
+
+  try {
+    const { packageNames, packageIntegrities, entryFiles, targets } =
+      await loadCdnInputs(projectRoot, []);
+
+    if (args.includes('--rebuild')) {
+      const maps: Record<string, string>[] = [];
+      for (const target of targets) {
+        const json = JSON.parse(
+          await readFile(target.path, 'utf-8'),
+        ) as ExternalImportsJson;
+        maps.push(json.externalImports);
+      }
+      const packages = collectVendoredPackages(maps);
+      await rm(resolve(projectRoot, VENDOR_DIR), { recursive: true, force: true });
+      await buildVendoredPackages(projectRoot, packages);
+      console.log(`Rebuilt ${packages.length} vendor bundle(s) in ${VENDOR_DIR}.`);
+      for (const { packageName, version } of packages) {
+        console.log(`  ${packageName}@${version}`);
+      }
+      return;
+    }
+
+    const vendoredVersions: Record<string, string> = {};
+    if (!toCdn) {
+      const usedPackages = new Set<string>();
+      for (const target of targets) {
+        const json = JSON.parse(
+          await readFile(target.path, 'utf-8'),
+        ) as ExternalImportsJson;
+        for (const name of Object.keys(json.externalImports)) {
+          if (packageNames.includes(name)) {
+            usedPackages.add(name);
+          }
+        }
+      }
+
+      for (const name of usedPackages) {
+        const version = await readNodeModulesVersion(projectRoot, name);
+        if (version) {
+          vendoredVersions[name] = version;
+        } else {
+          console.warn(`Warning: ${name} is not installed; keeping its CDN URL.`);
+        }
+      }
+
+      await rm(resolve(projectRoot, VENDOR_DIR), { recursive: true, force: true });
+      console.log(`Bundling ${Object.keys(vendoredVersions).length} package(s) into ${VENDOR_DIR}:`);
+      for (const [name, version] of Object.entries(vendoredVersions)) {
+        await bundleVendorPackage(
+          projectRoot,
+          name,
+          version,
+          Object.keys(vendoredVersions),
+        );
+        console.log(`  ${name}@${version}`);
+      }
+      console.log('');
+    }
+
+    let totalUpdated = 0;
+
+    for (const target of targets) {
+      const content = await readFile(target.path, 'utf-8');
+      const json = JSON.parse(content) as ExternalImportsJson;
+
+      const configured = getTargetProvider(target.label);
+      const { externalImports, updated } = toCdn
+        ? rewriteToCdn(
+            json.externalImports,
+            configured === 'vendor' ? DEFAULT_CDN_PROVIDER : configured,
+            entryFiles,
+          )
+        : rewriteToVendor(json.externalImports, vendoredVersions);
+
+      if (updated.length === 0) {
+        console.log(`  ${target.label}: unchanged`);
+        continue;
+      }
+
+      const { integrity } = syncIntegrity(
+        externalImports,
+        json[INTEGRITY_KEY] ?? {},
+        packageIntegrities,
+        { allowlist: CDN_INTEGRITY_ALLOWLIST },
+      );
+      await writeFile(
+        target.path,
+        rewriteExternalImportsSource(content, externalImports, integrity),
+        'utf-8',
+      );
+
+      console.log(`  ${target.label}:`);
+      for (const pkg of updated) {
+        console.log(`    ${pkg} -> ${externalImports[pkg]}`);
+      }
+      totalUpdated += updated.length;
+    }
+
+    console.log(
+      `\n${toCdn ? 'Switched' : 'Vendored'} ${totalUpdated} externalImports URL(s)${toCdn ? ' back to the CDN' : ''}.`,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,237 @@
+/**
+ * Self-hosted vendor bundles for externalImports.
+ * Bundles the ESM entry point of each package from node_modules into
+ * public/vendor/<pkg>@<version>/index.js so the playground and UI pages
+ * work offline and without a third-party CDN, and rewrites externalImports
+ * between vendor URLs and CDN URLs.
+ */
+
+import { build } from 'esbuild';
+import { access, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { resolvePackageEntry } from './cdn-integrity.js';
+import {
+  CDN_PROVIDERS,
+  isVendorUrl,
+  parseCdnUrl,
+} from './cdn-providers.js';
+import type { CdnProviderName } from './cdn-providers.js';
+import { buildCdnUrl } from './sync-cdn-versions.js';
+import { readNodeModulesVersion } from './installed-versions.js';
+
+/**
+ * Output directory for vendor bundles, relative to the project root
+ */
+export const VENDOR_DIR = 'public/vendor';
+
+/**
+ * Prepended to a bundle whose package imports CSS, so the extracted
+ * index.css is loaded next to the module
+ */
+const CSS_LOADER_SNIPPET =
+  "if (typeof document !== 'undefined') {\n" +
+  "  const link = document.createElement('link');\n" +
+  "  link.rel = 'stylesheet';\n" +
+  "  link.href = new URL('./index.css', import.meta.url).href;\n" +
+  '  document.head.appendChild(link);\n' +
+  '}\n';
+
+/**
+ * Get the vendor bundle directory for a package version
+ * @returns Absolute path like "<root>/public/vendor/@constela/core@0.23.0"
+ */
+export function vendorOutputDir(
+  projectRoot: string,
+  packageName: string,
+  version: string,
+): string {
+  return join(projectRoot, VENDOR_DIR, `${packageName}@${version}`);
+}
+
+/**
+ * Bundle a package's ESM entry point from node_modules into its vendor directory.
+ * Packages listed in external stay bare imports and are resolved by the
+ * import map, so each vendored package is loaded only once.
+ * @param projectRoot - Absolute path to the project root
+ * @param packageName - Package name like "@constela/compiler"
+ * @param version - Installed version (used for the output directory)
+ * @param external - Other vendored packages
+ * @returns Absolute path of the bundled index.js
+ */
+export async function bundleVendorPackage(
+  projectRoot: string,
+  packageName: string,
+  version: string,
+  external: string[],
+): Promise<string> {
+  const packageDir = join(projectRoot, 'node_modules', packageName);
+  const manifest = JSON.parse(
+    await readFile(join(packageDir, 'package.json'), 'utf-8'),
+  ) as { exports?: unknown; module?: string; main?: string };
+  const outdir = vendorOutputDir(projectRoot, packageName, version);
+
+  await build({
+    entryPoints: { index: join(packageDir, resolvePackageEntry(manifest)) },
+    outdir,
+    bundle: true,
+    splitting: true,
+    format: 'esm',
+    platform: 'browser',
+    target: 'es2020',
+    minify: true,
+    external: external.filter((name) => name !== packageName),
+    loader: { '.ttf': 'file', '.woff': 'file', '.woff2': 'file' },
+    logLevel: 'silent',
+  });
+
+  const indexPath = join(outdir, 'index.js');
+  const hasCss = await access(join(outdir, 'index.css')).then(
+    () => true,
+    () => false,
+  );
+  if (hasCss) {
+    const code = await readFile(indexPath, 'utf-8');
+    await writeFile(indexPath, CSS_LOADER_SNIPPET + code, 'utf-8');
+  }
+
+  return indexPath;
+}
+
+/**
+ * A vendor bundle referenced by externalImports
+ */
+export interface VendoredPackage {
+  packageName: string;
+  version: string;
+}
+
+/**
+ * Collect the vendor bundles that externalImports maps point at
+ * @param maps - externalImports of each target
+ * @returns Unique package versions, in first-seen order
+ */
+export function collectVendoredPackages(
+  maps: Record<string, string>[],
+): VendoredPackage[] {
+  const packages = new Map<string, VendoredPackage>();
+  for (const externalImports of maps) {
+    for (const url of Object.values(externalImports)) {
+      const parsed = isVendorUrl(url) ? parseCdnUrl(url) : null;
+      if (parsed) {
+        packages.set(`${parsed.packageName}@${parsed.version}`, {
+          packageName: parsed.packageName,
+          version: parsed.version,
+        });
+      }
+    }
+  }
+  return [...packages.values()];
+}
+
+/**
+ * Find vendor bundles that have not been built (public/vendor is not
+ * committed, so a fresh checkout has none)
+ * @returns Packages whose index.js is missing
+ */
+export async function findMissingVendorBundles(
+  projectRoot: string,
+  packages: VendoredPackage[],
+): Promise<VendoredPackage[]> {
+  const missing: VendoredPackage[] = [];
+  for (const pkg of packages) {
+    const indexPath = join(vendorOutputDir(projectRoot, pkg.packageName, pkg.version), 'index.js');
+    const exists = await access(indexPath).then(
+      () => true,
+      () => false,
+    );
+    if (!exists) {
+      missing.push(pkg);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Build vendor bundles at the versions externalImports point at.
+ * Bundles come from node_modules, so the installed version must match.
+ * @param projectRoot - Absolute path to the project root
+ * @param packages - Bundles to build
+ * @param external - Every vendored package name, kept as bare imports
+ * @throws Error if a package is not installed at the vendored version
+ */
+export async function buildVendoredPackages(
+  projectRoot: string,
+  packages: VendoredPackage[],
+  external: string[] = packages.map((pkg) => pkg.packageName),
+): Promise<void> {
+  for (const { packageName, version } of packages) {
+    const installed = await readNodeModulesVersion(projectRoot, packageName);
+    if (installed !== version) {
+      throw new Error(
+        `${packageName}@${version} is vendored but ${installed ?? 'no version'} is installed; run \`pnpm sync-cdn\` first.`,
+      );
+    }
+  }
+  for (const { packageName, version } of packages) {
+    await bundleVendorPackage(projectRoot, packageName, version, external);
+  }
+}
+
+/**
+ * Rewrite externalImports to self-hosted vendor URLs.
+ * Only packages listed in versions are rewritten.
+ * Does not mutate the original externalImports object.
+ * @param externalImports - Current externalImports map
+ * @param versions - Vendored package versions like { "@constela/core": "0.23.0" }
+ */
+export function rewriteToVendor(
+  externalImports: Record<string, string>,
+  versions: Record<string, string>,
+): { externalImports: Record<string, string>; updated: string[] } {
+  const result: Record<string, string> = {};
+  const updated: string[] = [];
+
+  for (const [packageName, url] of Object.entries(externalImports)) {
+    const version = versions[packageName];
+    const vendorUrl = version
+      ? CDN_PROVIDERS.vendor.buildUrl(packageName, version)
+      : url;
+    result[packageName] = vendorUrl;
+    if (vendorUrl !== url) {
+      updated.push(packageName);
+    }
+  }
+
+  return { externalImports: result, updated };
+}
+
+/**
+ * Rewrite self-hosted vendor URLs back to CDN URLs for the same version.
+ * Does not mutate the original externalImports object.
+ * @param externalImports - Current externalImports map
+ * @param provider - CDN provider to switch to
+ * @param entryFiles - ESM entry files, for providers that serve package files
+ */
+export function rewriteToCdn(
+  externalImports: Record<string, string>,
+  provider: CdnProviderName,
+  entryFiles: Record<string, string> = {},
+): { externalImports: Record<string, string>; updated: string[] } {
+  const result: Record<string, string> = {};
+  const updated: string[] = [];
+
+  for (const [packageName, url] of Object.entries(externalImports)) {
+    const parsed = isVendorUrl(url) ? parseCdnUrl(url) : null;
+    if (!parsed) {
+      result[packageName] = url;
+      continue;
+    }
+    result[packageName] = buildCdnUrl(packageName, parsed.version, {
+      provider,
+      file: entryFiles[packageName],
+    });
+    updated.push(packageName);
+  }
+
+  return { externalImports: result, updated };
+}
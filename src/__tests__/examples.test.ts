@@ -0,0 +1,83 @@
+/**
+ * Test suite running every example under src/examples
+ *
+ * Coverage:
+ * - Each example program compiles with @constela/compiler
+ * - Each example mounts with @constela/runtime
+ * - Each example's interaction script ("interactions") passes
+ *
+ * See src/test-utils/example-harness.ts for the script steps.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import {
+  createFetchStub,
+  mountExample,
+  runInteractions,
+  type ExampleInteraction,
+  type MountedExample,
+} from '../test-utils/example-harness';
+import {
+  readExampleSources,
+  type ExampleSource,
+} from '../../scripts/generate-examples';
+
+const { examples } = await readExampleSources(join(__dirname, '../..'));
+
+function interactionsOf(example: ExampleSource): ExampleInteraction[] | undefined {
+  return example.meta.interactions as ExampleInteraction[] | undefined;
+}
+
+describe('Examples', () => {
+  // ==================== Setup ====================
+
+  let mounted: MountedExample | undefined;
+  let fetchResponses: Map<string, unknown>;
+
+  beforeEach(() => {
+    fetchResponses = new Map();
+    vi.stubGlobal('fetch', createFetchStub(fetchResponses));
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    mounted?.unmount();
+    mounted = undefined;
+    vi.unstubAllGlobals();
+    localStorage.clear();
+    document.documentElement.className = '';
+    document.body.innerHTML = '';
+  });
+
+  it('should find examples to run', () => {
+    expect(examples.length).toBeGreaterThan(0);
+  });
+
+  // ==================== Per Example ====================
+
+  describe.each(examples.map((example) => [example.slug, example] as const))(
+    '%s',
+    (_slug, example) => {
+      it('should compile and mount', () => {
+        // Act
+        mounted = mountExample(example.program);
+
+        // Assert
+        expect(mounted.container.textContent?.trim()).not.toBe('');
+      });
+
+      it('should declare an interaction script', () => {
+        expect(interactionsOf(example)?.length).toBeGreaterThan(0);
+      });
+
+      it('should pass its interaction script', async () => {
+        // Arrange
+        mounted = mountExample(example.program);
+
+        // Act & Assert
+        await runInteractions(interactionsOf(example) ?? [], fetchResponses);
+      });
+    },
+  );
+});
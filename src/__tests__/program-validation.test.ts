@@ -0,0 +1,239 @@
+/**
+ * Test suite validating every route, layout and component JSON file
+ * as a Constela program with @constela/core and @constela/compiler
+ *
+ * Coverage:
+ * - Routes: validateAst + compile, with the state of their layout in scope
+ * - Layouts: validateAst + analyzeLayoutPass
+ * - Component files: validateAst + compile of the component definitions
+ * - Failures are reported as <file>#<JSON pointer> [<error code>] <message>
+ *
+ * Files use features that @constela/start and @constela/runtime handle
+ * but the core validator does not know (import/data/route/ref
+ * expressions; import/call/clipboard/subscribe/dispose steps; nullable
+ * object state; the mdx-content slot filled by the MDX loader). Those
+ * are lowered to core equivalents before validation, and error pointers
+ * are mapped back to the original file.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative } from 'path';
+import { validateAst, type ConstelaError } from '@constela/core';
+import { analyzeLayoutPass, compile } from '@constela/compiler';
+
+const SRC_DIR = join(__dirname, '..');
+
+// Expressions resolved by @constela/start / @constela/runtime
+const START_EXPRESSIONS = ['import', 'data', 'route', 'ref'];
+
+// Steps executed by @constela/runtime, with the keys holding nested steps
+const RUNTIME_STEPS: Record<string, string[]> = {
+  import: ['onSuccess', 'onError'],
+  call: ['onSuccess', 'onError'],
+  clipboard: ['onSuccess', 'onError'],
+  subscribe: [],
+  dispose: [],
+};
+
+// Page slots filled by @constela/start rather than by a layout
+const START_SLOTS = ['mdx-content'];
+
+interface Lowered {
+  value: unknown;
+  /** [lowered pointer, original pointer] pairs for moved subtrees */
+  pointerMap: [string, string][];
+}
+
+/**
+ * Lower start/runtime-only features to core equivalents.
+ * Runtime steps become an "if" step whose "then" holds their nested
+ * steps, so those are still validated.
+ */
+function lowerToCore(value: unknown): Lowered {
+  const pointerMap: [string, string][] = [];
+
+  const lower = (node: unknown, pointer: string, original: string): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, index) =>
+        lower(item, `${pointer}/${index}`, `${original}/${index}`),
+      );
+    }
+    if (typeof node !== 'object' || node === null) {
+      return node;
+    }
+
+    const record = node as Record<string, unknown>;
+
+    if (typeof record.expr === 'string' && START_EXPRESSIONS.includes(record.expr)) {
+      return { expr: 'lit', value: null };
+    }
+    if (record.kind === 'slot' && START_SLOTS.includes(record.name as string)) {
+      return { kind: 'text', value: { expr: 'lit', value: '' } };
+    }
+    if (typeof record.do === 'string' && record.do in RUNTIME_STEPS) {
+      const then: unknown[] = [];
+      for (const key of RUNTIME_STEPS[record.do]) {
+        const steps = Array.isArray(record[key]) ? record[key] : [];
+        steps.forEach((step, index) => {
+          const loweredPointer = `${pointer}/then/${then.length}`;
+          const originalPointer = `${original}/${key}/${index}`;
+          pointerMap.push([loweredPointer, originalPointer]);
+          then.push(lower(step, loweredPointer, originalPointer));
+        });
+      }
+      return { do: 'if', condition: { expr: 'lit', value: true }, then };
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(record)) {
+      result[key] = lower(child, `${pointer}/${key}`, `${original}/${key}`);
+    }
+    // Nullable object state: the runtime accepts null until it is set
+    if (result.type === 'object' && result.initial === null) {
+      result.initial = {};
+    }
+    return result;
+  };
+
+  return { value: lower(value, '', ''), pointerMap };
+}
+
+/**
+ * Map a pointer in the lowered program back to the original file
+ */
+function toOriginalPointer(pointer: string, pointerMap: [string, string][]): string {
+  let best: [string, string] | undefined;
+  for (const entry of pointerMap) {
+    const [lowered] = entry;
+    const matches = pointer === lowered || pointer.startsWith(`${lowered}/`);
+    if (matches && (!best || lowered.length > best[0].length)) {
+      best = entry;
+    }
+  }
+  return best ? best[1] + pointer.slice(best[0].length) : pointer;
+}
+
+function listJsonFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === '__tests__' ? [] : listJsonFiles(path);
+      }
+      return entry.name.endsWith('.json') ? [path] : [];
+    })
+    .sort();
+}
+
+function readJson(path: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+}
+
+const EMPTY_VIEW = { kind: 'text', value: { expr: 'lit', value: '' } };
+
+/**
+ * Build the core program checked for a file.
+ * Route files keep their layout's state in scope, as after composition.
+ */
+function toProgram(json: Record<string, unknown>): Record<string, unknown> {
+  const route = json.route as { layout?: string } | undefined;
+  const layoutState = route?.layout
+    ? (readJson(join(SRC_DIR, 'layouts', `${route.layout}.json`)).state as object)
+    : {};
+
+  return {
+    version: json.version,
+    state: { ...layoutState, ...((json.state as object) ?? {}) },
+    actions: json.actions ?? [],
+    view: json.view ?? EMPTY_VIEW,
+    ...(json.components ? { components: json.components } : {}),
+  };
+}
+
+function formatError(file: string, error: ConstelaError, pointerMap: [string, string][]): string {
+  const pointer = toOriginalPointer(error.path ?? '', pointerMap);
+  return `${file}#${pointer} [${error.code}] ${error.message}`;
+}
+
+/**
+ * Validate one file and return formatted errors
+ */
+function validateFile(path: string): string[] {
+  const file = relative(SRC_DIR, path);
+  const json = readJson(path);
+  const { value, pointerMap } = lowerToCore(toProgram(json));
+
+  const validation = validateAst(value);
+  if (!validation.ok) {
+    return [formatError(file, validation.error, pointerMap)];
+  }
+
+  if (json.type === 'layout') {
+    const analysis = analyzeLayoutPass({
+      ...(value as object),
+      type: 'layout',
+    } as Parameters<typeof analyzeLayoutPass>[0]);
+    return analysis.ok
+      ? []
+      : analysis.errors.map((error) => formatError(file, error, pointerMap));
+  }
+
+  const compiled = compile(value);
+  return compiled.ok
+    ? []
+    : compiled.errors.map((error) => formatError(file, error, pointerMap));
+}
+
+describe('Constela program validation', () => {
+  describe.each(['routes', 'layouts', 'components'])('%s', (dir) => {
+    const files = listJsonFiles(join(SRC_DIR, dir));
+
+    it('should find JSON files to validate', () => {
+      expect(files.length).toBeGreaterThan(0);
+    });
+
+    it.each(files.map((path) => [relative(SRC_DIR, path), path]))(
+      '%s should be a valid program',
+      (_file, path) => {
+        expect(validateFile(path)).toEqual([]);
+      },
+    );
+  });
+
+  describe('lowerToCore', () => {
+    it('should map errors inside runtime steps back to the original pointer', () => {
+      // Arrange
+      const program = {
+        version: '1.0',
+        state: {},
+        actions: [
+          {
+            name: 'load',
+            steps: [
+              {
+                do: 'import',
+                module: 'x',
+                result: 'mod',
+                onSuccess: [{ do: 'set', value: { expr: 'lit', value: 1 } }],
+              },
+            ],
+          },
+        ],
+        view: EMPTY_VIEW,
+      };
+      const { value, pointerMap } = lowerToCore(program);
+
+      // Act
+      const result = validateAst(value);
+
+      // Assert
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(formatError('routes/x.json', result.error, pointerMap)).toMatch(
+          /^routes\/x\.json#\/actions\/0\/steps\/0\/onSuccess\/0\/target \[SCHEMA_INVALID\] /,
+        );
+      }
+    });
+  });
+});
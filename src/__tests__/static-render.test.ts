@@ -0,0 +1,244 @@
+// @vitest-environment node
+/**
+ * Server-render smoke tests for every static page
+ *
+ * Coverage:
+ * - Every route is rendered by the @constela/start build pipeline
+ *   (getStaticPaths expansion for the docs/reference MDX globs, the
+ *   examples slugs and the ui components, layout composition, and
+ *   @constela/server rendering)
+ * - Every page the site should build (see scripts/site-paths.ts) is
+ *   generated
+ * - Each page has non-empty HTML, a <title> and an <h1>
+ * - A literal route meta title is also used as the <title>
+ * - Docs and reference pages are titled after their MDX frontmatter title,
+ *   in the build and in the dev server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { build, createDevServer } from '@constela/start';
+import { CONTENT_ROUTES, collectSitePaths } from '../../scripts/site-paths';
+
+const PROJECT_ROOT = join(__dirname, '../..');
+const ROUTES_DIR = join(PROJECT_ROOT, 'src/routes');
+const LAYOUTS_DIR = join(PROJECT_ROOT, 'src/layouts');
+
+// Rendering every page takes a while on a cold cache
+const BUILD_TIMEOUT = 120_000;
+
+const sitePaths = await collectSitePaths(PROJECT_ROOT);
+
+/**
+ * Output file for a URL path, as written by the build
+ */
+function outputFile(outDir: string, sitePath: string): string {
+  return join(outDir, sitePath, 'index.html');
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '').trim();
+}
+
+function listHtmlFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listHtmlFiles(path);
+    }
+    return entry.name.endsWith('.html') ? [path] : [];
+  });
+}
+
+/**
+ * Literal meta title of the route file behind a URL path, if any
+ */
+function literalMetaTitle(sitePath: string): string | undefined {
+  const segments = sitePath.split('/').filter(Boolean);
+  const candidates = [
+    join(ROUTES_DIR, ...segments) + '.json',
+    join(ROUTES_DIR, ...segments, 'index.json'),
+  ];
+  for (const file of candidates) {
+    try {
+      const title = JSON.parse(readFileSync(file, 'utf-8')).route?.meta?.title;
+      return title?.expr === 'lit' ? title.value : typeof title === 'string' ? title : undefined;
+    } catch {
+      // Not a static route file
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Frontmatter title of the MDX page behind a docs or reference URL path, if any
+ */
+function frontmatterTitle(sitePath: string): string | undefined {
+  const route = CONTENT_ROUTES.find(
+    ({ prefix }) => sitePath === prefix || sitePath.startsWith(`${prefix}/`),
+  );
+  if (!route) {
+    return undefined;
+  }
+  const rest = sitePath.slice(route.prefix.length);
+  const candidates = [
+    join(PROJECT_ROOT, route.dir, rest) + '.mdx',
+    join(PROJECT_ROOT, route.dir, rest, 'index.mdx'),
+  ];
+  for (const file of candidates) {
+    try {
+      const title = readFileSync(file, 'utf-8').match(/^title:\s*(.+)$/m)?.[1]?.trim();
+      return title?.replace(/^(['"])(.*)\1$/, '$2');
+    } catch {
+      // No MDX file at this candidate
+    }
+  }
+  return undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readTitle(html: string): string | undefined {
+  return html.match(/<title>([^<]*)<\/title>/)?.[1];
+}
+
+/**
+ * Expect a docs or reference page title to start with its MDX title
+ */
+function expectFrontmatterTitle(title: string | undefined, sitePath: string): void {
+  const pageTitle = frontmatterTitle(sitePath);
+  if (pageTitle) {
+    const prefix = `${pageTitle} - `;
+    expect(decodeEntities(title ?? '').slice(0, prefix.length)).toBe(prefix);
+  }
+}
+
+/**
+ * A port nothing listens on; the dev server does not report the port
+ * it picks for 0
+ */
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+describe('Static page rendering', () => {
+  // ==================== Setup ====================
+
+  let outDir: string;
+
+  beforeAll(async () => {
+    outDir = mkdtempSync(join(tmpdir(), 'constela-render-'));
+    await build({
+      outDir,
+      routesDir: ROUTES_DIR,
+      layoutsDir: LAYOUTS_DIR,
+      // Static assets are not needed to check the pages
+      publicDir: '',
+    });
+  }, BUILD_TIMEOUT);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  // ==================== Generated Pages ====================
+
+  it('should generate a page for every site path', () => {
+    const generated = new Set(
+      listHtmlFiles(outDir).map((file) => `/${relative(outDir, file)}`),
+    );
+    const missing = sitePaths.filter(
+      (sitePath) => !generated.has(`/${relative(outDir, outputFile(outDir, sitePath))}`),
+    );
+
+    expect(missing).toEqual([]);
+  });
+
+  // ==================== Page Content ====================
+
+  describe.each(sitePaths)('%s', (sitePath) => {
+    let html: string;
+
+    beforeAll(() => {
+      html = readFileSync(outputFile(outDir, sitePath), 'utf-8');
+    });
+
+    it('should render non-empty HTML', () => {
+      const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/)?.[1] ?? '';
+      expect(stripTags(body.replace(/<script[\s\S]*?<\/script>/g, ''))).not.toBe('');
+    });
+
+    it('should have a <title>', () => {
+      const title = readTitle(html);
+      expect(title?.trim()).toBeTruthy();
+
+      const metaTitle = literalMetaTitle(sitePath);
+      if (metaTitle) {
+        expect(title).toBe(metaTitle);
+      }
+
+      expectFrontmatterTitle(title, sitePath);
+    });
+
+    it('should have an <h1>', () => {
+      const h1 = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/)?.[1];
+      expect(stripTags(h1 ?? '')).not.toBe('');
+    });
+  });
+});
+
+describe('Dev server rendering', () => {
+  // ==================== Setup ====================
+
+  // Rendering on request is slow; the section index and one nested page
+  // of each content route cover the layout's title
+  const contentPaths = CONTENT_ROUTES.flatMap(({ prefix }) => [
+    prefix,
+    sitePaths.find((sitePath) => sitePath.startsWith(`${prefix}/`))!,
+  ]);
+  let server: Awaited<ReturnType<typeof createDevServer>>;
+  let origin: string;
+
+  beforeAll(async () => {
+    const port = await findFreePort();
+    server = await createDevServer({
+      port,
+      host: '127.0.0.1',
+      routesDir: ROUTES_DIR,
+      layoutsDir: LAYOUTS_DIR,
+      publicDir: join(PROJECT_ROOT, 'public'),
+    });
+    await server.listen();
+    origin = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(async () => {
+    await server?.close();
+  });
+
+  // ==================== Page Titles ====================
+
+  it.each(contentPaths)('%s should be titled after its MDX page', async (sitePath) => {
+    const response = await fetch(`${origin}${sitePath}`);
+
+    expect(response.status).toBe(200);
+    expectFrontmatterTitle(readTitle(await response.text()), sitePath);
+  });
+});
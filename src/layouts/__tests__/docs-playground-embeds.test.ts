@@ -0,0 +1,89 @@
+/**
+ * Test suite for the docs.json playground embed actions
+ *
+ * Coverage:
+ * - The embed state, actions and lifecycle are defined once, in the layout
+ * - The playground helpers are imported only on pages whose MDX uses <Playground>
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { evaluate } from '@constela/core';
+import type { EnvironmentAdapter } from '@constela/core';
+
+const SRC_DIR = join(__dirname, '../..');
+
+interface JsonProgram {
+  state?: Record<string, unknown>;
+  lifecycle?: Record<string, string>;
+  actions?: { name: string; steps: Record<string, unknown>[] }[];
+}
+
+function readProgram(file: string): JsonProgram {
+  return JSON.parse(readFileSync(join(SRC_DIR, file), 'utf-8')) as JsonProgram;
+}
+
+const env: EnvironmentAdapter = {
+  resolveRef: () => null,
+  resolveValidity: () => null,
+  resolveGlobal: () => undefined,
+};
+
+describe('docs.json playground embeds', () => {
+  const layout = readProgram('layouts/docs.json');
+  const watchAction = layout.actions?.find(
+    (action) => action.name === 'watchPlaygroundEmbeds',
+  );
+
+  /**
+   * Whether the watch action imports the helpers on a page with this MDX source
+   */
+  function importsHelpers(raw: string): boolean {
+    const [guard] = watchAction!.steps;
+    return Boolean(
+      evaluate(guard!.condition, {
+        state: { get: () => undefined },
+        locals: {},
+        imports: { docs: { raw } },
+        env,
+      }),
+    );
+  }
+
+  it('should watch and dispose the embeds from the layout lifecycle', () => {
+    expect(layout.lifecycle).toEqual({
+      onMount: 'watchPlaygroundEmbeds',
+      onUnmount: 'disposePlaygroundEmbeds',
+    });
+    expect(layout.state).toHaveProperty('playgroundEmbeds');
+  });
+
+  it.each(['routes/docs/[...slug].json', 'routes/reference/[...slug].json'])(
+    'should not redefine the embed actions in %s',
+    (file) => {
+      const page = readProgram(file);
+      expect(page.lifecycle).toBeUndefined();
+      expect(page.state ?? {}).not.toHaveProperty('playgroundEmbeds');
+      expect(page.actions ?? []).toEqual([]);
+    },
+  );
+
+  it('should import the helpers only inside the <Playground> guard', () => {
+    expect(watchAction!.steps).toHaveLength(1);
+    expect(watchAction!.steps[0]).toMatchObject({
+      do: 'if',
+      then: [{ do: 'import', module: 'constela-playground' }],
+    });
+  });
+
+  it('should import the helpers on pages that embed a playground', () => {
+    const raw = readFileSync(join(SRC_DIR, 'content/docs/state-expressions.mdx'), 'utf-8');
+    expect(importsHelpers(raw)).toBe(true);
+  });
+
+  it('should skip the import on pages without an embed', () => {
+    const raw = readFileSync(join(SRC_DIR, 'content/docs/installation.mdx'), 'utf-8');
+    expect(importsHelpers(raw)).toBe(false);
+  });
+});
@@ -13,6 +13,15 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  at,
+  childAt,
+  classOf,
+  propOf,
+  query,
+  type NodeMatch,
+  type ViewNode,
+} from '../../test-utils/view-query';
 
 // Test data: Reference navigation sections from navigation.json
 const referenceNavigation = [
@@ -45,9 +54,13 @@ describe('Reference page sidebar accordion menu', () => {
   const docsJsonPath = path.resolve(__dirname, '../../layouts/docs.json');
   const globalsCssPath = path.resolve(__dirname, '../../styles/globals.css');
 
-  let docsJson: any;
+  let docsJson: { view: ViewNode };
   let globalsCss: string;
 
+  // The sidebar <aside> and the "each" loop over its navigation sections
+  const SIDEBAR = 'aside[class*="fixed left-0"]';
+  const SECTION_ITERATOR = ':kind(each)[as="section"]';
+
   beforeEach(() => {
     // Read the actual docs.json file
     const docsJsonContent = fs.readFileSync(docsJsonPath, 'utf-8');
@@ -75,19 +88,17 @@ describe('Reference page sidebar accordion menu', () => {
        */
 
       // Find the sidebar <aside> element in the view
-      const sidebarView = findSidebarInView(docsJson.view);
-      expect(sidebarView).toBeDefined();
+      const sidebarView = query(docsJson.view, SIDEBAR);
+      expect(sidebarView).not.toBeNull();
 
       // Find the navigation sections (each loop body)
-      const sectionIterator = findEachIteratorInSidebar(sidebarView);
-      expect(sectionIterator).toBeDefined();
+      const sectionIterator = query(sidebarView!, SECTION_ITERATOR, 'each');
+      expect(sectionIterator).not.toBeNull();
 
       // The body of each section should be a <details> element
-      const sectionBody = sectionIterator?.body;
-      expect(sectionBody?.tag).toBe('details');
-      expect(sectionBody?.props?.class?.value ?? sectionBody?.props?.class?.expr?.value).toContain(
-        'sidebar-section'
-      );
+      const sectionBody = childAt(sectionIterator!, 0);
+      expect(sectionBody.node, at(sectionBody)).toMatchObject({ kind: 'element', tag: 'details' });
+      expect(classOf(sectionBody), at(sectionBody)).toContain('sidebar-section');
     });
 
     it('should use <summary> element for section titles', () => {
@@ -97,16 +108,12 @@ describe('Reference page sidebar accordion menu', () => {
        * Then: Each section title should be in a <summary> element
        */
 
-      const sidebarView = findSidebarInView(docsJson.view);
-      const sectionIterator = findEachIteratorInSidebar(sidebarView);
-
-      expect(sectionIterator).toBeDefined();
+      const detailsBody = getSectionBody(docsJson.view);
 
       // The first child of <details> should be <summary>
-      const detailsBody = sectionIterator?.body;
-      const summaryElement = detailsBody?.children?.[0];
+      const summaryElement = childAt(detailsBody, 0);
 
-      expect(summaryElement?.tag).toBe('summary');
+      expect(summaryElement.node, at(summaryElement)).toMatchObject({ tag: 'summary' });
     });
 
     it('should include chevron icon in summary element', () => {
@@ -116,19 +123,15 @@ describe('Reference page sidebar accordion menu', () => {
        * Then: Summary should contain an SVG with class "chevron"
        */
 
-      const sidebarView = findSidebarInView(docsJson.view);
-      const sectionIterator = findEachIteratorInSidebar(sidebarView);
+      const detailsBody = getSectionBody(docsJson.view);
+      const summaryElement = childAt(detailsBody, 0);
+      const chevronSvg = query(summaryElement, 'svg[class*="chevron"]');
 
-      const detailsBody = sectionIterator?.body;
-      const summaryElement = detailsBody?.children?.[0];
-      const chevronSvg = findChevronInSummary(summaryElement);
-
-      expect(chevronSvg).toBeDefined();
-      expect(chevronSvg?.tag).toBe('svg');
+      expect(chevronSvg, `chevron svg under ${summaryElement.pointer}`).not.toBeNull();
+      expect(chevronSvg!.node).toMatchObject({ kind: 'element', tag: 'svg' });
 
       // Check for "chevron" class
-      const svgClass = chevronSvg?.props?.class?.value ?? chevronSvg?.props?.class?.expr?.value;
-      expect(svgClass).toContain('chevron');
+      expect(classOf(chevronSvg!)).toContain('chevron');
     });
   });
 
@@ -145,14 +148,11 @@ describe('Reference page sidebar accordion menu', () => {
       const currentPath = '/reference/core/api-reference';
 
       // Find the section iterator body
-      const sidebarView = findSidebarInView(docsJson.view);
-      const sectionIterator = findEachIteratorInSidebar(sidebarView);
-
-      const detailsBody = sectionIterator?.body;
+      const detailsBody = getSectionBody(docsJson.view);
 
       // The <details> element should have conditional "open" attribute
       // based on whether currentPath starts with section's href prefix
-      const openAttr = detailsBody?.props?.open;
+      const openAttr = propOf(detailsBody, 'open');
 
       expect(openAttr).toBeDefined();
 
@@ -172,11 +172,8 @@ describe('Reference page sidebar accordion menu', () => {
 
       // The logic should expand "Reference" section
       // since currentPath matches "/reference" exactly or starts with it
-      const sidebarView = findSidebarInView(docsJson.view);
-      const sectionIterator = findEachIteratorInSidebar(sidebarView);
-
-      const detailsBody = sectionIterator?.body;
-      const openAttr = detailsBody?.props?.open;
+      const detailsBody = getSectionBody(docsJson.view);
+      const openAttr = propOf(detailsBody, 'open');
 
       // Should have conditional expression logic
       expect(openAttr).toBeDefined();
@@ -192,18 +189,15 @@ describe('Reference page sidebar accordion menu', () => {
 
       // The conditional "open" expression should evaluate to false
       // for sections that don't match the current path prefix
-      const sidebarView = findSidebarInView(docsJson.view);
-      const sectionIterator = findEachIteratorInSidebar(sidebarView);
-
-      const detailsBody = sectionIterator?.body;
-      const openAttr = detailsBody?.props?.open;
+      const detailsBody = getSectionBody(docsJson.view);
+      const openAttr = propOf(detailsBody, 'open');
 
       // The open attribute should exist and be conditional
       expect(openAttr).toBeDefined();
 
       // Verify the condition checks for path prefix match
       // The condition should use "startsWith" or similar logic
-      expect(openAttr?.if || openAttr?.expr).toBeDefined();
+      expect(openAttr && ('if' in openAttr ? openAttr.if : openAttr.expr)).toBeDefined();
     });
 
     // ==================== Reference Section Exclusivity Tests ====================
@@ -453,86 +447,15 @@ describe('Reference page sidebar accordion menu', () => {
   // ==================== Helper Functions ====================
 
   /**
-   * Recursively find the sidebar <aside> element in the view tree
-   */
-  function findSidebarInView(node: any): any {
-    if (!node) return null;
-
-    // Check if this is the sidebar aside element
-    if (node.tag === 'aside' && node.props?.class?.value?.includes('fixed left-0')) {
-      return node;
-    }
-
-    // Check children
-    if (node.children && Array.isArray(node.children)) {
-      for (const child of node.children) {
-        const result = findSidebarInView(child);
-        if (result) return result;
-      }
-    }
-
-    // Check then/else branches for conditionals
-    if (node.then) {
-      const result = findSidebarInView(node.then);
-      if (result) return result;
-    }
-
-    return null;
-  }
-
-  /**
-   * Find the "each" iterator for navigation sections in sidebar
-   */
-  function findEachIteratorInSidebar(sidebarNode: any): any {
-    if (!sidebarNode) return null;
-
-    // Recursively search for the "each" kind node that iterates over navigation
-    function search(node: any): any {
-      if (!node) return null;
-
-      if (node.kind === 'each' && node.as === 'section') {
-        return node;
-      }
-
-      if (node.children && Array.isArray(node.children)) {
-        for (const child of node.children) {
-          const result = search(child);
-          if (result) return result;
-        }
-      }
-
-      return null;
-    }
-
-    return search(sidebarNode);
-  }
-
-  /**
-   * Find the chevron SVG inside a summary element
+   * Find the <details> body of the navigation section loop in the sidebar
    */
-  function findChevronInSummary(summaryNode: any): any {
-    if (!summaryNode) return null;
-
-    function search(node: any): any {
-      if (!node) return null;
-
-      if (node.tag === 'svg') {
-        const svgClass = node.props?.class?.value ?? node.props?.class?.expr?.value ?? '';
-        if (svgClass.includes('chevron')) {
-          return node;
-        }
-      }
-
-      if (node.children && Array.isArray(node.children)) {
-        for (const child of node.children) {
-          const result = search(child);
-          if (result) return result;
-        }
-      }
+  function getSectionBody(view: ViewNode): NodeMatch {
+    const sidebar = query(view, SIDEBAR);
+    expect(sidebar, `${SIDEBAR} in docs.json`).not.toBeNull();
 
-      return null;
-    }
+    const sectionIterator = query(sidebar!, SECTION_ITERATOR, 'each');
+    expect(sectionIterator, `${SECTION_ITERATOR} under ${sidebar!.pointer}`).not.toBeNull();
 
-    return search(summaryNode);
+    return childAt(sectionIterator!, 0);
   }
 });
@@ -0,0 +1,67 @@
+/**
+ * Test suite for json-scan module
+ *
+ * Coverage:
+ * - Locate values by object key and array index, and member keys
+ * - Null for missing paths
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { findJsonValue } from '../json-scan';
+
+// ==================== Test Fixtures ====================
+
+// Deliberately not JSON.stringify output: inline arrays, escapes, tabs
+const SOURCE = [
+  '{',
+  '\t"version": "1.0",',
+  '\t"externalImports": {',
+  '\t\t"a": "https://cdn/a@1.0.0/+esm",',
+  '\t\t"b":"https://cdn/b@1.0.0/+esm"',
+  '\t},',
+  '\t"items": [1, 2, {"label": "\\"quoted\\""}],',
+  '\t"route": {}',
+  '}',
+  '',
+].join('\n');
+
+describe('json-scan', () => {
+  // ==================== findJsonValue ====================
+
+  describe('findJsonValue', () => {
+    it('should locate a nested object member', () => {
+      // Act
+      const range = findJsonValue(SOURCE, ['externalImports', 'b']);
+
+      // Assert
+      expect(range).not.toBeNull();
+      expect(SOURCE.slice(range!.start, range!.end)).toBe(
+        '"https://cdn/b@1.0.0/+esm"',
+      );
+    });
+
+    it('should locate the key of an object member', () => {
+      // Act
+      const range = findJsonValue(SOURCE, ['externalImports']);
+
+      // Assert
+      expect(range).toMatchObject({ keyStart: expect.any(Number), keyEnd: expect.any(Number) });
+      const { keyStart, keyEnd } = range as { keyStart: number; keyEnd: number };
+      expect(SOURCE.slice(keyStart, keyEnd)).toBe('"externalImports"');
+    });
+
+    it('should locate a value inside an array by index', () => {
+      // Act
+      const range = findJsonValue(SOURCE, ['items', '2', 'label']);
+
+      // Assert
+      expect(SOURCE.slice(range!.start, range!.end)).toBe('"\\"quoted\\""');
+    });
+
+    it('should return null for a missing path', () => {
+      expect(findJsonValue(SOURCE, ['externalImports', 'c'])).toBeNull();
+      expect(findJsonValue(SOURCE, ['version', 'x'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * JSON source scanner.
+ * Locates values in JSON text by path without parsing the whole
+ * document into objects, so callers know where each value sits in the
+ * text. Shared by the format-preserving edits in scripts/json-edit.ts
+ * and the playground diagnostics, which map error paths to the editor
+ * text.
+ */
+
+/**
+ * Location of a value in JSON source text
+ */
+export interface JsonValueRange {
+  /** Offset of the first character of the value */
+  start: number;
+  /** Offset just past the last character of the value */
+  end: number;
+}
+
+/**
+ * Location of an object member in JSON source text
+ */
+export interface JsonMemberRange extends JsonValueRange {
+  /** Offset of the opening quote of the key */
+  keyStart: number;
+  /** Offset just past the closing quote of the key */
+  keyEnd: number;
+}
+
+interface ParseState {
+  text: string;
+  pos: number;
+}
+
+function skipWhitespace(state: ParseState): void {
+  while (/\s/.test(state.text[state.pos] ?? '')) {
+    state.pos++;
+  }
+}
+
+function fail(state: ParseState, message: string): never {
+  throw new Error(`Invalid JSON at offset ${state.pos}: ${message}`);
+}
+
+function skipString(state: ParseState): string {
+  const start = state.pos;
+  if (state.text[state.pos] !== '"') fail(state, 'expected string');
+  state.pos++;
+  while (state.pos < state.text.length && state.text[state.pos] !== '"') {
+    state.pos += state.text[state.pos] === '\\' ? 2 : 1;
+  }
+  if (state.text[state.pos] !== '"') fail(state, 'unterminated string');
+  state.pos++;
+  return JSON.parse(state.text.slice(start, state.pos)) as string;
+}
+
+/**
+ * Skip one value, or stop at the member named by path[0] and recurse.
+ * Returns the range of the value at path, or null if it is not found.
+ */
+function findValue(
+  state: ParseState,
+  path: string[],
+): JsonMemberRange | JsonValueRange | null {
+  skipWhitespace(state);
+  const start = state.pos;
+  const char = state.text[state.pos];
+
+  if (char === '{') {
+    state.pos++;
+    skipWhitespace(state);
+    if (state.text[state.pos] === '}') {
+      state.pos++;
+      return path.length === 0 ? { start, end: state.pos } : null;
+    }
+    for (;;) {
+      skipWhitespace(state);
+      const keyStart = state.pos;
+      const key = skipString(state);
+      const keyEnd = state.pos;
+      skipWhitespace(state);
+      if (state.text[state.pos] !== ':') fail(state, 'expected ":"');
+      state.pos++;
+
+      if (path.length > 0 && key === path[0]) {
+        const found = findValue(state, path.slice(1));
+        if (path.length === 1 && found) {
+          return { ...found, keyStart, keyEnd };
+        }
+        return found;
+      }
+      findValue(state, []);
+
+      skipWhitespace(state);
+      if (state.text[state.pos] === ',') {
+        state.pos++;
+        continue;
+      }
+      if (state.text[state.pos] === '}') {
+        state.pos++;
+        break;
+      }
+      fail(state, 'expected "," or "}"');
+    }
+    return path.length === 0 ? { start, end: state.pos } : null;
+  }
+
+  if (char === '[') {
+    state.pos++;
+    skipWhitespace(state);
+    if (state.text[state.pos] === ']') {
+      state.pos++;
+      return path.length === 0 ? { start, end: state.pos } : null;
+    }
+    for (let index = 0; ; index++) {
+      if (path.length > 0 && String(index) === path[0]) {
+        return findValue(state, path.slice(1));
+      }
+      findValue(state, []);
+      skipWhitespace(state);
+      if (state.text[state.pos] === ',') {
+        state.pos++;
+        continue;
+      }
+      if (state.text[state.pos] === ']') {
+        state.pos++;
+        break;
+      }
+      fail(state, 'expected "," or "]"');
+    }
+    return path.length === 0 ? { start, end: state.pos } : null;
+  }
+
+  if (path.length > 0) {
+    return null;
+  }
+
+  if (char === '"') {
+    skipString(state);
+  } else {
+    const match = state.text.slice(state.pos).match(/^(?:-?\d[\d.eE+-]*|true|false|null)/);
+    if (!match) fail(state, 'unexpected token');
+    state.pos += match[0].length;
+  }
+  return { start, end: state.pos };
+}
+
+/**
+ * Find the range of the value at a path
+ * @param text - JSON source text
+ * @param path - Object keys / array indices, e.g. ["externalImports", "@constela/core"]
+ * @returns Value range (with keyStart/keyEnd for object members) or null
+ *   if absent
+ * @throws Error if the text is not valid JSON up to the value
+ */
+export function findJsonValue(
+  text: string,
+  path: string[],
+): JsonMemberRange | JsonValueRange | null {
+  return findValue({ text, pos: 0 }, path);
+}
@@ -0,0 +1,84 @@
+/**
+ * Test suite for the playground auto-runner
+ *
+ * Coverage:
+ * - Scheduled runs fire once edits stop for the delay
+ * - Cancelled and disposed runners don't fire
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AUTO_RUN_DELAY, createAutoRunner } from '../autorun';
+
+describe('autorun', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fire once edits stop for the delay', () => {
+    // Arrange
+    const runner = createAutoRunner();
+    const listener = vi.fn();
+    runner.onDidFire(listener);
+
+    // Act
+    runner.schedule();
+    vi.advanceTimersByTime(AUTO_RUN_DELAY - 1);
+    runner.schedule();
+    vi.advanceTimersByTime(AUTO_RUN_DELAY - 1);
+
+    // Assert - still typing
+    expect(listener).not.toHaveBeenCalled();
+
+    // Act & Assert - quiet for the delay
+    vi.advanceTimersByTime(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom delay', () => {
+    const runner = createAutoRunner(100);
+    const listener = vi.fn();
+    runner.onDidFire(listener);
+
+    runner.schedule();
+    vi.advanceTimersByTime(100);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fire a cancelled run', () => {
+    const runner = createAutoRunner();
+    const listener = vi.fn();
+    runner.onDidFire(listener);
+
+    runner.schedule();
+    runner.cancel();
+    vi.advanceTimersByTime(AUTO_RUN_DELAY);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop firing once disposed or unsubscribed', () => {
+    // Arrange
+    const runner = createAutoRunner();
+    const removed = vi.fn();
+    const kept = vi.fn();
+    runner.onDidFire(removed).dispose();
+    runner.onDidFire(kept);
+
+    // Act & Assert - unsubscribed listener
+    runner.schedule();
+    vi.advanceTimersByTime(AUTO_RUN_DELAY);
+    expect(removed).not.toHaveBeenCalled();
+    expect(kept).toHaveBeenCalledTimes(1);
+
+    // Act & Assert - disposed runner
+    runner.schedule();
+    runner.dispose();
+    vi.advanceTimersByTime(AUTO_RUN_DELAY);
+    expect(kept).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Test suite for playground diagnostics
+ *
+ * Coverage:
+ * - JSON pointers are located in pretty-printed and compact JSON
+ * - Pointers past the text fall back to the deepest existing member
+ * - validateAst and compile errors become located diagnostics
+ * - Diagnostics are set as Monaco markers and revealed in the editor
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { validateAst } from '@constela/core';
+import { compile } from '@constela/compiler';
+import type * as Monaco from 'monaco-editor';
+import {
+  DIAGNOSTICS_OWNER,
+  locateJsonPointer,
+  revealDiagnostic,
+  showDiagnostics,
+  toDiagnostics,
+  type Diagnostic,
+} from '../diagnostics';
+
+// ==================== Test Fixtures ====================
+
+const program = {
+  version: '1.0',
+  state: { count: { type: 'number', initial: 0 } },
+  actions: [],
+  view: {
+    kind: 'element',
+    tag: 'div',
+    children: [{ kind: 'text', value: { expr: 'state', name: 'missing' } }],
+  },
+};
+const code = JSON.stringify(program, null, 2);
+
+/**
+ * Text covered by a range
+ */
+function textAt(text: string, range: ReturnType<typeof locateJsonPointer>): string {
+  const lines = text.split('\n');
+  if (range.startLineNumber !== range.endLineNumber) {
+    throw new Error('Expected a single-line range');
+  }
+  return lines[range.startLineNumber - 1]!.slice(range.startColumn - 1, range.endColumn - 1);
+}
+
+describe('diagnostics', () => {
+  // ==================== locateJsonPointer ====================
+
+  describe('locateJsonPointer', () => {
+    it('should cover primitive values', () => {
+      const range = locateJsonPointer(code, '/view/children/0/value/name');
+
+      const line = code.split('\n').findIndex((text) => text.includes('"missing"')) + 1;
+      expect(range.startLineNumber).toBe(line);
+      expect(textAt(code, range)).toBe('"missing"');
+    });
+
+    it('should cover the key of objects and arrays', () => {
+      expect(textAt(code, locateJsonPointer(code, '/state/count'))).toBe('"count"');
+      expect(textAt(code, locateJsonPointer(code, '/view/children'))).toBe('"children"');
+    });
+
+    it('should cover the opening bracket of array items', () => {
+      expect(textAt(code, locateJsonPointer(code, '/view/children/0'))).toBe('{');
+    });
+
+    it('should locate members in compact JSON', () => {
+      const compact = '{"a":[1,{"b~c/d":"x, \\"y\\""}],"e":true}';
+
+      expect(textAt(compact, locateJsonPointer(compact, '/a/1/b~0c~1d'))).toBe('"x, \\"y\\""');
+      expect(textAt(compact, locateJsonPointer(compact, '/e'))).toBe('true');
+    });
+
+    it('should fall back to the deepest existing member', () => {
+      expect(textAt(code, locateJsonPointer(code, '/view/children/0/value/missing'))).toBe(
+        '"value"',
+      );
+      expect(textAt(code, locateJsonPointer(code, '/view/tag/extra'))).toBe('"div"');
+    });
+
+    it('should point at the start of the document without a path', () => {
+      expect(locateJsonPointer(`\n  ${code}`, undefined)).toEqual({
+        startLineNumber: 2,
+        startColumn: 3,
+        endLineNumber: 2,
+        endColumn: 4,
+      });
+    });
+  });
+
+  // ==================== toDiagnostics ====================
+
+  describe('toDiagnostics', () => {
+    it('should locate a validateAst error', () => {
+      // Arrange
+      const invalid = JSON.stringify({ ...program, view: { kind: 'bogus' } }, null, 2);
+      const result = validateAst(JSON.parse(invalid));
+      if (result.ok) {
+        throw new Error('Expected a validation error');
+      }
+
+      // Act
+      const [diagnostic] = toDiagnostics(invalid, [result.error]);
+
+      // Assert
+      expect(diagnostic).toMatchObject({
+        code: 'SCHEMA_INVALID',
+        path: '/view/kind',
+        severity: 'error',
+      });
+      expect(textAt(invalid, diagnostic!)).toBe('"bogus"');
+    });
+
+    it('should locate compile errors', () => {
+      const result = compile(program);
+      if (result.ok) {
+        throw new Error('Expected compile errors');
+      }
+
+      const diagnostics = toDiagnostics(code, result.errors);
+
+      expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['UNDEFINED_STATE']);
+      expect(textAt(code, diagnostics[0]!)).toBe('"value"');
+    });
+  });
+
+  // ==================== Monaco ====================
+
+  describe('showDiagnostics', () => {
+    it('should set markers on the editor model', () => {
+      // Arrange
+      const model = {};
+      const setModelMarkers = vi.fn();
+      const monaco = {
+        MarkerSeverity: { Error: 8, Warning: 4, Info: 2 },
+        editor: { setModelMarkers },
+      } as unknown as typeof Monaco;
+      const editor = { getModel: () => model } as unknown as Monaco.editor.IStandaloneCodeEditor;
+      const diagnostic: Diagnostic = {
+        code: 'UNDEFINED_STATE',
+        message: 'Undefined state',
+        path: '/view',
+        severity: 'warning',
+        startLineNumber: 3,
+        startColumn: 5,
+        endLineNumber: 3,
+        endColumn: 11,
+      };
+
+      // Act
+      showDiagnostics(monaco, editor, [diagnostic]);
+
+      // Assert
+      expect(setModelMarkers).toHaveBeenCalledWith(model, DIAGNOSTICS_OWNER, [
+        {
+          code: 'UNDEFINED_STATE',
+          message: 'Undefined state',
+          severity: 4,
+          source: DIAGNOSTICS_OWNER,
+          startLineNumber: 3,
+          startColumn: 5,
+          endLineNumber: 3,
+          endColumn: 11,
+        },
+      ]);
+    });
+
+    it('should do nothing before Monaco has loaded', () => {
+      expect(() => showDiagnostics(null, null, [])).not.toThrow();
+    });
+  });
+
+  describe('revealDiagnostic', () => {
+    it('should select and reveal the range', () => {
+      // Arrange
+      const editor = {
+        setSelection: vi.fn(),
+        revealRangeInCenterIfOutsideViewport: vi.fn(),
+        focus: vi.fn(),
+      };
+      const range = { startLineNumber: 2, startColumn: 1, endLineNumber: 2, endColumn: 4 };
+
+      // Act
+      revealDiagnostic(editor as unknown as Monaco.editor.IStandaloneCodeEditor, range);
+
+      // Assert
+      expect(editor.setSelection).toHaveBeenCalledWith(range);
+      expect(editor.revealRangeInCenterIfOutsideViewport).toHaveBeenCalledWith(range);
+      expect(editor.focus).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Test suite for playground embeds on docs pages
+ *
+ * Coverage:
+ * - The route is asked for the packages once an embed scrolls into view
+ * - Activated embeds replace the static code with an editor and run it
+ * - Edits re-run the program; broken code keeps the last good render
+ * - "Open in full playground" links carry the edited program
+ * - Load failures are shown and disposing unmounts the embeds
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type * as Monaco from 'monaco-editor';
+import * as compiler from '@constela/compiler';
+import * as runtime from '@constela/runtime';
+import { waitFor } from '@testing-library/dom';
+import { AUTO_RUN_DELAY } from '../autorun';
+import { readSharedCode } from '../share';
+import { watchPlaygroundEmbeds } from '../embed';
+
+// ==================== Test Fixtures ====================
+
+const program = {
+  version: '1.0',
+  state: { label: { type: 'string', initial: 'Hello' } },
+  actions: [],
+  view: { kind: 'text', value: { expr: 'state', name: 'label' } },
+};
+
+/**
+ * Markup rendered by the Playground MDX component
+ */
+function renderEmbed(code: string): HTMLElement {
+  const embed = document.createElement('div');
+  embed.dataset['playground'] = 'embed';
+  embed.innerHTML = `
+    <a href="/playground" data-playground="link">Open in full playground</a>
+    <pre data-playground="fallback"><code data-playground="code"></code></pre>
+    <div data-playground="editor" hidden></div>
+    <div data-playground="preview"></div>
+    <p data-playground="message" hidden></p>`;
+  embed.querySelector('code')!.textContent = code;
+  document.body.append(embed);
+  return embed;
+}
+
+function part(embed: HTMLElement, name: string): HTMLElement {
+  return embed.querySelector<HTMLElement>(`[data-playground="${name}"]`)!;
+}
+
+class FakeIntersectionObserver {
+  static instances: FakeIntersectionObserver[] = [];
+  observed = new Set<Element>();
+
+  constructor(private readonly callback: IntersectionObserverCallback) {
+    FakeIntersectionObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.observed.add(element);
+  }
+
+  unobserve(element: Element) {
+    this.observed.delete(element);
+  }
+
+  disconnect() {
+    this.observed.clear();
+  }
+
+  /** Scroll elements into view */
+  show(...elements: Element[]) {
+    this.callback(
+      elements.map((target) => ({ target, isIntersecting: true }) as IntersectionObserverEntry),
+      this as unknown as IntersectionObserver,
+    );
+  }
+}
+
+function createFakeMonaco() {
+  const editors: {
+    value: string;
+    getValue(): string;
+    onDidChangeModelContent: ReturnType<typeof vi.fn>;
+    dispose: ReturnType<typeof vi.fn>;
+    type(value: string): void;
+  }[] = [];
+  const monaco = {
+    editor: {
+      setTheme: vi.fn(),
+      create: vi.fn((_host: HTMLElement, options: { value: string }) => {
+        const listeners: (() => void)[] = [];
+        const editor = {
+          value: options.value,
+          getValue: () => editor.value,
+          onDidChangeModelContent: vi.fn((listener: () => void) => {
+            listeners.push(listener);
+            return { dispose: vi.fn() };
+          }),
+          dispose: vi.fn(),
+          type(value: string) {
+            editor.value = value;
+            listeners.forEach((listener) => listener());
+          },
+        };
+        editors.push(editor);
+        return editor;
+      }),
+    },
+  };
+  return { monaco: monaco as unknown as typeof Monaco & typeof monaco, editors };
+}
+
+describe('embed', () => {
+  beforeEach(() => {
+    FakeIntersectionObserver.instances = [];
+    vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    document.body.replaceChildren();
+  });
+
+  // ==================== Lazy Loading ====================
+
+  it('should ask for the packages once an embed scrolls into view', async () => {
+    // Arrange
+    const first = renderEmbed(JSON.stringify(program));
+    const second = renderEmbed(JSON.stringify(program));
+    const embeds = watchPlaygroundEmbeds();
+    const listener = vi.fn();
+    embeds.onDidBecomeVisible(listener);
+    const [observer] = FakeIntersectionObserver.instances;
+
+    // Act
+    observer!.show(first);
+    observer!.show(second);
+
+    // Assert
+    expect(embeds.count).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(observer!.observed.size).toBe(0);
+
+    // Late listeners still hear about it
+    const late = vi.fn();
+    embeds.onDidBecomeVisible(late);
+    await Promise.resolve();
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not watch pages without embeds', () => {
+    const embeds = watchPlaygroundEmbeds();
+
+    expect(embeds.count).toBe(0);
+    expect(FakeIntersectionObserver.instances).toHaveLength(0);
+  });
+
+  // ==================== Mounting ====================
+
+  it('should replace the code with an editor and run it', async () => {
+    // Arrange
+    const embed = renderEmbed(JSON.stringify(program));
+    const { monaco } = createFakeMonaco();
+    const embeds = watchPlaygroundEmbeds();
+    FakeIntersectionObserver.instances[0]!.show(embed);
+
+    // Act
+    embeds.activate(monaco, compiler, runtime);
+
+    // Assert
+    expect(monaco.editor.create).toHaveBeenCalledWith(
+      part(embed, 'editor'),
+      expect.objectContaining({ value: JSON.stringify(program, null, 2), language: 'json' }),
+    );
+    expect(part(embed, 'fallback').hidden).toBe(true);
+    expect(part(embed, 'editor').hidden).toBe(false);
+    expect(part(embed, 'preview')).toHaveTextContent('Hello');
+    await waitFor(() => expect(part(embed, 'link').getAttribute('href')).toMatch(/#code=/));
+    const href = (part(embed, 'link') as HTMLAnchorElement).href;
+    expect(new URL(href).pathname).toBe('/playground');
+    expect(await readSharedCode(new URL(href).hash)).toBe(JSON.stringify(program, null, 2));
+  });
+
+  it('should mount embeds that scroll into view after activation', () => {
+    const first = renderEmbed(JSON.stringify(program));
+    const second = renderEmbed(JSON.stringify(program));
+    const { monaco } = createFakeMonaco();
+    const embeds = watchPlaygroundEmbeds();
+    const [observer] = FakeIntersectionObserver.instances;
+    observer!.show(first);
+    embeds.activate(monaco, compiler, runtime);
+    expect(monaco.editor.create).toHaveBeenCalledTimes(1);
+
+    observer!.show(second);
+
+    expect(monaco.editor.create).toHaveBeenCalledTimes(2);
+    expect(part(second, 'preview')).toHaveTextContent('Hello');
+  });
+
+  // ==================== Editing ====================
+
+  it('should re-run edits and keep the last good render', () => {
+    // Arrange
+    vi.useFakeTimers();
+    const embed = renderEmbed(JSON.stringify(program));
+    const { monaco, editors } = createFakeMonaco();
+    const embeds = watchPlaygroundEmbeds();
+    FakeIntersectionObserver.instances[0]!.show(embed);
+    embeds.activate(monaco, compiler, runtime);
+    const [editor] = editors;
+    const edited = { ...program, state: { label: { type: 'string', initial: 'Edited' } } };
+
+    // Act & Assert - a good edit
+    editor!.type(JSON.stringify(edited));
+    vi.advanceTimersByTime(AUTO_RUN_DELAY);
+    expect(part(embed, 'preview')).toHaveTextContent('Edited');
+
+    // Act & Assert - broken code
+    editor!.type('{ "version": ');
+    vi.advanceTimersByTime(AUTO_RUN_DELAY);
+    expect(part(embed, 'preview')).toHaveTextContent('Edited');
+    expect(part(embed, 'message')).toHaveTextContent('Invalid JSON syntax');
+    expect(part(embed, 'message').hidden).toBe(false);
+
+    // Act & Assert - fixed again
+    editor!.type(JSON.stringify(program));
+    vi.advanceTimersByTime(AUTO_RUN_DELAY);
+    expect(part(embed, 'preview')).toHaveTextContent('Hello');
+    expect(part(embed, 'message').hidden).toBe(true);
+  });
+
+  it('should show compile errors', () => {
+    const embed = renderEmbed(JSON.stringify({ ...program, view: { kind: 'bogus' } }));
+    const { monaco } = createFakeMonaco();
+    const embeds = watchPlaygroundEmbeds();
+    FakeIntersectionObserver.instances[0]!.show(embed);
+
+    embeds.activate(monaco, compiler, runtime);
+
+    expect(part(embed, 'message').hidden).toBe(false);
+    expect(part(embed, 'message').textContent).not.toBe('');
+    expect(part(embed, 'preview')).toBeEmptyDOMElement();
+  });
+
+  // ==================== Errors and Cleanup ====================
+
+  it('should show load failures in every embed', () => {
+    const embeds = [renderEmbed('{}'), renderEmbed('{}')];
+
+    watchPlaygroundEmbeds().showError('Failed to load the playground editor');
+
+    for (const embed of embeds) {
+      expect(part(embed, 'message')).toHaveTextContent('Failed to load the playground editor');
+      expect(part(embed, 'message').hidden).toBe(false);
+    }
+  });
+
+  it('should unmount the embeds on dispose', () => {
+    // Arrange
+    const embed = renderEmbed(JSON.stringify(program));
+    const { monaco, editors } = createFakeMonaco();
+    const embeds = watchPlaygroundEmbeds();
+    const [observer] = FakeIntersectionObserver.instances;
+    observer!.show(embed);
+    embeds.activate(monaco, compiler, runtime);
+
+    // Act
+    embeds.dispose();
+
+    // Assert
+    expect(editors[0]!.dispose).toHaveBeenCalled();
+    expect(part(embed, 'preview')).toBeEmptyDOMElement();
+    expect(observer!.observed.size).toBe(0);
+  });
+});
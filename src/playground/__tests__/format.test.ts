@@ -0,0 +1,226 @@
+/**
+ * Test suite for the playground format commands
+ *
+ * Coverage:
+ * - Programs are pretty-printed like examples.json codeStrings
+ * - Keys are sorted into the order the examples use
+ * - JSON5-style and quoted input is converted to strict JSON
+ * - Editor commands apply as one undoable edit and report failures
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type * as Monaco from 'monaco-editor';
+import {
+  createFormatCommands,
+  formatProgramCode,
+  sortProgramKeys,
+  toStrictJson,
+} from '../format';
+import { examples } from '../../test-utils/playground-actions';
+
+// ==================== Test Fixtures ====================
+
+function createFakeEditor(value: string) {
+  const model = {
+    value,
+    getValue: () => model.value,
+    getFullModelRange: () => ({ startLineNumber: 1 }),
+  };
+  const actions: { id: string; run: () => void; dispose: ReturnType<typeof vi.fn> }[] = [];
+  const editor = {
+    getModel: () => model,
+    pushUndoStop: vi.fn(),
+    executeEdits: vi.fn((_source: string, edits: { text: string }[]) => {
+      model.value = edits[0]!.text;
+      return true;
+    }),
+    addAction: vi.fn((descriptor: { id: string; run: () => void }) => {
+      const action = { ...descriptor, dispose: vi.fn() };
+      actions.push(action);
+      return action;
+    }),
+  };
+  const monaco = {
+    KeyMod: { CtrlCmd: 2048, Shift: 1024, Alt: 512 },
+    KeyCode: { KeyF: 36, KeyS: 49, KeyJ: 40 },
+  };
+  return {
+    monaco: monaco as unknown as typeof Monaco,
+    editor: editor as unknown as Monaco.editor.IStandaloneCodeEditor & typeof editor,
+    model,
+    actions,
+  };
+}
+
+describe('format', () => {
+  // ==================== formatProgramCode ====================
+
+  describe('formatProgramCode', () => {
+    it('should print programs like the examples', () => {
+      const code = examples.codeStrings.counter!;
+
+      expect(formatProgramCode(JSON.stringify(JSON.parse(code)))).toBe(code);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => formatProgramCode('{ version: "1.0" }')).toThrow(SyntaxError);
+    });
+  });
+
+  // ==================== sortProgramKeys ====================
+
+  describe('sortProgramKeys', () => {
+    it('should put top-level keys in canonical order', () => {
+      const code = JSON.stringify({ view: {}, actions: [], custom: 1, state: {}, version: '1.0' });
+
+      expect(Object.keys(JSON.parse(sortProgramKeys(code)))).toEqual([
+        'version',
+        'state',
+        'actions',
+        'view',
+        'custom',
+      ]);
+    });
+
+    it('should put kind, expr and do first in nested objects', () => {
+      const code = JSON.stringify({
+        view: { children: [], tag: 'div', kind: 'element' },
+        actions: [{ name: 'a', steps: [{ target: 'count', do: 'set', value: { value: 1, expr: 'lit' } }] }],
+      });
+
+      const sorted = JSON.parse(sortProgramKeys(code));
+
+      expect(Object.keys(sorted.view)).toEqual(['kind', 'children', 'tag']);
+      expect(Object.keys(sorted.actions[0].steps[0])).toEqual(['do', 'target', 'value']);
+      expect(Object.keys(sorted.actions[0].steps[0].value)).toEqual(['expr', 'value']);
+    });
+
+    it('should keep examples as they are', () => {
+      for (const code of Object.values(examples.codeStrings)) {
+        expect(sortProgramKeys(code)).toBe(code);
+      }
+    });
+  });
+
+  // ==================== toStrictJson ====================
+
+  describe('toStrictJson', () => {
+    it('should convert JSON5-style input', () => {
+      const code = `{
+        // A comment
+        version: '1.0',
+        state: { count: { type: "number", initial: -0x10, }, },
+        /* trailing commas */
+        actions: [],
+        view: { kind: 'text', value: { expr: 'lit', value: 'It\\'s\\nhere' } },
+      }`;
+
+      expect(JSON.parse(toStrictJson(code))).toEqual({
+        version: '1.0',
+        state: { count: { type: 'number', initial: -16 } },
+        actions: [],
+        view: { kind: 'text', value: { expr: 'lit', value: "It's\nhere" } },
+      });
+    });
+
+    it('should unquote a codeStrings entry', () => {
+      const code = examples.codeStrings.counter!;
+
+      expect(toStrictJson(JSON.stringify(code))).toBe(code);
+    });
+
+    it('should keep "__proto__" keys as data', () => {
+      const result = JSON.parse(toStrictJson('{ "__proto__": { polluted: true } }'));
+
+      expect(Object.keys(result)).toEqual(['__proto__']);
+      expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+    });
+
+    it('should report where the input is broken', () => {
+      expect(() => toStrictJson('{\n  version: "1.0"\n  state: {}\n}')).toThrow(
+        'Expected "," or "}" at line 3, column 3',
+      );
+      expect(() => toStrictJson("{ a: 'open }")).toThrow('Unterminated string');
+      expect(() => toStrictJson('{ a: undefined }')).toThrow('Unexpected "undefined"');
+    });
+  });
+
+  // ==================== createFormatCommands ====================
+
+  describe('createFormatCommands', () => {
+    it('should register editor actions with keybindings', () => {
+      const { monaco, editor } = createFakeEditor('{}');
+
+      createFormatCommands(monaco, editor);
+
+      expect(editor.addAction.mock.calls.map(([action]) => action.id)).toEqual([
+        'constela.format',
+        'constela.sortKeys',
+        'constela.toStrictJson',
+      ]);
+      expect(editor.addAction).toHaveBeenCalledWith(
+        expect.objectContaining({ keybindings: [2048 | 1024 | 512 | 36] }),
+      );
+    });
+
+    it("should not take over Monaco's Format Document shortcut", () => {
+      const { monaco, editor } = createFakeEditor('{}');
+
+      createFormatCommands(monaco, editor);
+
+      const keybindings = editor.addAction.mock.calls.flatMap(
+        ([action]) => (action as { keybindings?: number[] }).keybindings ?? [],
+      );
+      // Shift+Alt+F
+      expect(keybindings).not.toContain(1024 | 512 | 36);
+    });
+
+    it('should apply a command as one undoable edit', () => {
+      // Arrange
+      const { monaco, editor, model, actions } = createFakeEditor("{ version: '1.0' }");
+      createFormatCommands(monaco, editor);
+
+      // Act
+      actions.find((action) => action.id === 'constela.toStrictJson')!.run();
+
+      // Assert
+      expect(model.value).toBe('{\n  "version": "1.0"\n}');
+      expect(editor.executeEdits).toHaveBeenCalledTimes(1);
+      expect(editor.pushUndoStop).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave formatted code and unknown commands alone', () => {
+      const { monaco, editor } = createFakeEditor('{\n  "version": "1.0"\n}');
+      const commands = createFormatCommands(monaco, editor);
+
+      commands.run('format');
+      commands.run('toString');
+
+      expect(editor.executeEdits).not.toHaveBeenCalled();
+    });
+
+    it('should report failures', () => {
+      // Arrange
+      const { monaco, editor, model } = createFakeEditor('{ version: ');
+      const commands = createFormatCommands(monaco, editor);
+      const listener = vi.fn();
+      commands.onDidFail(listener);
+
+      // Act
+      commands.run('format');
+
+      // Assert
+      expect(listener).toHaveBeenCalledWith(expect.any(SyntaxError));
+      expect(model.value).toBe('{ version: ');
+    });
+
+    it('should remove the editor actions on dispose', () => {
+      const { monaco, editor, actions } = createFakeEditor('{}');
+      const commands = createFormatCommands(monaco, editor);
+
+      commands.dispose();
+
+      expect(actions.every((action) => action.dispose.mock.calls.length === 1)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Test suite for the playground state inspector
+ *
+ * Coverage:
+ * - Dispatched actions are logged with the state fields they changed
+ * - Actions run on mount are logged
+ * - State is shown as a tree of rows
+ * - Time travel restores earlier state without logging it
+ * - Disposed inspectors stop following the app
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { compile, type CompiledProgram } from '@constela/compiler';
+import { createApp, type AppInstance } from '@constela/runtime';
+import { fireEvent, screen, waitFor } from '@testing-library/dom';
+import { INSPECTOR_STATE, createInspector, type Inspection } from '../inspector';
+
+// ==================== Test Fixtures ====================
+
+const counter = {
+  version: '1.0',
+  state: {
+    count: { type: 'number', initial: 0 },
+    todos: { type: 'list', initial: [{ text: 'Write tests', done: false }] },
+  },
+  actions: [
+    { name: 'increment', steps: [{ do: 'update', target: 'count', operation: 'increment' }] },
+    { name: 'load', steps: [{ do: 'set', target: 'count', value: { expr: 'lit', value: 10 } }] },
+  ],
+  view: {
+    kind: 'element',
+    tag: 'button',
+    props: { onClick: { event: 'click', action: 'increment' } },
+    children: [{ kind: 'text', value: { expr: 'state', name: 'count' } }],
+  },
+};
+
+function compileProgram(program: unknown): CompiledProgram {
+  const result = compile(program);
+  if (!result.ok) {
+    throw new Error(result.errors.map((error) => error.message).join('\n'));
+  }
+  return result.program;
+}
+
+describe('inspector', () => {
+  let app: AppInstance | undefined;
+  let container: HTMLElement | undefined;
+
+  function mount(program: unknown) {
+    const inspector = createInspector(compileProgram(program));
+    container = document.createElement('div');
+    document.body.append(container);
+    app = createApp(inspector.program, container);
+    const updates: Inspection[] = [];
+    inspector.onDidChange((inspection) => updates.push(inspection));
+    return { inspector, initial: inspector.attach(app), updates };
+  }
+
+  afterEach(() => {
+    app?.destroy();
+    container?.remove();
+    app = undefined;
+    container = undefined;
+  });
+
+  // ==================== Action Log ====================
+
+  it('should log dispatched actions with their changes', async () => {
+    // Arrange
+    const { initial, updates } = mount(counter);
+
+    // Act
+    fireEvent.click(screen.getByRole('button', { name: '0' }));
+    fireEvent.click(await screen.findByRole('button', { name: '1' }));
+    await screen.findByRole('button', { name: '2' });
+
+    // Assert
+    expect(initial.log).toEqual([]);
+    expect(initial.current).toBe(-1);
+    const last = updates.at(-1)!;
+    expect(last.log).toEqual([
+      { index: 0, action: 'increment', changes: [{ name: 'count', before: '0', after: '1' }] },
+      { index: 1, action: 'increment', changes: [{ name: 'count', before: '1', after: '2' }] },
+    ]);
+    expect(last.current).toBe(1);
+  });
+
+  it('should log actions run on mount', async () => {
+    const { inspector } = mount({ ...counter, lifecycle: { onMount: 'load' } });
+    let inspection: Inspection | undefined;
+    inspector.onDidChange((next) => (inspection = next));
+
+    await screen.findByRole('button', { name: '10' });
+    fireEvent.click(screen.getByRole('button', { name: '10' }));
+
+    await waitFor(() => expect(inspection?.log.map((entry) => entry.action)).toEqual(['load', 'increment']));
+    expect(inspection!.log[0]!.changes).toEqual([{ name: 'count', before: '0', after: '10' }]);
+  });
+
+  // ==================== State Tree ====================
+
+  it('should show state as a tree without the inspector field', () => {
+    const { initial } = mount(counter);
+
+    expect(initial.rows).toEqual([
+      { key: 'count', label: 'count', depth: 0, preview: '0' },
+      { key: 'todos', label: 'todos', depth: 0, preview: 'Array(1)' },
+      { key: 'todos[0]', label: '0', depth: 1, preview: 'Object(2)' },
+      { key: 'todos[0].text', label: 'text', depth: 2, preview: '"Write tests"' },
+      { key: 'todos[0].done', label: 'done', depth: 2, preview: 'false' },
+    ]);
+    expect(initial.rows.map((row) => row.key)).not.toContain(INSPECTOR_STATE);
+  });
+
+  // ==================== Time Travel ====================
+
+  it('should travel to earlier state without logging it', async () => {
+    // Arrange
+    const { inspector, updates } = mount(counter);
+    fireEvent.click(screen.getByRole('button', { name: '0' }));
+    fireEvent.click(await screen.findByRole('button', { name: '1' }));
+    await screen.findByRole('button', { name: '2' });
+
+    // Act
+    inspector.travelTo(0);
+
+    // Assert
+    expect(app!.getState('count')).toBe(1);
+    await screen.findByRole('button', { name: '1' });
+    expect(updates.at(-1)!.current).toBe(0);
+    expect(updates.at(-1)!.log).toHaveLength(2);
+
+    // Act & Assert - back to the initial state
+    inspector.travelTo(-1);
+    expect(app!.getState('count')).toBe(0);
+    expect(updates.at(-1)!.current).toBe(-1);
+  });
+
+  it('should stop following a disposed app', async () => {
+    const { inspector, updates } = mount(counter);
+    inspector.dispose();
+
+    fireEvent.click(screen.getByRole('button', { name: '0' }));
+    await screen.findByRole('button', { name: '1' });
+
+    expect(updates).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Test suite for the playground output panel
+ *
+ * Coverage:
+ * - The panel mounts a read-only editor and diff editor over shared models
+ * - Runs update the AST and compiled models
+ * - Tabs switch between the models and the diff
+ * - Disposing releases the editors and models
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type * as Monaco from 'monaco-editor';
+import { createOutputPanel } from '../output';
+
+// ==================== Test Fixtures ====================
+
+interface FakeModel {
+  value: string;
+  setValue(value: string): void;
+  dispose: ReturnType<typeof vi.fn>;
+}
+
+function createFakeMonaco() {
+  const models: FakeModel[] = [];
+  const view = { setModel: vi.fn(), dispose: vi.fn() };
+  const diff = { setModel: vi.fn(), dispose: vi.fn() };
+  const monaco = {
+    editor: {
+      createModel: vi.fn((value: string) => {
+        const model: FakeModel = {
+          value,
+          setValue(next) {
+            model.value = next;
+          },
+          dispose: vi.fn(),
+        };
+        models.push(model);
+        return model;
+      }),
+      create: vi.fn(() => view),
+      createDiffEditor: vi.fn(() => diff),
+    },
+  };
+  return { monaco: monaco as unknown as typeof Monaco, models, view, diff };
+}
+
+describe('output', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.append(document.createElement('p'));
+  });
+
+  it('should mount a read-only editor and diff editor', () => {
+    // Arrange
+    const { monaco, models, diff } = createFakeMonaco();
+
+    // Act
+    createOutputPanel(monaco, container, 'compiled');
+
+    // Assert
+    const [astModel, compiledModel] = models;
+    expect(container.children).toHaveLength(2);
+    expect(monaco.editor.create).toHaveBeenCalledWith(
+      container.children[0],
+      expect.objectContaining({ readOnly: true, model: compiledModel }),
+    );
+    expect(diff.setModel).toHaveBeenCalledWith({ original: astModel, modified: compiledModel });
+  });
+
+  it('should show the AST and compiled program of a run', () => {
+    const { monaco, models } = createFakeMonaco();
+    const panel = createOutputPanel(monaco, container, 'ast');
+
+    panel.update({ version: '1.0' }, { version: '1.0', actions: {} });
+
+    expect(models.map((model) => model.value)).toEqual([
+      '{\n  "version": "1.0"\n}',
+      '{\n  "version": "1.0",\n  "actions": {}\n}',
+    ]);
+  });
+
+  it('should switch tabs', () => {
+    // Arrange
+    const { monaco, models, view } = createFakeMonaco();
+    const panel = createOutputPanel(monaco, container, 'ast');
+    const [viewHost, diffHost] = [...container.children] as HTMLElement[];
+
+    // Assert - initial tab
+    expect(view.setModel).toHaveBeenLastCalledWith(models[0]);
+    expect(diffHost!.style.display).toBe('none');
+
+    // Act & Assert - diff
+    panel.setTab('diff');
+    expect(viewHost!.style.display).toBe('none');
+    expect(diffHost!.style.display).toBe('');
+
+    // Act & Assert - unknown tabs fall back to the compiled program
+    panel.setTab('bogus');
+    expect(view.setModel).toHaveBeenLastCalledWith(models[1]);
+    expect(viewHost!.style.display).toBe('');
+  });
+
+  it('should release the editors and models', () => {
+    const { monaco, models, view, diff } = createFakeMonaco();
+    const panel = createOutputPanel(monaco, container, 'compiled');
+
+    panel.dispose();
+
+    expect(view.dispose).toHaveBeenCalled();
+    expect(diff.dispose).toHaveBeenCalled();
+    expect(models.every((model) => model.dispose.mock.calls.length === 1)).toBe(true);
+    expect(container.children).toHaveLength(0);
+  });
+});
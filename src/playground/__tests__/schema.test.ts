@@ -0,0 +1,148 @@
+/**
+ * Test suite for the playground editor schema
+ *
+ * Coverage:
+ * - Every kind astSchema models has reference documentation
+ * - Reference headings exist on the /reference pages
+ * - Kinds are documented with links, and unmodelled kinds are added
+ * - The schema is registered for the editor's model only
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { astSchema } from '@constela/core';
+import type * as Monaco from 'monaco-editor';
+import { KIND_REFERENCE, createProgramSchema, registerProgramSchema } from '../schema';
+
+type Definitions = Record<
+  string,
+  { oneOf?: { $ref: string }[]; properties?: Record<string, Record<string, unknown>> }
+>;
+
+const UNIONS = { expr: 'Expression', do: 'ActionStep', kind: 'ViewNode' } as const;
+
+/**
+ * The kinds a union offers, with the schema of their kind property
+ */
+function kindsOf(
+  defs: Definitions,
+  group: keyof typeof UNIONS,
+): Map<string, Record<string, unknown>> {
+  return new Map(
+    defs[UNIONS[group]]!.oneOf!.map(({ $ref }) => {
+      const property = defs[$ref.replace('#/$defs/', '')]!.properties![group]!;
+      return [property.const as string, property];
+    }),
+  );
+}
+
+describe('schema', () => {
+  // ==================== KIND_REFERENCE ====================
+
+  describe('KIND_REFERENCE', () => {
+    const defs = astSchema.$defs as unknown as Definitions;
+
+    it.each(Object.keys(UNIONS) as (keyof typeof UNIONS)[])(
+      'should document every "%s" kind astSchema models',
+      (group) => {
+        const undocumented = [...kindsOf(defs, group).keys()].filter(
+          (kind) => !(kind in KIND_REFERENCE[group]),
+        );
+        expect(undocumented).toEqual([]);
+      },
+    );
+
+    it('should name headings that exist on the reference pages', () => {
+      const missing = Object.values(KIND_REFERENCE)
+        .flatMap((kinds) => Object.values(kinds))
+        .filter(({ page, heading }) => {
+          if (heading === undefined) {
+            return false;
+          }
+          const content = readFileSync(
+            join(__dirname, '../../content/reference', `${page}.mdx`),
+            'utf-8',
+          );
+          return !content.split('\n').includes(`## ${heading}`);
+        })
+        .map(({ page, heading }) => `${page}: ${heading}`);
+
+      expect(missing).toEqual([]);
+    });
+  });
+
+  // ==================== createProgramSchema ====================
+
+  describe('createProgramSchema', () => {
+    const schema = createProgramSchema(astSchema, 'https://constela.dev');
+    const defs = schema.$defs as Definitions;
+
+    it('should document modelled kinds with a reference link', () => {
+      expect(kindsOf(defs, 'do').get('set')).toMatchObject({
+        const: 'set',
+        description: 'Sets a state field.',
+        markdownDescription:
+          'Sets a state field.\n\n[Set Step](https://constela.dev/reference/actions)',
+      });
+    });
+
+    it('should offer every documented kind', () => {
+      for (const group of Object.keys(UNIONS) as (keyof typeof UNIONS)[]) {
+        expect([...kindsOf(defs, group).keys()].sort()).toEqual(
+          Object.keys(KIND_REFERENCE[group]).sort(),
+        );
+      }
+      expect(kindsOf(defs, 'expr').get('call')).toMatchObject({
+        markdownDescription: expect.stringContaining('/reference/expressions'),
+      });
+    });
+
+    it('should not offer page-only kinds', () => {
+      expect(kindsOf(defs, 'kind').has('island')).toBe(false);
+    });
+
+    it('should keep if steps and if nodes apart', () => {
+      expect(kindsOf(defs, 'do').get('if')!.description).toBe('Runs steps conditionally.');
+      expect(kindsOf(defs, 'kind').get('if')!.description).toBe('Renders a branch conditionally.');
+    });
+
+    it('should leave astSchema unchanged', () => {
+      const original = astSchema.$defs as unknown as Definitions;
+      expect(original.SetStep!.properties!.do).toEqual({ type: 'string', const: 'set' });
+      expect(kindsOf(original, 'do').has('storage')).toBe(false);
+    });
+  });
+
+  // ==================== registerProgramSchema ====================
+
+  describe('registerProgramSchema', () => {
+    it("should register the schema for the editor's model", () => {
+      // Arrange
+      const setDiagnosticsOptions = vi.fn();
+      const monaco = {
+        languages: { json: { jsonDefaults: { setDiagnosticsOptions } } },
+      } as unknown as typeof Monaco;
+      const editor = {
+        getModel: () => ({ uri: { toString: () => 'inmemory://model/1' } }),
+      } as unknown as Monaco.editor.IStandaloneCodeEditor;
+
+      // Act
+      registerProgramSchema(monaco, editor, astSchema);
+
+      // Assert
+      expect(setDiagnosticsOptions).toHaveBeenCalledWith({
+        validate: true,
+        schemaValidation: 'ignore',
+        enableSchemaRequest: false,
+        schemas: [
+          {
+            uri: astSchema.$id,
+            fileMatch: ['inmemory://model/1'],
+            schema: createProgramSchema(astSchema),
+          },
+        ],
+      });
+    });
+  });
+});
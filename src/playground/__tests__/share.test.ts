@@ -0,0 +1,148 @@
+/**
+ * Test suite for playground share links
+ *
+ * Coverage:
+ * - Programs round-trip through encodeSharedCode / decodeSharedCode
+ * - Share links replace the query and fragment of the page URL
+ * - readSharedCode reads "#code=" fragments and ignores others
+ * - consumeSharedCode removes the fragment from the address bar
+ * - Oversized and corrupt payloads are rejected with clear errors
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  MAX_SHARE_PAYLOAD_LENGTH,
+  MAX_SHARED_CODE_BYTES,
+  consumeSharedCode,
+  createShareLink,
+  decodeSharedCode,
+  encodeSharedCode,
+  readSharedCode,
+  shareProgram,
+} from '../share';
+
+// ==================== Test Fixtures ====================
+
+const program = JSON.stringify(
+  {
+    version: '1.0',
+    state: { label: { type: 'string', initial: 'Price: ¥100 ✓' } },
+    actions: [],
+    view: { kind: 'text', value: { expr: 'state', name: 'label' } },
+  },
+  null,
+  2,
+);
+
+describe('share', () => {
+  afterEach(() => {
+    history.replaceState(null, '', '/');
+  });
+
+  // ==================== Encoding ====================
+
+  describe('encodeSharedCode / decodeSharedCode', () => {
+    it('should round-trip a program, including non-ASCII text', async () => {
+      // Act
+      const payload = await encodeSharedCode(program);
+
+      // Assert
+      expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(payload.length).toBeLessThan(program.length);
+      expect(await decodeSharedCode(payload)).toBe(program);
+    });
+
+    it('should refuse to encode a program too large for a link', async () => {
+      // Random digits barely compress
+      const code = Array.from({ length: 60_000 }, () => Math.floor(Math.random() * 10)).join('');
+
+      await expect(encodeSharedCode(code)).rejects.toThrow('too large to share');
+    });
+
+    it('should reject an over-long payload before decoding', async () => {
+      await expect(decodeSharedCode('a'.repeat(MAX_SHARE_PAYLOAD_LENGTH + 1))).rejects.toThrow(
+        'Share link is too long',
+      );
+    });
+
+    it('should reject a payload that inflates past the size guard', async () => {
+      // Arrange: highly repetitive text compresses to a short payload
+      const payload = await encodeSharedCode(' '.repeat(MAX_SHARED_CODE_BYTES + 1));
+
+      // Act & Assert
+      await expect(decodeSharedCode(payload)).rejects.toThrow(
+        `Shared program is larger than ${MAX_SHARED_CODE_BYTES} bytes`,
+      );
+    });
+
+    it('should report corrupt payloads', async () => {
+      await expect(decodeSharedCode('not base64!')).rejects.toThrow(
+        'Share link is corrupt: unexpected characters',
+      );
+      await expect(decodeSharedCode('bm90LWRlZmxhdGU')).rejects.toThrow(
+        'Share link is corrupt: the encoded program could not be decompressed',
+      );
+    });
+  });
+
+  // ==================== Links ====================
+
+  describe('createShareLink', () => {
+    it('should replace the query and fragment of the page URL', async () => {
+      // Act
+      const link = await createShareLink(
+        program,
+        'https://constela.dev/playground?example=counter#old',
+      );
+
+      // Assert
+      const url = new URL(link);
+      expect(url.origin + url.pathname).toBe('https://constela.dev/playground');
+      expect(url.search).toBe('');
+      expect(url.hash).toMatch(/^#code=/);
+      expect(await readSharedCode(url.hash)).toBe(program);
+    });
+  });
+
+  describe('shareProgram', () => {
+    it('should put the share link in the address bar', async () => {
+      // Act
+      const link = await shareProgram(program);
+
+      // Assert
+      expect(location.href).toBe(link);
+      expect(await readSharedCode()).toBe(program);
+    });
+  });
+
+  describe('readSharedCode', () => {
+    it('should return null without a code fragment', async () => {
+      expect(await readSharedCode('')).toBeNull();
+      expect(await readSharedCode('#section')).toBeNull();
+    });
+  });
+
+  describe('consumeSharedCode', () => {
+    it('should return the shared program and clear the fragment', async () => {
+      // Arrange
+      await shareProgram(program);
+      history.replaceState(null, '', `/playground?example=counter${location.hash}`);
+
+      // Act
+      const code = await consumeSharedCode();
+
+      // Assert
+      expect(code).toBe(program);
+      expect(location.pathname + location.search + location.hash).toBe(
+        '/playground?example=counter',
+      );
+    });
+
+    it('should leave other fragments alone', async () => {
+      history.replaceState(null, '', '/playground#section');
+
+      expect(await consumeSharedCode()).toBeNull();
+      expect(location.hash).toBe('#section');
+    });
+  });
+});
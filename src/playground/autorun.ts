@@ -0,0 +1,61 @@
+/**
+ * Playground auto-run.
+ * Actions can't dispatch other actions, so the route subscribes its
+ * "run" action to the runner's onDidFire event and schedules the runner
+ * on every edit:
+ *   { "do": "subscribe", "target": { "expr": "state", "name": "autoRunner" },
+ *     "event": "onDidFire", "action": "run" }
+ * "run" compiles (and so validates) the program before it touches the
+ * mounted app, so the last good render stays up while the code is broken.
+ */
+
+/**
+ * Quiet time after the last edit before the program runs
+ */
+export const AUTO_RUN_DELAY = 500;
+
+/**
+ * Debounced trigger for the run action
+ */
+export interface AutoRunner {
+  /** Fire once edits have stopped for the delay */
+  schedule(): void;
+  /** Drop a pending run */
+  cancel(): void;
+  /** Monaco-style event, fired when a scheduled run is due */
+  onDidFire(listener: () => void): { dispose(): void };
+  dispose(): void;
+}
+
+/**
+ * Create an auto-runner
+ * @param delay - Milliseconds to wait after the last schedule() call
+ */
+export function createAutoRunner(delay: number = AUTO_RUN_DELAY): AutoRunner {
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const cancel = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  return {
+    schedule() {
+      cancel();
+      timer = setTimeout(() => {
+        timer = undefined;
+        listeners.forEach((listener) => listener());
+      }, delay);
+    },
+    cancel,
+    onDidFire(listener) {
+      listeners.add(listener);
+      return { dispose: () => listeners.delete(listener) };
+    },
+    dispose() {
+      cancel();
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Playground diagnostics.
+ * @constela/core and @constela/compiler report errors with a JSON
+ * pointer into the program (e.g. "/view/children/0/kind"). The pointer is
+ * mapped back to a range in the editor text, so errors can be shown as
+ * Monaco markers and revealed from the error list.
+ */
+
+import type * as Monaco from 'monaco-editor';
+import { findJsonValue } from '../lib/json-scan';
+import type { JsonMemberRange, JsonValueRange } from '../lib/json-scan';
+
+/**
+ * Marker owner for Constela diagnostics on the editor model
+ */
+export const DIAGNOSTICS_OWNER = 'constela';
+
+/**
+ * A 1-based range in the editor text (Monaco IRange fields)
+ */
+export interface SourceRange {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+/**
+ * An error as reported by validateAst or compile
+ */
+export interface ConstelaErrorLike {
+  code?: string;
+  message: string;
+  path?: string;
+  severity?: 'error' | 'warning' | 'info';
+}
+
+/**
+ * An error located in the editor text
+ */
+export interface Diagnostic extends SourceRange {
+  code: string;
+  message: string;
+  path: string;
+  severity: 'error' | 'warning' | 'info';
+}
+
+function toPosition(text: string, offset: number): { lineNumber: number; column: number } {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    lineNumber: before.split('\n').length,
+    column: offset - lineStart + 1,
+  };
+}
+
+/**
+ * Locate a JSON pointer in JSON text
+ * The deepest existing member is used when the pointer goes further than
+ * the text (error paths may end in a name rather than a key). Primitive
+ * values are covered whole; objects and arrays by their key, or their
+ * opening bracket when they have none.
+ * @param text - Valid JSON text
+ * @param pointer - JSON pointer like "/view/children/0"; empty or
+ *   undefined for the whole document
+ */
+export function locateJsonPointer(text: string, pointer: string | undefined): SourceRange {
+  const segments = (pointer ?? '')
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let range: JsonValueRange | JsonMemberRange | null = null;
+  for (let depth = segments.length; range === null; depth--) {
+    range = findJsonValue(text, segments.slice(0, depth));
+  }
+
+  const isContainer = text[range.start] === '{' || text[range.start] === '[';
+  let start = range.start;
+  let end = range.end;
+  if (isContainer && 'keyStart' in range) {
+    start = range.keyStart;
+    end = range.keyEnd;
+  } else if (isContainer) {
+    end = start + 1;
+  }
+
+  const from = toPosition(text, start);
+  const to = toPosition(text, end);
+  return {
+    startLineNumber: from.lineNumber,
+    startColumn: from.column,
+    endLineNumber: to.lineNumber,
+    endColumn: to.column,
+  };
+}
+
+/**
+ * Locate validateAst / compile errors in the editor text
+ * @param code - Editor contents the errors were reported for
+ * @param errors - Errors (validateAst's error, compile's errors)
+ */
+export function toDiagnostics(code: string, errors: ConstelaErrorLike[]): Diagnostic[] {
+  return errors.map((error) => ({
+    code: error.code ?? 'ERROR',
+    message: error.message,
+    path: error.path ?? '',
+    severity: error.severity ?? 'error',
+    ...locateJsonPointer(code, error.path),
+  }));
+}
+
+/**
+ * Replace the Constela markers on the editor model; does nothing before
+ * Monaco has loaded
+ */
+export function showDiagnostics(
+  monaco: typeof Monaco | null,
+  editor: Monaco.editor.IStandaloneCodeEditor | null,
+  diagnostics: Diagnostic[],
+): void {
+  const model = editor?.getModel();
+  if (!monaco || !model) {
+    return;
+  }
+  const severities = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+  };
+  monaco.editor.setModelMarkers(
+    model,
+    DIAGNOSTICS_OWNER,
+    diagnostics.map(({ code, message, severity, path: _path, ...range }) => ({
+      ...range,
+      code,
+      message,
+      severity: severities[severity],
+      source: DIAGNOSTICS_OWNER,
+    })),
+  );
+}
+
+/**
+ * Select a diagnostic's range in the editor and scroll it into view
+ */
+export function revealDiagnostic(
+  editor: Monaco.editor.IStandaloneCodeEditor | null,
+  diagnostic: SourceRange,
+): void {
+  if (!editor) {
+    return;
+  }
+  const { startLineNumber, startColumn, endLineNumber, endColumn } = diagnostic;
+  const range = { startLineNumber, startColumn, endLineNumber, endColumn };
+  editor.setSelection(range);
+  editor.revealRangeInCenterIfOutsideViewport(range);
+  editor.focus();
+}
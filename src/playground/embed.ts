@@ -0,0 +1,264 @@
+/**
+ * Playground embeds for docs pages.
+ * The MDX <Playground> component (src/data/mdx-components.json) renders
+ * its code as a static block, with empty editor and preview hosts, all
+ * marked with data-playground attributes. Docs routes watch the page:
+ * once an embed scrolls into view, onDidBecomeVisible asks the route to
+ * load Monaco, the compiler and the runtime, which it hands back to
+ * activate(). The helpers bundle can't import those packages itself.
+ */
+
+import type * as Monaco from 'monaco-editor';
+import type { compile } from '@constela/compiler';
+import type { AppInstance, createApp } from '@constela/runtime';
+import { createAutoRunner } from './autorun';
+import { createShareLink } from './share';
+
+/**
+ * Selector of embed roots
+ */
+export const EMBED_SELECTOR = '[data-playground="embed"]';
+
+/**
+ * Path of the full playground, opened by "Open in full playground"
+ */
+export const PLAYGROUND_PATH = '/playground';
+
+/**
+ * Distance below the viewport at which embeds start loading
+ */
+const VISIBLE_MARGIN = '200px';
+
+const EDITOR_OPTIONS = {
+  language: 'json',
+  automaticLayout: true,
+  minimap: { enabled: false },
+  fontSize: 13,
+  lineNumbers: 'off',
+  scrollBeyondLastLine: false,
+} as const;
+
+/**
+ * Embeds on a docs page
+ */
+export interface PlaygroundEmbeds {
+  /** Number of embeds on the page */
+  readonly count: number;
+  /** Monaco-style event, fired once when the first embed scrolls into view */
+  onDidBecomeVisible(listener: () => void): { dispose(): void };
+  /**
+   * Mount the embeds in view with the loaded packages; the others mount
+   * as they scroll into view
+   */
+  activate(
+    monaco: typeof Monaco,
+    compiler: { compile: typeof compile },
+    runtime: { createApp: typeof createApp },
+  ): void;
+  /** Show a message in every embed, e.g. when the packages fail to load */
+  showError(message: string): void;
+  dispose(): void;
+}
+
+interface EmbedModules {
+  monaco: typeof Monaco;
+  compile: typeof compile;
+  createApp: typeof createApp;
+}
+
+function part<T extends HTMLElement = HTMLElement>(embed: HTMLElement, name: string): T | null {
+  return embed.querySelector<T>(`[data-playground="${name}"]`);
+}
+
+function showMessage(embed: HTMLElement, text: string): void {
+  const message = part(embed, 'message');
+  if (message) {
+    message.textContent = text;
+    message.hidden = text === '';
+  }
+}
+
+function editorTheme(): string {
+  return document.documentElement.classList.contains('dark') ? 'vs-dark' : 'vs';
+}
+
+/**
+ * Pretty-print the embed's code; objects passed as `code={{...}}` are
+ * rendered as compact JSON
+ */
+function readCode(embed: HTMLElement): string {
+  const text = part(embed, 'code')?.textContent ?? '';
+  try {
+    const value: unknown = JSON.parse(text);
+    return JSON.stringify(typeof value === 'string' ? JSON.parse(value) : value, null, 2);
+  } catch {
+    return text.trim();
+  }
+}
+
+/**
+ * Mount the editor and preview of one embed
+ * @returns Cleanup, or null if the embed is missing its hosts
+ */
+function mountEmbed(embed: HTMLElement, modules: EmbedModules): (() => void) | null {
+  const editorHost = part(embed, 'editor');
+  const preview = part(embed, 'preview');
+  if (!editorHost || !preview) {
+    return null;
+  }
+  const link = part<HTMLAnchorElement>(embed, 'link');
+  const fallback = part(embed, 'fallback');
+
+  const code = readCode(embed);
+  if (fallback) {
+    fallback.hidden = true;
+  }
+  editorHost.hidden = false;
+  const editor = modules.monaco.editor.create(editorHost, {
+    ...EDITOR_OPTIONS,
+    value: code,
+    theme: editorTheme(),
+  });
+
+  let app: AppInstance | null = null;
+
+  // Like the playground's run: the last good render stays while the
+  // code doesn't compile
+  const run = () => {
+    let result: ReturnType<typeof compile>;
+    try {
+      result = modules.compile(JSON.parse(editor.getValue()));
+    } catch {
+      showMessage(embed, 'Invalid JSON syntax');
+      return;
+    }
+    if (!result.ok) {
+      showMessage(embed, result.errors.map((error) => error.message).join('\n'));
+      return;
+    }
+    app?.destroy();
+    app = null;
+    try {
+      app = modules.createApp(result.program, preview);
+      showMessage(embed, '');
+    } catch (error) {
+      showMessage(embed, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const updateLink = () => {
+    if (!link) {
+      return;
+    }
+    const target = new URL(PLAYGROUND_PATH, location.href).href;
+    createShareLink(editor.getValue(), target).then(
+      (href) => {
+        link.href = href;
+      },
+      () => {
+        // Too large for a link: open the playground without it
+        link.href = PLAYGROUND_PATH;
+      },
+    );
+  };
+
+  const runner = createAutoRunner();
+  runner.onDidFire(() => {
+    run();
+    updateLink();
+  });
+  const changes = editor.onDidChangeModelContent(() => runner.schedule());
+  run();
+  updateLink();
+
+  return () => {
+    runner.dispose();
+    changes.dispose();
+    app?.destroy();
+    editor.dispose();
+  };
+}
+
+/**
+ * Find the playground embeds on a page and watch them scroll into view
+ * @param root - Node to search (defaults to the document)
+ */
+export function watchPlaygroundEmbeds(root: ParentNode = document): PlaygroundEmbeds {
+  const embeds = [...root.querySelectorAll<HTMLElement>(EMBED_SELECTOR)];
+  const listeners = new Set<() => void>();
+  const waiting = new Set<HTMLElement>();
+  const cleanups: (() => void)[] = [];
+  let modules: EmbedModules | null = null;
+  let visible = false;
+  let themeObserver: MutationObserver | null = null;
+
+  const mount = (embed: HTMLElement) => {
+    const cleanup = modules && mountEmbed(embed, modules);
+    if (cleanup) {
+      cleanups.push(cleanup);
+    }
+  };
+
+  const observer =
+    embeds.length > 0
+      ? new IntersectionObserver(
+          (entries) => {
+            for (const entry of entries) {
+              if (!entry.isIntersecting) {
+                continue;
+              }
+              const embed = entry.target as HTMLElement;
+              observer?.unobserve(embed);
+              if (modules) {
+                mount(embed);
+              } else {
+                waiting.add(embed);
+              }
+            }
+            if (!visible && waiting.size > 0) {
+              visible = true;
+              listeners.forEach((listener) => listener());
+            }
+          },
+          { rootMargin: VISIBLE_MARGIN },
+        )
+      : null;
+  embeds.forEach((embed) => observer?.observe(embed));
+
+  return {
+    count: embeds.length,
+
+    onDidBecomeVisible(listener) {
+      listeners.add(listener);
+      if (visible) {
+        queueMicrotask(listener);
+      }
+      return { dispose: () => listeners.delete(listener) };
+    },
+
+    activate(monaco, compiler, runtime) {
+      if (modules) {
+        return;
+      }
+      modules = { monaco, compile: compiler.compile, createApp: runtime.createApp };
+      waiting.forEach(mount);
+      waiting.clear();
+      // Follow the site's theme toggle, which switches the class on <html>
+      themeObserver = new MutationObserver(() => monaco.editor.setTheme(editorTheme()));
+      themeObserver.observe(document.documentElement, { attributeFilter: ['class'] });
+    },
+
+    showError(message) {
+      embeds.forEach((embed) => showMessage(embed, message));
+    },
+
+    dispose() {
+      observer?.disconnect();
+      themeObserver?.disconnect();
+      cleanups.forEach((cleanup) => cleanup());
+      cleanups.length = 0;
+      listeners.clear();
+      waiting.clear();
+    },
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * Playground format commands.
+ * "Format document" pretty-prints the program the way examples.json
+ * codeStrings are printed; "Sort keys" also puts keys in the order the
+ * examples use; "Convert to strict JSON" accepts JSON5-style input
+ * (comments, single quotes, unquoted keys, trailing commas) and
+ * codeStrings entries pasted as a quoted string.
+ * The commands are editor actions with keybindings; failures are
+ * reported through onDidFail so the route can show them:
+ *   { "do": "subscribe", "target": { "expr": "state", "name": "formatter" },
+ *     "event": "onDidFail", "action": "showFormatError" }
+ */
+
+import type * as Monaco from 'monaco-editor';
+
+/**
+ * Format commands, in toolbar order
+ */
+export const FORMAT_COMMANDS = ['format', 'sortKeys', 'toStrictJson'] as const;
+
+export type FormatCommand = (typeof FORMAT_COMMANDS)[number];
+
+/**
+ * Canonical order of top-level program keys; unknown keys follow in
+ * their original order
+ */
+export const PROGRAM_KEY_ORDER = [
+  'version',
+  'route',
+  'imports',
+  'data',
+  'theme',
+  'state',
+  'styles',
+  'components',
+  'actions',
+  'lifecycle',
+  'view',
+];
+
+/**
+ * Keys that name what a nested object is; sorting moves them first
+ */
+const DISCRIMINATOR_KEYS = ['kind', 'expr', 'do'];
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  0: '\0',
+};
+
+/**
+ * Format commands registered with an editor
+ */
+export interface FormatCommands {
+  /** Apply a command to the editor text; unknown commands are ignored */
+  run(command: string): void;
+  /** Monaco-style event, fired with the Error when a command fails */
+  onDidFail(listener: (error: Error) => void): { dispose(): void };
+  dispose(): void;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringifyProgram(program: unknown): string {
+  return JSON.stringify(program, null, 2);
+}
+
+function orderKeys(record: Record<string, unknown>, order: string[]): Record<string, unknown> {
+  const keys = Object.keys(record);
+  const first = order.filter((key) => keys.includes(key));
+  const rest = keys.filter((key) => !order.includes(key));
+  return Object.fromEntries([...first, ...rest].map((key) => [key, record[key]]));
+}
+
+function sortNested(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortNested);
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+  const sorted = orderKeys(value, DISCRIMINATOR_KEYS);
+  for (const key of Object.keys(sorted)) {
+    sorted[key] = sortNested(sorted[key]);
+  }
+  return sorted;
+}
+
+/**
+ * Parse JSON5-style text: comments, single-quoted strings, unquoted
+ * keys, trailing commas, hexadecimal and signed numbers
+ * @throws SyntaxError with the line and column of the problem
+ */
+function parseLooseJson(text: string): unknown {
+  let index = 0;
+
+  const fail = (message: string): never => {
+    const before = text.slice(0, index).split('\n');
+    throw new SyntaxError(
+      `${message} at line ${before.length}, column ${before.at(-1)!.length + 1}`,
+    );
+  };
+
+  const skipBlank = () => {
+    for (;;) {
+      if (/\s/.test(text[index] ?? '')) {
+        index++;
+      } else if (text.startsWith('//', index)) {
+        const end = text.indexOf('\n', index);
+        index = end < 0 ? text.length : end;
+      } else if (text.startsWith('/*', index)) {
+        const end = text.indexOf('*/', index + 2);
+        if (end < 0) {
+          fail('Unterminated comment');
+        }
+        index = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const parseString = (): string => {
+    const quote = text[index++];
+    let result = '';
+    for (;;) {
+      const char = text[index++];
+      if (char === undefined || char === '\n') {
+        index--;
+        return fail('Unterminated string');
+      }
+      if (char === quote) {
+        return result;
+      }
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+      const escaped = text[index++];
+      if (escaped === undefined) {
+        return fail('Unterminated string');
+      }
+      if (escaped === 'u') {
+        const hex = text.slice(index, index + 4);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          fail('Invalid unicode escape');
+        }
+        result += String.fromCharCode(parseInt(hex, 16));
+        index += 4;
+      } else if (escaped !== '\n') {
+        // Escaped line breaks continue the string
+        result += ESCAPES[escaped] ?? escaped;
+      }
+    }
+  };
+
+  const parseNumber = (): number => {
+    const match = /^([+-]?)(0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(
+      text.slice(index),
+    );
+    if (!match) {
+      return fail(`Unexpected ${JSON.stringify(text[index])}`);
+    }
+    index += match[0].length;
+    const digits = match[2]!;
+    const value = /^0[xX]/.test(digits) ? parseInt(digits, 16) : Number(digits);
+    return match[1] === '-' ? -value : value;
+  };
+
+  const parseIdentifier = (): string => {
+    const match = /^[A-Za-z_$][\w$]*/.exec(text.slice(index));
+    if (!match) {
+      const found = text[index] === undefined ? 'end of input' : JSON.stringify(text[index]);
+      return fail(`Unexpected ${found}`);
+    }
+    index += match[0].length;
+    return match[0];
+  };
+
+  const parseValue = (): unknown => {
+    skipBlank();
+    const char = text[index];
+    if (char === '{') {
+      index++;
+      // Collected as entries so a "__proto__" key stays an own property
+      const entries: [string, unknown][] = [];
+      for (;;) {
+        skipBlank();
+        if (text[index] === '}') {
+          index++;
+          return Object.fromEntries(entries);
+        }
+        const quoted = text[index] === '"' || text[index] === "'";
+        const key = quoted ? parseString() : parseIdentifier();
+        skipBlank();
+        if (text[index++] !== ':') {
+          index--;
+          fail('Expected ":"');
+        }
+        entries.push([key, parseValue()]);
+        skipBlank();
+        if (text[index] === ',') {
+          index++;
+        } else if (text[index] !== '}') {
+          fail('Expected "," or "}"');
+        }
+      }
+    }
+    if (char === '[') {
+      index++;
+      const result: unknown[] = [];
+      for (;;) {
+        skipBlank();
+        if (text[index] === ']') {
+          index++;
+          return result;
+        }
+        result.push(parseValue());
+        skipBlank();
+        if (text[index] === ',') {
+          index++;
+        } else if (text[index] !== ']') {
+          fail('Expected "," or "]"');
+        }
+      }
+    }
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+    if (char !== undefined && /[\d.+-]/.test(char)) {
+      return parseNumber();
+    }
+    const start = index;
+    const word = parseIdentifier();
+    if (word === 'true' || word === 'false') {
+      return word === 'true';
+    }
+    if (word === 'null') {
+      return null;
+    }
+    index = start;
+    return fail(`Unexpected "${word}"`);
+  };
+
+  const value = parseValue();
+  skipBlank();
+  if (index < text.length) {
+    fail(`Unexpected ${JSON.stringify(text[index])}`);
+  }
+  return value;
+}
+
+/**
+ * Pretty-print a program with two-space indentation
+ * @throws SyntaxError if the code is not valid JSON
+ */
+export function formatProgramCode(code: string): string {
+  return stringifyProgram(JSON.parse(code));
+}
+
+/**
+ * Pretty-print a program with its keys in canonical order: top-level
+ * keys as in PROGRAM_KEY_ORDER, and "kind", "expr" or "do" first in
+ * nested objects
+ * @throws SyntaxError if the code is not valid JSON
+ */
+export function sortProgramKeys(code: string): string {
+  const program = sortNested(JSON.parse(code));
+  return stringifyProgram(isRecord(program) ? orderKeys(program, PROGRAM_KEY_ORDER) : program);
+}
+
+/**
+ * Convert JSON5-style code, or a program quoted as a JSON string (a
+ * codeStrings entry), to pretty-printed strict JSON
+ * @throws SyntaxError if the code can't be parsed
+ */
+export function toStrictJson(code: string): string {
+  const value = parseLooseJson(code);
+  return stringifyProgram(typeof value === 'string' ? parseLooseJson(value) : value);
+}
+
+const TRANSFORMS: Record<FormatCommand, (code: string) => string> = {
+  format: formatProgramCode,
+  sortKeys: sortProgramKeys,
+  toStrictJson,
+};
+
+/**
+ * Register the format commands as editor actions
+ * (Ctrl/Cmd+Shift+Alt+F, S and J, which leaves Monaco's own Shift+Alt+F
+ * "Format Document" in place; also in the F1 menu)
+ * @param monaco - The Monaco module the editor was created with
+ * @param editor - The playground code editor
+ */
+export function createFormatCommands(
+  monaco: typeof Monaco,
+  editor: Monaco.editor.IStandaloneCodeEditor,
+): FormatCommands {
+  const listeners = new Set<(error: Error) => void>();
+  const { KeyMod, KeyCode } = monaco;
+
+  const run = (command: string) => {
+    const transform = Object.hasOwn(TRANSFORMS, command)
+      ? TRANSFORMS[command as FormatCommand]
+      : undefined;
+    const model = editor.getModel();
+    if (!transform || !model) {
+      return;
+    }
+    const code = model.getValue();
+    let text: string;
+    try {
+      text = transform(code);
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      listeners.forEach((listener) => listener(failure));
+      return;
+    }
+    if (text === code) {
+      return;
+    }
+    // One undo step, unlike setValue which clears the undo stack
+    editor.pushUndoStop();
+    editor.executeEdits('constela-format', [{ range: model.getFullModelRange(), text }]);
+    editor.pushUndoStop();
+  };
+
+  const actions = [
+    editor.addAction({
+      id: 'constela.format',
+      label: 'Format document',
+      keybindings: [KeyMod.CtrlCmd | KeyMod.Shift | KeyMod.Alt | KeyCode.KeyF],
+      run: () => run('format'),
+    }),
+    editor.addAction({
+      id: 'constela.sortKeys',
+      label: 'Sort keys canonically',
+      keybindings: [KeyMod.CtrlCmd | KeyMod.Shift | KeyMod.Alt | KeyCode.KeyS],
+      run: () => run('sortKeys'),
+    }),
+    editor.addAction({
+      id: 'constela.toStrictJson',
+      label: 'Convert to strict JSON',
+      keybindings: [KeyMod.CtrlCmd | KeyMod.Shift | KeyMod.Alt | KeyCode.KeyJ],
+      run: () => run('toStrictJson'),
+    }),
+  ];
+
+  return {
+    run,
+    onDidFail(listener) {
+      listeners.add(listener);
+      return { dispose: () => listeners.delete(listener) };
+    },
+    dispose() {
+      actions.forEach((action) => action.dispose());
+      listeners.clear();
+    },
+  };
+}
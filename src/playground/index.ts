@@ -0,0 +1,19 @@
+/**
+ * Browser helpers for the playground route and the docs playground embeds.
+ * Bundled to public/playground/index.js (`pnpm bundle-playground`) and
+ * loaded by src/routes/playground.json (and the docs and reference
+ * routes) through externalImports as
+ * "constela-playground", e.g.
+ *   { "do": "import", "module": "constela-playground", "result": "playground" }
+ * Exports are called with "call" steps, so each takes and returns plain
+ * values.
+ */
+
+export { createAutoRunner } from './autorun';
+export { revealDiagnostic, showDiagnostics, toDiagnostics } from './diagnostics';
+export { watchPlaygroundEmbeds } from './embed';
+export { createFormatCommands } from './format';
+export { createInspector } from './inspector';
+export { createOutputPanel } from './output';
+export { registerProgramSchema } from './schema';
+export { consumeSharedCode, shareProgram } from './share';
@@ -0,0 +1,288 @@
+/**
+ * Playground state inspector.
+ * The runtime has no hook for dispatched actions, so the compiled
+ * program is instrumented before it is mounted: a hidden state field
+ * holds the inspector, and every action starts with a "call" step that
+ * reports its name and the state it started from, e.g.
+ *   { "do": "call",
+ *     "target": { "expr": "state", "name": "__playgroundInspector", "path": "dispatch" },
+ *     "args": [{ "expr": "lit", "value": "increment" }, { "expr": "obj", "props": { ... } }] }
+ * State after an action comes from the app's state subscriptions; state
+ * changed by an action still running when the next starts (e.g. after
+ * a fetch) is credited to the later action.
+ */
+
+import type { CompiledAction, CompiledProgram } from '@constela/compiler';
+import type { AppInstance } from '@constela/runtime';
+
+/**
+ * Hidden state field holding the inspector in instrumented programs
+ */
+export const INSPECTOR_STATE = '__playgroundInspector';
+
+/**
+ * Dispatched actions kept in the log; older entries are dropped
+ */
+export const MAX_LOG_ENTRIES = 200;
+
+const MAX_PREVIEW_LENGTH = 80;
+
+type StateSnapshot = Record<string, unknown>;
+
+/**
+ * One row of the state tree; nested values follow their parent with a
+ * greater depth
+ */
+export interface StateRow {
+  /** Path like "todos[0].text", unique within the tree */
+  key: string;
+  label: string;
+  depth: number;
+  preview: string;
+}
+
+/**
+ * A state field changed by an action
+ */
+export interface StateChange {
+  name: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * One dispatched action
+ */
+export interface LogEntry {
+  index: number;
+  action: string;
+  changes: StateChange[];
+}
+
+/**
+ * What the inspector panel shows
+ */
+export interface Inspection {
+  rows: StateRow[];
+  /** Dispatched actions, oldest first */
+  log: LogEntry[];
+  /** Log index of the state shown; -1 for the initial state */
+  current: number;
+}
+
+/**
+ * Inspector for one run of the playground
+ */
+export interface Inspector {
+  /** The instrumented program to mount */
+  program: CompiledProgram;
+  /** Start following the mounted app */
+  attach(app: AppInstance): Inspection;
+  /** Restore the state after a log entry (-1 for the initial state) */
+  travelTo(index: number): void;
+  /** Monaco-style event, fired with the new Inspection */
+  onDidChange(listener: (inspection: Inspection) => void): { dispose(): void };
+  dispose(): void;
+}
+
+interface RecordedAction {
+  action: string;
+  before: StateSnapshot;
+  after: StateSnapshot;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  try {
+    return structuredClone(value);
+  } catch {
+    return value;
+  }
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function preview(value: unknown): string {
+  const text = stringify(value);
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+function toRows(snapshot: StateSnapshot): StateRow[] {
+  const rows: StateRow[] = [];
+  const visit = (label: string, key: string, value: unknown, depth: number) => {
+    if (Array.isArray(value)) {
+      rows.push({ key, label, depth, preview: `Array(${value.length})` });
+      value.forEach((item, index) => visit(String(index), `${key}[${index}]`, item, depth + 1));
+    } else if (isRecord(value)) {
+      rows.push({ key, label, depth, preview: `Object(${Object.keys(value).length})` });
+      for (const [name, item] of Object.entries(value)) {
+        visit(name, `${key}.${name}`, item, depth + 1);
+      }
+    } else {
+      rows.push({ key, label, depth, preview: preview(value) });
+    }
+  };
+  for (const [name, value] of Object.entries(snapshot)) {
+    visit(name, name, value, 0);
+  }
+  return rows;
+}
+
+function toChanges({ before, after }: RecordedAction): StateChange[] {
+  return Object.keys(after)
+    .filter((name) => stringify(before[name]) !== stringify(after[name]))
+    .map((name) => ({ name, before: preview(before[name]), after: preview(after[name]) }));
+}
+
+/**
+ * Add the dispatch step to every action of a compiled program
+ */
+function instrumentProgram(
+  program: CompiledProgram,
+  hook: { dispatch(action: string, before: StateSnapshot): void },
+): CompiledProgram {
+  const snapshot = {
+    expr: 'obj' as const,
+    props: Object.fromEntries(
+      Object.keys(program.state).map((name) => [name, { expr: 'state' as const, name }]),
+    ),
+  };
+  const actions = Object.fromEntries(
+    Object.entries(program.actions).map(([name, action]): [string, CompiledAction] => [
+      name,
+      {
+        ...action,
+        steps: [
+          {
+            do: 'call',
+            target: { expr: 'state', name: INSPECTOR_STATE, path: 'dispatch' },
+            args: [{ expr: 'lit', value: name }, snapshot],
+          },
+          ...action.steps,
+        ],
+      },
+    ]),
+  );
+
+  return {
+    ...program,
+    state: { ...program.state, [INSPECTOR_STATE]: { type: 'object', initial: hook } },
+    actions,
+  };
+}
+
+/**
+ * Create an inspector for a compiled program; mount inspector.program
+ * instead of the program, then attach the app
+ */
+export function createInspector(program: CompiledProgram): Inspector {
+  const names = Object.keys(program.state);
+  const recorded: RecordedAction[] = [];
+  const listeners = new Set<(inspection: Inspection) => void>();
+  const unsubscribes: (() => void)[] = [];
+  let app: AppInstance | null = null;
+  let initial: StateSnapshot = Object.fromEntries(
+    names.map((name) => [name, clone(program.state[name]!.initial)]),
+  );
+  let current = -1;
+  let travelling = false;
+
+  const snapshot = (): StateSnapshot =>
+    app ? Object.fromEntries(names.map((name) => [name, clone(app!.getState(name))])) : initial;
+
+  const inspect = (): Inspection => ({
+    rows: toRows(snapshot()),
+    log: recorded.map((entry, index) => ({
+      index,
+      action: entry.action,
+      changes: toChanges(entry),
+    })),
+    current,
+  });
+
+  const emit = () => {
+    const inspection = inspect();
+    listeners.forEach((listener) => listener(inspection));
+  };
+
+  const dispatch = (action: string, before: StateSnapshot) => {
+    recorded.push({ action, before: clone(before), after: clone(before) });
+    if (recorded.length > MAX_LOG_ENTRIES) {
+      initial = recorded.shift()!.after;
+    }
+    current = recorded.length - 1;
+    if (app) {
+      emit();
+    }
+  };
+
+  const onStateChange = () => {
+    const last = recorded.at(-1);
+    if (travelling || !last) {
+      return;
+    }
+    last.after = snapshot();
+    current = recorded.length - 1;
+    emit();
+  };
+
+  return {
+    program: instrumentProgram(program, { dispatch }),
+
+    attach(mounted) {
+      app = mounted;
+      // Actions run on mount may have started before the app was attached
+      if (recorded.length > 0) {
+        initial = recorded[0]!.before;
+        recorded.at(-1)!.after = snapshot();
+      } else {
+        initial = snapshot();
+      }
+      for (const name of names) {
+        unsubscribes.push(mounted.subscribe(name, onStateChange));
+      }
+      return inspect();
+    },
+
+    travelTo(index) {
+      const target = index < 0 ? initial : recorded[index]?.after;
+      if (!app || !target) {
+        return;
+      }
+      travelling = true;
+      try {
+        for (const name of names) {
+          app.setState(name, clone(target[name]));
+        }
+      } finally {
+        travelling = false;
+      }
+      current = index < 0 ? -1 : index;
+      emit();
+    },
+
+    onDidChange(listener) {
+      listeners.add(listener);
+      return { dispose: () => listeners.delete(listener) };
+    },
+
+    dispose() {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      unsubscribes.length = 0;
+      listeners.clear();
+      app = null;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Playground output panel.
+ * Shows what the compiler made of the program: the parsed AST, the
+ * CompiledProgram, or a diff between the two, in read-only Monaco
+ * editors. The route keeps the returned panel in state and calls its
+ * methods, like it does with the code editor.
+ */
+
+import type * as Monaco from 'monaco-editor';
+
+/**
+ * Output panel tabs
+ */
+export const OUTPUT_TABS = ['ast', 'compiled', 'diff'] as const;
+
+export type OutputTab = (typeof OUTPUT_TABS)[number];
+
+/**
+ * An output panel mounted in the page
+ */
+export interface OutputPanel {
+  /** Show a run's parsed program and its compiled output */
+  update(ast: unknown, compiled: unknown): void;
+  /** Switch tabs; unknown tabs show the compiled program */
+  setTab(tab: string): void;
+  dispose(): void;
+}
+
+const READ_ONLY_OPTIONS = {
+  readOnly: true,
+  automaticLayout: true,
+  minimap: { enabled: false },
+  fontSize: 13,
+  scrollBeyondLastLine: false,
+};
+
+function formatOutput(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value, null, 2);
+}
+
+function isOutputTab(tab: string): tab is OutputTab {
+  return (OUTPUT_TABS as readonly string[]).includes(tab);
+}
+
+/**
+ * Mount an output panel
+ * @param monaco - The Monaco module the code editor was created with
+ * @param container - Element to fill; its contents are replaced
+ * @param tab - Tab to show first
+ */
+export function createOutputPanel(
+  monaco: typeof Monaco,
+  container: HTMLElement,
+  tab: string,
+): OutputPanel {
+  const astModel = monaco.editor.createModel('', 'json');
+  const compiledModel = monaco.editor.createModel('', 'json');
+
+  const viewHost = document.createElement('div');
+  const diffHost = document.createElement('div');
+  for (const host of [viewHost, diffHost]) {
+    host.style.height = '100%';
+  }
+  container.replaceChildren(viewHost, diffHost);
+
+  const view = monaco.editor.create(viewHost, { ...READ_ONLY_OPTIONS, model: compiledModel });
+  const diff = monaco.editor.createDiffEditor(diffHost, {
+    ...READ_ONLY_OPTIONS,
+    originalEditable: false,
+  });
+  diff.setModel({ original: astModel, modified: compiledModel });
+
+  const setTab = (next: string) => {
+    const current = isOutputTab(next) ? next : 'compiled';
+    viewHost.style.display = current === 'diff' ? 'none' : '';
+    diffHost.style.display = current === 'diff' ? '' : 'none';
+    if (current !== 'diff') {
+      view.setModel(current === 'ast' ? astModel : compiledModel);
+    }
+  };
+  setTab(tab);
+
+  return {
+    update(ast, compiled) {
+      astModel.setValue(formatOutput(ast));
+      compiledModel.setValue(formatOutput(compiled));
+    },
+    setTab,
+    dispose() {
+      diff.dispose();
+      view.dispose();
+      astModel.dispose();
+      compiledModel.dispose();
+      container.replaceChildren();
+    },
+  };
+}
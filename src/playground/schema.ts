@@ -0,0 +1,278 @@
+/**
+ * Playground editor schema.
+ * Monaco's JSON language service completes and documents JSON from a
+ * JSON Schema. The schema is @constela/core's astSchema with every
+ * expression ("expr"), action step ("do") and view node ("kind")
+ * documented: a summary plus a link to the /reference page describing
+ * it. Kinds the validator accepts but astSchema does not model yet (e.g.
+ * "storage" steps or "call" expressions) are added as open objects, so
+ * they are still offered as completions.
+ */
+
+import type * as Monaco from 'monaco-editor';
+
+/**
+ * A DSL kind's reference documentation
+ */
+interface KindReference {
+  summary: string;
+  /** Page under /reference, e.g. "actions" */
+  page: string;
+  /** Heading of the section on that page */
+  heading?: string;
+}
+
+/**
+ * Property naming the kind, with the astSchema union listing its
+ * alternatives and the suffix of added definitions
+ */
+const GROUPS = {
+  expr: { union: 'Expression', suffix: 'Expr' },
+  do: { union: 'ActionStep', suffix: 'Step' },
+  kind: { union: 'ViewNode', suffix: 'Node' },
+} as const;
+
+type KindGroup = keyof typeof GROUPS;
+
+/**
+ * Reference documentation for every kind the validator accepts; keep in
+ * sync with src/content/reference/ (headings are checked by the tests).
+ * Page-only kinds such as "island" nodes, which need the islands build,
+ * are left out so the editor does not offer them.
+ */
+export const KIND_REFERENCE: Record<KindGroup, Record<string, KindReference>> = {
+  expr: {
+    lit: { summary: 'A constant value.', page: 'expressions', heading: 'Literal Expression' },
+    state: { summary: 'Reads a state field.', page: 'expressions', heading: 'State Expression' },
+    local: { summary: 'Reads island-local state.', page: 'islands', heading: 'Island-Local State' },
+    var: {
+      summary: 'Reads a local variable: an each item, the action payload or a step result.',
+      page: 'expressions',
+      heading: 'Variable Expression',
+    },
+    bin: {
+      summary: 'Combines two expressions with an operator.',
+      page: 'expressions',
+      heading: 'Binary Expression',
+    },
+    not: { summary: 'Negates an expression.', page: 'expressions', heading: 'Not Expression' },
+    param: { summary: 'Reads a component prop.', page: 'expressions', heading: 'Param Expression' },
+    cond: {
+      summary: 'Chooses between two expressions.',
+      page: 'expressions',
+      heading: 'Cond Expression',
+    },
+    get: {
+      summary: "Reads a property path from an expression's value.",
+      page: 'expressions',
+      heading: 'Get Expression',
+    },
+    style: {
+      summary: 'Resolves a style preset and its variants to class names.',
+      page: 'expressions',
+      heading: 'Style Expression',
+    },
+    validity: {
+      summary: 'Reads the validity state of a form field.',
+      page: 'expressions',
+      heading: 'Validity Expression',
+    },
+    index: {
+      summary: 'Reads an array item or object property by a computed key.',
+      page: 'expressions',
+      heading: 'Index Expression',
+    },
+    call: {
+      summary: 'Calls a safe method on a value.',
+      page: 'expressions',
+      heading: 'Call Expression',
+    },
+    lambda: {
+      summary: 'An inline function for call expressions such as filter and map.',
+      page: 'expressions',
+      heading: 'Lambda Expression',
+    },
+    array: {
+      summary: 'Builds an array from expressions.',
+      page: 'expressions',
+      heading: 'Array Expression',
+    },
+    concat: {
+      summary: 'Joins expressions into a string.',
+      page: 'expressions',
+      heading: 'Concat Expression',
+    },
+    obj: { summary: 'Builds an object from expressions.', page: 'expressions' },
+  },
+  do: {
+    set: { summary: 'Sets a state field.', page: 'actions', heading: 'Set Step' },
+    update: {
+      summary: 'Updates a state field with an operation (increment, push, toggle, merge, ...).',
+      page: 'actions',
+      heading: 'Update Step',
+    },
+    setPath: {
+      summary: 'Sets a nested path inside a state field.',
+      page: 'actions',
+      heading: 'SetPath Step',
+    },
+    fetch: { summary: 'Sends an HTTP request.', page: 'actions', heading: 'Fetch Step' },
+    delay: { summary: 'Runs steps after a delay.', page: 'actions', heading: 'Delay Step' },
+    interval: {
+      summary: 'Runs an action repeatedly.',
+      page: 'actions',
+      heading: 'Interval Step',
+    },
+    clearTimer: {
+      summary: 'Stops a delay or interval.',
+      page: 'actions',
+      heading: 'ClearTimer Step',
+    },
+    focus: { summary: 'Moves focus to an element.', page: 'actions', heading: 'Focus Step' },
+    if: { summary: 'Runs steps conditionally.', page: 'actions', heading: 'If Step' },
+    storage: {
+      summary: 'Reads or writes localStorage or sessionStorage.',
+      page: 'actions',
+      heading: 'Storage Step',
+    },
+    dom: {
+      summary: 'Changes the classes or attributes of an element.',
+      page: 'actions',
+      heading: 'DOM Step',
+    },
+    sseConnect: {
+      summary: 'Opens a Server-Sent Events connection.',
+      page: 'realtime',
+      heading: 'SSE Connections',
+    },
+    sseClose: {
+      summary: 'Closes a Server-Sent Events connection.',
+      page: 'realtime',
+      heading: 'SSE Connections',
+    },
+    optimistic: {
+      summary: 'Applies an update before the server confirms it.',
+      page: 'realtime',
+      heading: 'Optimistic Updates',
+    },
+    confirm: {
+      summary: 'Keeps an optimistic update.',
+      page: 'realtime',
+      heading: 'Optimistic Updates',
+    },
+    reject: {
+      summary: 'Rolls back an optimistic update.',
+      page: 'realtime',
+      heading: 'Optimistic Updates',
+    },
+  },
+  kind: {
+    element: { summary: 'An HTML element.', page: 'nodes', heading: 'Element Node' },
+    text: { summary: 'Text content.', page: 'nodes', heading: 'Text Node' },
+    if: { summary: 'Renders a branch conditionally.', page: 'nodes', heading: 'If Node' },
+    each: {
+      summary: 'Renders its body for each item of a list.',
+      page: 'nodes',
+      heading: 'Each Node',
+    },
+    component: { summary: 'Renders a component.', page: 'nodes', heading: 'Component Node' },
+    slot: {
+      summary: "Where a component renders its caller's children.",
+      page: 'nodes',
+      heading: 'Slot Node',
+    },
+    markdown: { summary: 'Renders Markdown.', page: 'nodes', heading: 'Markdown Node' },
+    code: { summary: 'A syntax-highlighted code block.', page: 'nodes', heading: 'Code Node' },
+    portal: {
+      summary: 'Renders its children elsewhere in the document.',
+      page: 'nodes',
+      heading: 'Portal Node',
+    },
+  },
+};
+
+type JsonSchema = Record<string, unknown>;
+
+interface SchemaDefinitions {
+  $defs: Record<string, JsonSchema & { properties?: Record<string, JsonSchema> }>;
+}
+
+function describeKind(reference: KindReference, origin: string): JsonSchema {
+  const link = `${origin}/reference/${reference.page}`;
+  return {
+    description: reference.summary,
+    markdownDescription: `${reference.summary}\n\n[${reference.heading ?? 'Reference'}](${link})`,
+  };
+}
+
+/**
+ * Build the editor schema from @constela/core's astSchema
+ * @param astSchema - astSchema of the @constela/core the playground runs
+ * @param origin - Origin for /reference links (defaults to the current page's)
+ */
+export function createProgramSchema(
+  astSchema: object,
+  origin: string = location.origin,
+): JsonSchema {
+  const schema = structuredClone(astSchema) as JsonSchema & SchemaDefinitions;
+
+  for (const [group, { union, suffix }] of Object.entries(GROUPS) as [
+    KindGroup,
+    (typeof GROUPS)[KindGroup],
+  ][]) {
+    const alternatives = (schema.$defs[union]!.oneOf ?? []) as { $ref: string }[];
+    const modelled = new Map<string, JsonSchema>();
+    for (const { $ref } of alternatives) {
+      const property = schema.$defs[$ref.replace('#/$defs/', '')]?.properties?.[group];
+      if (typeof property?.const === 'string') {
+        modelled.set(property.const, property);
+      }
+    }
+
+    for (const [kind, reference] of Object.entries(KIND_REFERENCE[group])) {
+      const docs = describeKind(reference, origin);
+      const property = modelled.get(kind);
+      if (property) {
+        Object.assign(property, docs);
+        continue;
+      }
+      const name = `${kind[0]!.toUpperCase()}${kind.slice(1)}${suffix}`;
+      schema.$defs[name] = {
+        type: 'object',
+        required: [group],
+        properties: { [group]: { type: 'string', const: kind, ...docs } },
+      };
+      alternatives.push({ $ref: `#/$defs/${name}` });
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Register the program schema for the editor's model with Monaco's JSON
+ * language service. Schema validation is left off: validateAst reports
+ * errors (see diagnostics.ts), and astSchema does not model every kind.
+ */
+export function registerProgramSchema(
+  monaco: typeof Monaco,
+  editor: Monaco.editor.IStandaloneCodeEditor,
+  astSchema: { $id: string },
+): void {
+  const model = editor.getModel();
+  if (!model) {
+    return;
+  }
+  monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
+    validate: true,
+    schemaValidation: 'ignore',
+    enableSchemaRequest: false,
+    schemas: [
+      {
+        uri: astSchema.$id,
+        fileMatch: [model.uri.toString()],
+        schema: createProgramSchema(astSchema),
+      },
+    ],
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Playground share links.
+ * The program is deflated and base64url-encoded into the URL fragment,
+ * e.g. https://constela.dev/playground#code=eJyrVspLzE1VslJQ..., so a
+ * shared program never reaches the server and needs no storage.
+ */
+
+/**
+ * Fragment parameter holding the encoded program
+ */
+export const SHARE_FRAGMENT_KEY = 'code';
+
+/**
+ * Longest encoded program accepted in a link (characters). Links this
+ * long still survive chat apps and URL shorteners.
+ */
+export const MAX_SHARE_PAYLOAD_LENGTH = 32_000;
+
+/**
+ * Largest decoded program accepted from a link (bytes); guards against
+ * payloads that inflate to huge sizes
+ */
+export const MAX_SHARED_CODE_BYTES = 512_000;
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Inflate deflated bytes
+ * @returns The inflated bytes, or null once the output exceeds maxBytes
+ * @throws TypeError if the bytes are not valid deflate data
+ */
+async function inflate(bytes: Uint8Array<ArrayBuffer>, maxBytes: number): Promise<Uint8Array | null> {
+  const reader = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Encode a program for a share link
+ * @returns The fragment payload (base64url of the deflated code)
+ * @throws Error if the encoded program is too long for a link
+ */
+export async function encodeSharedCode(code: string): Promise<string> {
+  const payload = toBase64Url(await deflate(code));
+  if (payload.length > MAX_SHARE_PAYLOAD_LENGTH) {
+    throw new Error(
+      `Program is too large to share as a link (${payload.length} of ${MAX_SHARE_PAYLOAD_LENGTH} characters)`,
+    );
+  }
+  return payload;
+}
+
+/**
+ * Decode the program from a share link payload
+ * @throws Error naming the problem if the payload is too long, corrupt
+ *   or inflates past MAX_SHARED_CODE_BYTES
+ */
+export async function decodeSharedCode(payload: string): Promise<string> {
+  if (payload.length > MAX_SHARE_PAYLOAD_LENGTH) {
+    throw new Error(
+      `Share link is too long (${payload.length} of ${MAX_SHARE_PAYLOAD_LENGTH} characters)`,
+    );
+  }
+  if (!BASE64URL_PATTERN.test(payload)) {
+    throw new Error('Share link is corrupt: unexpected characters in the encoded program');
+  }
+
+  let bytes: Uint8Array | null;
+  try {
+    bytes = await inflate(fromBase64Url(payload), MAX_SHARED_CODE_BYTES);
+  } catch {
+    throw new Error('Share link is corrupt: the encoded program could not be decompressed');
+  }
+  if (bytes === null) {
+    throw new Error(`Shared program is larger than ${MAX_SHARED_CODE_BYTES} bytes`);
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new Error('Share link is corrupt: the program is not valid text');
+  }
+}
+
+/**
+ * Build a share link for a program on the current page
+ * @param code - Editor contents
+ * @param href - Page URL; its query and fragment are replaced
+ */
+export async function createShareLink(
+  code: string,
+  href: string = location.href,
+): Promise<string> {
+  const url = new URL(href);
+  url.search = '';
+  url.hash = `${SHARE_FRAGMENT_KEY}=${await encodeSharedCode(code)}`;
+  return url.href;
+}
+
+/**
+ * Read the shared program from a URL fragment
+ * @param hash - Fragment like "#code=..." (defaults to the current page's)
+ * @returns The program, or null if the fragment holds none
+ * @throws Error if the fragment holds a corrupt or oversized program
+ */
+export async function readSharedCode(hash: string = location.hash): Promise<string | null> {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_FRAGMENT_KEY);
+  return payload === null ? null : decodeSharedCode(payload);
+}
+
+/**
+ * Read the shared program from the current page's fragment and remove
+ * the fragment from the address bar, so a reload restores the saved
+ * session (which by then holds the edited program) instead of the link
+ * @returns The program, or null if the page was not opened from a link
+ * @throws Error if the fragment holds a corrupt or oversized program
+ *   (the fragment is removed as well)
+ */
+export async function consumeSharedCode(): Promise<string | null> {
+  const { hash } = location;
+  if (new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_FRAGMENT_KEY) === null) {
+    return null;
+  }
+  history.replaceState(history.state, '', location.pathname + location.search);
+  return readSharedCode(hash);
+}
+
+/**
+ * Share the current program: put its share link in the address bar
+ * (replacing the current history entry) and return the link for the
+ * clipboard
+ * @throws Error if the program is too large to share
+ */
+export async function shareProgram(code: string): Promise<string> {
+  const link = await createShareLink(code);
+  history.replaceState(history.state, '', link);
+  return link;
+}
@@ -18,21 +18,14 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-
-// Type definitions for index.json structure
-interface TextNode {
-  kind: 'text';
-  value: { expr: string; value?: string; name?: string };
-}
-
-interface ElementNode {
-  kind: 'element';
-  tag: string;
-  props?: Record<string, unknown>;
-  children?: ViewNode[];
-}
-
-type ViewNode = TextNode | ElementNode;
+import {
+  classOf,
+  query,
+  queryAll,
+  textsOf,
+  type NodeMatch,
+  type ViewNode,
+} from '../../test-utils/view-query';
 
 interface IndexJson {
   version: string;
@@ -45,99 +38,13 @@ interface IndexJson {
   view: ViewNode;
 }
 
-// Helper function to extract text content from a node recursively
-function extractTextContent(node: ViewNode): string {
-  if (node.kind === 'text') {
-    return node.value.value ?? '';
-  }
-  if (node.kind === 'element' && node.children) {
-    return node.children.map(extractTextContent).join('');
-  }
-  return '';
-}
-
-// Helper function to find all elements by tag name
-function findElementsByTag(node: ViewNode, tag: string): ElementNode[] {
-  const results: ElementNode[] = [];
-  
-  if (node.kind === 'element') {
-    if (node.tag === tag) {
-      results.push(node);
-    }
-    if (node.children) {
-      for (const child of node.children) {
-        results.push(...findElementsByTag(child, tag));
-      }
-    }
-  }
-  
-  return results;
-}
-
-// Helper function to find elements with specific text content
-function findElementWithText(node: ViewNode, tag: string, textPattern: RegExp): ElementNode | null {
-  if (node.kind === 'element') {
-    if (node.tag === tag) {
-      const text = extractTextContent(node);
-      if (textPattern.test(text)) {
-        return node;
-      }
-    }
-    if (node.children) {
-      for (const child of node.children) {
-        const found = findElementWithText(child, tag, textPattern);
-        if (found) return found;
-      }
-    }
-  }
-  return null;
-}
-
-// Helper function to find section containing specific heading
-function findSectionWithHeading(node: ViewNode, headingPattern: RegExp): ElementNode | null {
-  if (node.kind === 'element' && node.tag === 'section') {
-    // Check if this section contains an h2 with the pattern
-    const h2s = findElementsByTag(node, 'h2');
-    for (const h2 of h2s) {
-      const text = extractTextContent(h2);
-      if (headingPattern.test(text)) {
-        return node;
-      }
-    }
-  }
-  
-  if (node.kind === 'element' && node.children) {
-    for (const child of node.children) {
-      const found = findSectionWithHeading(child, headingPattern);
-      if (found) return found;
-    }
-  }
-  
-  return null;
-}
-
-// Helper function to extract all text content from a section
-function getAllTextInSection(section: ElementNode): string[] {
-  const texts: string[] = [];
-  
-  function traverse(node: ViewNode) {
-    if (node.kind === 'text' && node.value.value) {
-      texts.push(node.value.value);
-    }
-    if (node.kind === 'element' && node.children) {
-      node.children.forEach(traverse);
-    }
-  }
-  
-  traverse(section);
-  return texts;
-}
+const PERFORMANCE_SECTION = 'section:has(h2:text(/Performance\\s*(Comparison|vs|Benchmark)/i))';
 
 describe('index.json Performance Comparison Section', () => {
   // ==================== Setup ====================
   
   let indexJson: IndexJson;
-  let performanceSection: ElementNode | null;
+  let performanceSection: NodeMatch | null;
   
   beforeAll(() => {
     const indexPath = join(__dirname, '../../routes/index.json');
@@ -145,10 +52,7 @@ describe('index.json Performance Comparison Section', () => {
     indexJson = JSON.parse(content) as IndexJson;
     
     // Find the Performance Comparison section
-    performanceSection = findSectionWithHeading(
-      indexJson.view,
-      /Performance\s*(Comparison|vs|Benchmark)/i
-    );
+    performanceSection = query(indexJson.view, PERFORMANCE_SECTION);
   });
   
   // ==================== Section Existence ====================
@@ -163,7 +67,7 @@ describe('index.json Performance Comparison Section', () => {
       expect(performanceSection).not.toBeNull();
       
       if (performanceSection) {
-        const h2 = findElementWithText(performanceSection, 'h2', /Performance/i);
+        const h2 = query(performanceSection, 'h2:text(/Performance/i)');
         expect(h2).not.toBeNull();
       }
     });
@@ -180,7 +84,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
       
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
       
       // Check for Build Time label
@@ -199,7 +103,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
       
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
       
       // Check for node_modules label
@@ -218,7 +122,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
       
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
       
       // Check for Output Size label
@@ -237,7 +141,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
       
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
       
       // Check for Deploy Time label
@@ -269,7 +173,7 @@ describe('index.json Performance Comparison Section', () => {
          */
         expect(performanceSection).not.toBeNull();
         
-        const allText = getAllTextInSection(performanceSection!);
+        const allText = textsOf(performanceSection!);
         const combinedText = allText.join(' ');
         
         // Verify Constela value
@@ -290,7 +194,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
       
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
       
       const metricsFound = [
@@ -315,7 +219,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
       
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
       
       expect(combinedText).toMatch(/Constela/i);
@@ -329,7 +233,7 @@ describe('index.json Performance Comparison Section', () => {
        */
       expect(performanceSection).not.toBeNull();
 
-      const allText = getAllTextInSection(performanceSection!);
+      const allText = textsOf(performanceSection!);
       const combinedText = allText.join(' ');
 
       expect(combinedText).toMatch(/Next\.?js/i);
@@ -348,64 +252,14 @@ describe('index.json Performance Comparison Section', () => {
      * - Color-coded gradients per metric
      */
 
-    // Helper to find elements with specific class patterns
+    // Helper to find elements whose static class matches a pattern
     function findElementsWithClassPattern(
-      node: ViewNode,
+      root: NodeMatch,
       pattern: RegExp
-    ): ElementNode[] {
-      const results: ElementNode[] = [];
-
-      function traverse(n: ViewNode) {
-        if (n.kind === 'element') {
-          const classValue = n.props?.class;
-          if (classValue && typeof classValue === 'object' && 'value' in classValue) {
-            const className = String(classValue.value);
-            if (pattern.test(className)) {
-              results.push(n);
-            }
-          }
-          if (n.children) {
-            n.children.forEach(traverse);
-          }
-        }
-      }
-
-      traverse(node);
-      return results;
-    }
-
-    // Helper to find a metric card by its label text
-    function findMetricCard(section: ElementNode, metricName: string): ElementNode | null {
-      // Find all elements that might be cards (have rounded class)
-      const allElements: ElementNode[] = [];
-
-      function traverse(n: ViewNode) {
-        if (n.kind === 'element') {
-          allElements.push(n);
-          if (n.children) {
-            n.children.forEach(traverse);
-          }
-        }
-      }
-
-      traverse(section);
-
-      // Find the card containing the metric name
-      for (const el of allElements) {
-        const text = extractTextContent(el);
-        if (text.includes(metricName)) {
-          // Check if this element or its parent has card-like styling
-          const classValue = el.props?.class;
-          if (classValue && typeof classValue === 'object' && 'value' in classValue) {
-            const className = String(classValue.value);
-            if (className.includes('rounded')) {
-              return el;
-            }
-          }
-        }
-      }
-
-      return null;
+    ): NodeMatch[] {
+      return queryAll(root, '*', 'element').filter((match) =>
+        pattern.test(classOf(match))
+      );
     }
 
     describe('Container layout', () => {
@@ -502,7 +356,7 @@ describe('index.json Performance Comparison Section', () => {
          */
         expect(performanceSection).not.toBeNull();
 
-        const allText = getAllTextInSection(performanceSection!);
+        const allText = textsOf(performanceSection!);
 
         // Look for the decorative text (e.g., "5.6x faster")
         const has56xDecorative = allText.some(
@@ -0,0 +1,126 @@
+/**
+ * Test suite for playground.json auto-run
+ *
+ * Coverage:
+ * - onCodeChange schedules a run only with auto-run on
+ * - toggleAutoRun saves the setting and schedules or cancels runs
+ * - initPlayground restores the setting
+ * - A run with broken code keeps the last good app mounted
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createPlaygroundState,
+  runPlaygroundAction,
+} from '../../test-utils/playground-actions';
+
+const AUTO_RUN_KEY = 'playground-auto-run';
+
+function createRunner() {
+  return { schedule: vi.fn(), cancel: vi.fn(), onDidFire: vi.fn(), dispose: vi.fn() };
+}
+
+function createEditor(value: string) {
+  return { getValue: vi.fn(() => value), dispose: vi.fn() };
+}
+
+describe('playground.json auto-run', () => {
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  // ==================== onCodeChange ====================
+
+  it('should schedule a run on edit with auto-run on', async () => {
+    // Arrange
+    const autoRunner = createRunner();
+    const state = createPlaygroundState({
+      autoRun: true,
+      autoRunner,
+      editor: createEditor('{}'),
+    });
+
+    // Act
+    await runPlaygroundAction(state, 'onCodeChange');
+
+    // Assert
+    expect(state.get('code')).toBe('{}');
+    expect(autoRunner.schedule).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not schedule a run with auto-run off', async () => {
+    const autoRunner = createRunner();
+    const state = createPlaygroundState({ autoRunner, editor: createEditor('{}') });
+
+    await runPlaygroundAction(state, 'onCodeChange');
+
+    expect(autoRunner.schedule).not.toHaveBeenCalled();
+  });
+
+  // ==================== toggleAutoRun ====================
+
+  it('should turn auto-run on and schedule a run', async () => {
+    // Arrange
+    const autoRunner = createRunner();
+    const state = createPlaygroundState({ autoRunner });
+
+    // Act
+    await runPlaygroundAction(state, 'toggleAutoRun');
+
+    // Assert
+    expect(state.get('autoRun')).toBe(true);
+    expect(localStorage.getItem(AUTO_RUN_KEY)).toBe('true');
+    expect(autoRunner.schedule).toHaveBeenCalled();
+  });
+
+  it('should turn auto-run off and cancel a pending run', async () => {
+    const autoRunner = createRunner();
+    const state = createPlaygroundState({ autoRun: true, autoRunner });
+
+    await runPlaygroundAction(state, 'toggleAutoRun');
+
+    expect(state.get('autoRun')).toBe(false);
+    expect(localStorage.getItem(AUTO_RUN_KEY)).toBe('false');
+    expect(autoRunner.cancel).toHaveBeenCalled();
+  });
+
+  it('should restore the saved setting', async () => {
+    localStorage.setItem(AUTO_RUN_KEY, 'true');
+    const state = createPlaygroundState();
+
+    await runPlaygroundAction(state, 'initPlayground');
+
+    expect(state.get('autoRun')).toBe(true);
+  });
+
+  it('should dispose the runner on cleanup', async () => {
+    const autoRunner = createRunner();
+    const state = createPlaygroundState({ autoRunner, editor: createEditor('') });
+
+    await runPlaygroundAction(state, 'cleanup');
+
+    expect(autoRunner.dispose).toHaveBeenCalled();
+  });
+
+  // ==================== run ====================
+
+  it('should keep the last good app while the code is broken', async () => {
+    // Arrange
+    const app = { destroy: vi.fn() };
+    const state = createPlaygroundState({ code: '{ "version": "1.0", ', app });
+
+    // Act
+    await runPlaygroundAction(state, 'run');
+
+    // Assert
+    expect(state.get('messageType')).toBe('error');
+    expect(app.destroy).not.toHaveBeenCalled();
+    expect(state.get('app')).toBe(app);
+  });
+});
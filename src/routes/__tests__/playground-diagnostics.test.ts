@@ -0,0 +1,138 @@
+/**
+ * Test suite for playground.json diagnostics
+ *
+ * Coverage:
+ * - validate and run fill "errors" with located diagnostics and set markers
+ * - Markers are cleared when the program is valid
+ * - Errors are listed without locations when the helpers failed to load
+ * - revealError reveals the clicked error in the editor
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as helpers from '../../playground';
+import {
+  createPlaygroundState,
+  runPlaygroundAction,
+} from '../../test-utils/playground-actions';
+
+// ==================== Test Fixtures ====================
+
+const valid = {
+  version: '1.0',
+  state: { count: { type: 'number', initial: 0 } },
+  actions: [],
+  view: { kind: 'text', value: { expr: 'state', name: 'count' } },
+};
+
+function createEditor() {
+  return {
+    getModel: () => ({}),
+    setSelection: vi.fn(),
+    revealRangeInCenterIfOutsideViewport: vi.fn(),
+    focus: vi.fn(),
+  };
+}
+
+function createMonaco() {
+  return {
+    MarkerSeverity: { Error: 8, Warning: 4, Info: 2 },
+    editor: { setModelMarkers: vi.fn() },
+  };
+}
+
+describe('playground.json diagnostics', () => {
+  // ==================== validate ====================
+
+  describe('validate', () => {
+    it('should list a located error and mark it in the editor', async () => {
+      // Arrange
+      const code = JSON.stringify({ ...valid, view: { kind: 'bogus' } }, null, 2);
+      const monaco = createMonaco();
+      const state = createPlaygroundState({ code, helpers, monaco, editor: createEditor() });
+
+      // Act
+      await runPlaygroundAction(state, 'validate');
+
+      // Assert
+      expect(state.get('errors')).toEqual([
+        expect.objectContaining({
+          code: 'SCHEMA_INVALID',
+          path: '/view/kind',
+          startLineNumber: code.split('\n').findIndex((line) => line.includes('bogus')) + 1,
+        }),
+      ]);
+      expect(state.get('messageType')).toBe('error');
+      expect(monaco.editor.setModelMarkers).toHaveBeenLastCalledWith({}, 'constela', [
+        expect.objectContaining({ code: 'SCHEMA_INVALID', severity: 8 }),
+      ]);
+    });
+
+    it('should clear the markers of a valid program', async () => {
+      const monaco = createMonaco();
+      const state = createPlaygroundState({
+        code: JSON.stringify(valid),
+        helpers,
+        monaco,
+        editor: createEditor(),
+        errors: [{ code: 'SCHEMA_INVALID', message: 'stale' }],
+      });
+
+      await runPlaygroundAction(state, 'validate');
+
+      expect(state.get('errors')).toEqual([]);
+      expect(state.get('message')).toBe('Validation successful!');
+      expect(monaco.editor.setModelMarkers).toHaveBeenLastCalledWith({}, 'constela', []);
+    });
+
+    it('should list errors without locations when the helpers are missing', async () => {
+      const state = createPlaygroundState({
+        code: JSON.stringify({ ...valid, view: { kind: 'bogus' } }),
+      });
+
+      await runPlaygroundAction(state, 'validate');
+
+      expect(state.get('errors')).toEqual([
+        expect.objectContaining({ code: 'SCHEMA_INVALID', path: '/view/kind' }),
+      ]);
+    });
+  });
+
+  // ==================== run ====================
+
+  it('should list compile errors from run', async () => {
+    // Arrange
+    const code = JSON.stringify(
+      { ...valid, view: { kind: 'text', value: { expr: 'state', name: 'missing' } } },
+      null,
+      2,
+    );
+    const state = createPlaygroundState({ code, helpers });
+
+    // Act
+    await runPlaygroundAction(state, 'run');
+
+    // Assert
+    expect(state.get('message')).toBe('Compilation failed');
+    expect(state.get('errors')).toEqual([
+      expect.objectContaining({ code: 'UNDEFINED_STATE', startLineNumber: expect.any(Number) }),
+    ]);
+  });
+
+  // ==================== revealError ====================
+
+  it('should reveal the clicked error in the editor', async () => {
+    // Arrange
+    const editor = createEditor();
+    const state = createPlaygroundState({ helpers, editor });
+    const range = { startLineNumber: 4, startColumn: 3, endLineNumber: 4, endColumn: 9 };
+
+    // Act
+    await runPlaygroundAction(state, 'revealError', {
+      locals: { payload: { code: 'SCHEMA_INVALID', message: 'bad', ...range } },
+    });
+
+    // Assert
+    expect(editor.setSelection).toHaveBeenCalledWith(range);
+    expect(editor.focus).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Test suite for playground.json format commands
+ *
+ * Coverage:
+ * - formatCode runs the requested command
+ * - Failed commands are shown as an error message
+ * - cleanup removes the commands
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createPlaygroundState,
+  runPlaygroundAction,
+} from '../../test-utils/playground-actions';
+
+function createFormatter() {
+  return { run: vi.fn(), onDidFail: vi.fn(), dispose: vi.fn() };
+}
+
+describe('playground.json format commands', () => {
+  it('should run the requested command', async () => {
+    // Arrange
+    const formatter = createFormatter();
+    const state = createPlaygroundState({
+      formatter,
+      message: 'Invalid JSON syntax',
+      messageType: 'error',
+    });
+
+    // Act
+    await runPlaygroundAction(state, 'formatCode', { locals: { payload: 'sortKeys' } });
+
+    // Assert
+    expect(formatter.run).toHaveBeenCalledWith('sortKeys');
+    expect(state.get('message')).toBe('');
+  });
+
+  it('should do nothing before the editor is ready', async () => {
+    const state = createPlaygroundState();
+
+    await expect(
+      runPlaygroundAction(state, 'formatCode', { locals: { payload: 'format' } }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should show failed commands', async () => {
+    const state = createPlaygroundState();
+
+    await runPlaygroundAction(state, 'showFormatError', {
+      locals: { event: new SyntaxError('Unterminated string at line 1, column 6') },
+    });
+
+    expect(state.get('message')).toBe(
+      'Could not format the program: Unterminated string at line 1, column 6',
+    );
+    expect(state.get('messageType')).toBe('error');
+  });
+
+  it('should remove the commands on cleanup', async () => {
+    const formatter = createFormatter();
+    const state = createPlaygroundState({ formatter, editor: { dispose: vi.fn() } });
+
+    await runPlaygroundAction(state, 'cleanup');
+
+    expect(formatter.dispose).toHaveBeenCalled();
+  });
+});
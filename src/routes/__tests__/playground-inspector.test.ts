@@ -0,0 +1,132 @@
+/**
+ * Test suite for playground.json state inspector
+ *
+ * Coverage:
+ * - run mounts the instrumented program and attaches the inspector
+ * - Inspector changes are shown
+ * - travelTo travels the running app
+ * - A new run and cleanup dispose the previous inspector
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createPlaygroundState,
+  runPlaygroundAction,
+} from '../../test-utils/playground-actions';
+
+// ==================== Test Fixtures ====================
+
+const program = {
+  version: '1.0',
+  state: { count: { type: 'number', initial: 0 } },
+  actions: [],
+  view: { kind: 'text', value: { expr: 'state', name: 'count' } },
+};
+
+const inspection = {
+  rows: [{ key: 'count', label: 'count', depth: 0, preview: '0' }],
+  log: [],
+  current: -1,
+};
+
+function createInspector() {
+  return {
+    program: undefined as unknown,
+    attach: vi.fn(() => inspection),
+    travelTo: vi.fn(),
+    onDidChange: vi.fn(() => ({ dispose: vi.fn() })),
+    dispose: vi.fn(),
+  };
+}
+
+function createHelpers(inspector = createInspector()) {
+  return {
+    inspector,
+    helpers: {
+      createInspector: vi.fn((compiled: unknown) => {
+        inspector.program = compiled;
+        return inspector;
+      }),
+    },
+  };
+}
+
+describe('playground.json inspector', () => {
+  // ==================== run ====================
+
+  it('should attach an inspector to the running app', async () => {
+    // Arrange
+    const { inspector, helpers } = createHelpers();
+    const state = createPlaygroundState({ code: JSON.stringify(program), helpers });
+
+    // Act
+    await runPlaygroundAction(state, 'run');
+
+    // Assert
+    expect(state.get('message')).toBe('Running!');
+    expect(helpers.createInspector).toHaveBeenCalledWith(
+      expect.objectContaining({ version: '1.0', state: program.state }),
+    );
+    expect(inspector.attach).toHaveBeenCalledWith(state.get('app'));
+    expect(inspector.onDidChange).toHaveBeenCalledWith(expect.any(Function));
+    expect(state.get('inspector')).toBe(inspector);
+    expect(state.get('inspection')).toEqual(inspection);
+  });
+
+  it('should run without an inspector when the helpers are missing', async () => {
+    const state = createPlaygroundState({ code: JSON.stringify(program) });
+
+    await runPlaygroundAction(state, 'run');
+
+    expect(state.get('message')).toBe('Running!');
+    expect(state.get('inspector')).toBeNull();
+    expect(state.get('inspection')).toBeNull();
+  });
+
+  it('should dispose the previous inspector on a new run', async () => {
+    // Arrange
+    const previous = createInspector();
+    const { inspector, helpers } = createHelpers();
+    const state = createPlaygroundState({
+      code: JSON.stringify(program),
+      helpers,
+      inspector: previous,
+    });
+
+    // Act
+    await runPlaygroundAction(state, 'run');
+
+    // Assert
+    expect(previous.dispose).toHaveBeenCalled();
+    expect(state.get('inspector')).toBe(inspector);
+  });
+
+  // ==================== Actions ====================
+
+  it('should show inspector changes', async () => {
+    const state = createPlaygroundState();
+    const next = { ...inspection, current: 0 };
+
+    await runPlaygroundAction(state, 'onInspectorChange', { locals: { event: next } });
+
+    expect(state.get('inspection')).toBe(next);
+  });
+
+  it('should travel to a log entry', async () => {
+    const inspector = createInspector();
+    const state = createPlaygroundState({ inspector });
+
+    await runPlaygroundAction(state, 'travelTo', { locals: { payload: 2 } });
+
+    expect(inspector.travelTo).toHaveBeenCalledWith(2);
+  });
+
+  it('should dispose the inspector on cleanup', async () => {
+    const inspector = createInspector();
+    const state = createPlaygroundState({ inspector, editor: { dispose: vi.fn() } });
+
+    await runPlaygroundAction(state, 'cleanup');
+
+    expect(inspector.dispose).toHaveBeenCalled();
+  });
+});
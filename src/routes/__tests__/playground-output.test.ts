@@ -0,0 +1,101 @@
+/**
+ * Test suite for playground.json output panel
+ *
+ * Coverage:
+ * - run shows the parsed and compiled program in the output panel
+ * - The selected tab is applied and saved to localStorage
+ * - initPlayground restores the saved tab
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createPlaygroundState,
+  runPlaygroundAction,
+} from '../../test-utils/playground-actions';
+
+const TAB_KEY = 'playground-output-tab';
+
+function createOutput() {
+  return { update: vi.fn(), setTab: vi.fn(), dispose: vi.fn() };
+}
+
+describe('playground.json output panel', () => {
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  // ==================== run ====================
+
+  it('should show the parsed and compiled program of a run', async () => {
+    // Arrange
+    const program = {
+      version: '1.0',
+      state: {},
+      actions: [],
+      view: { kind: 'text', value: { expr: 'lit', value: 'Hello' } },
+    };
+    const output = createOutput();
+    const state = createPlaygroundState({ code: JSON.stringify(program), output });
+
+    // Act
+    await runPlaygroundAction(state, 'run');
+
+    // Assert
+    expect(state.get('message')).toBe('Running!');
+    expect(output.update).toHaveBeenCalledWith(
+      program,
+      expect.objectContaining({ version: '1.0', view: expect.any(Object) }),
+    );
+  });
+
+  it('should leave the output alone when compilation fails', async () => {
+    const output = createOutput();
+    const state = createPlaygroundState({
+      code: JSON.stringify({ version: '1.0', state: {}, actions: [], view: { kind: 'bogus' } }),
+      output,
+    });
+
+    await runPlaygroundAction(state, 'run');
+
+    expect(output.update).not.toHaveBeenCalled();
+  });
+
+  // ==================== Tabs ====================
+
+  it('should apply and save the selected tab', async () => {
+    // Arrange
+    const output = createOutput();
+    const state = createPlaygroundState({ output });
+
+    // Act
+    await runPlaygroundAction(state, 'selectOutputTab', { locals: { payload: 'diff' } });
+
+    // Assert
+    expect(state.get('outputTab')).toBe('diff');
+    expect(output.setTab).toHaveBeenCalledWith('diff');
+    expect(localStorage.getItem(TAB_KEY)).toBe(JSON.stringify('diff'));
+  });
+
+  it('should restore the saved tab', async () => {
+    localStorage.setItem(TAB_KEY, JSON.stringify('ast'));
+    const state = createPlaygroundState();
+
+    await runPlaygroundAction(state, 'initPlayground');
+
+    expect(state.get('outputTab')).toBe('ast');
+  });
+
+  it('should show the compiled program by default', async () => {
+    const state = createPlaygroundState();
+
+    await runPlaygroundAction(state, 'initPlayground');
+
+    expect(state.get('outputTab')).toBe('compiled');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Test suite for playground.json session persistence
+ *
+ * Coverage:
+ * - Edits are autosaved to localStorage
+ * - initPlayground restores the saved session for the same example
+ * - ?example= takes precedence over a session saved for another example
+ * - Snapshots are saved, restored, deleted and reloaded
+ * - resetToExample restores the example's code
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createPlaygroundState,
+  examples,
+  runPlaygroundAction,
+} from '../../test-utils/playground-actions';
+
+const SESSION_KEY = 'playground-session';
+const SNAPSHOTS_KEY = 'playground-snapshots';
+
+function stored(key: string): unknown {
+  const value = localStorage.getItem(key);
+  return value === null ? null : JSON.parse(value);
+}
+
+describe('playground.json session persistence', () => {
+  // ==================== Setup ====================
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  // ==================== Autosave ====================
+
+  it('should autosave edits with the example they belong to', async () => {
+    // Arrange
+    const state = createPlaygroundState();
+    state.set('example', 'counter');
+    state.set('editor', { getValue: () => '{ "edited": true }' });
+
+    // Act
+    await runPlaygroundAction(state, 'onCodeChange');
+
+    // Assert
+    expect(state.get('code')).toBe('{ "edited": true }');
+    expect(stored(SESSION_KEY)).toEqual({ example: 'counter', code: '{ "edited": true }' });
+  });
+
+  // ==================== Restore ====================
+
+  describe('initPlayground', () => {
+    it('should open the default example without a saved session', async () => {
+      const state = createPlaygroundState();
+
+      await runPlaygroundAction(state, 'initPlayground');
+
+      expect(state.get('example')).toBe(examples.defaultCode);
+      expect(state.get('code')).toBe(examples.codeStrings[examples.defaultCode]);
+    });
+
+    it('should restore the saved session', async () => {
+      // Arrange
+      localStorage.setItem(SESSION_KEY, JSON.stringify({ example: 'counter', code: 'saved' }));
+      const state = createPlaygroundState();
+
+      // Act
+      await runPlaygroundAction(state, 'initPlayground');
+
+      // Assert
+      expect(state.get('example')).toBe('counter');
+      expect(state.get('code')).toBe('saved');
+    });
+
+    it('should restore the session when reopening its example', async () => {
+      localStorage.setItem(SESSION_KEY, JSON.stringify({ example: 'counter', code: 'saved' }));
+      const state = createPlaygroundState();
+
+      await runPlaygroundAction(state, 'initPlayground', { query: { example: 'counter' } });
+
+      expect(state.get('code')).toBe('saved');
+    });
+
+    it('should open a different example from ?example= over the saved session', async () => {
+      // Arrange
+      localStorage.setItem(SESSION_KEY, JSON.stringify({ example: 'counter', code: 'saved' }));
+      const state = createPlaygroundState();
+
+      // Act
+      await runPlaygroundAction(state, 'initPlayground', { query: { example: 'todo-list' } });
+
+      // Assert
+      expect(state.get('example')).toBe('todo-list');
+      expect(state.get('code')).toBe(examples.codeStrings['todo-list']);
+    });
+
+    it('should load saved snapshots', async () => {
+      const snapshots = [{ name: 'First', code: '{}' }];
+      localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
+      const state = createPlaygroundState();
+
+      await runPlaygroundAction(state, 'initPlayground');
+
+      expect(state.get('snapshots')).toEqual(snapshots);
+    });
+  });
+
+  // ==================== Snapshots ====================
+
+  describe('snapshots', () => {
+    it('should save a named snapshot of the current code', async () => {
+      // Arrange
+      const state = createPlaygroundState();
+      state.set('code', 'v1');
+      await runPlaygroundAction(state, 'setSnapshotName', { locals: { value: 'Before refactor' } });
+
+      // Act
+      await runPlaygroundAction(state, 'saveSnapshot');
+
+      // Assert
+      const snapshots = [{ name: 'Before refactor', code: 'v1' }];
+      expect(state.get('snapshots')).toEqual(snapshots);
+      expect(stored(SNAPSHOTS_KEY)).toEqual(snapshots);
+      expect(state.get('snapshotName')).toBe('');
+    });
+
+    it('should number unnamed snapshots', async () => {
+      const state = createPlaygroundState();
+      state.set('code', 'v1');
+
+      await runPlaygroundAction(state, 'saveSnapshot');
+      await runPlaygroundAction(state, 'saveSnapshot');
+
+      expect(state.get('snapshots')).toEqual([
+        { name: 'Snapshot 1', code: 'v1' },
+        { name: 'Snapshot 2', code: 'v1' },
+      ]);
+    });
+
+    it('should restore a snapshot into the editor and the session', async () => {
+      // Arrange
+      const state = createPlaygroundState();
+      let editorValue = '';
+      state.set('example', 'counter');
+      state.set('editor', { setValue: (value: string) => (editorValue = value) });
+
+      // Act
+      await runPlaygroundAction(state, 'restoreSnapshot', {
+        locals: { payload: { name: 'First', code: 'v1' } },
+      });
+
+      // Assert
+      expect(state.get('code')).toBe('v1');
+      expect(editorValue).toBe('v1');
+      expect(stored(SESSION_KEY)).toEqual({ example: 'counter', code: 'v1' });
+      expect(state.get('message')).toBe('Restored First');
+    });
+
+    it('should delete a snapshot by index', async () => {
+      const state = createPlaygroundState();
+      state.set('snapshots', [
+        { name: 'First', code: 'v1' },
+        { name: 'Second', code: 'v2' },
+      ]);
+
+      await runPlaygroundAction(state, 'deleteSnapshot', { locals: { payload: 0 } });
+
+      expect(state.get('snapshots')).toEqual([{ name: 'Second', code: 'v2' }]);
+      expect(stored(SNAPSHOTS_KEY)).toEqual([{ name: 'Second', code: 'v2' }]);
+    });
+  });
+
+  // ==================== Reset ====================
+
+  it('should reset the code to the current example', async () => {
+    // Arrange
+    const state = createPlaygroundState();
+    let editorValue = '';
+    state.set('example', 'counter');
+    state.set('code', 'edited');
+    state.set('editor', { setValue: (value: string) => (editorValue = value) });
+
+    // Act
+    await runPlaygroundAction(state, 'resetToExample');
+
+    // Assert
+    expect(state.get('code')).toBe(examples.codeStrings.counter);
+    expect(editorValue).toBe(examples.codeStrings.counter);
+    expect(stored(SESSION_KEY)).toEqual({ example: 'counter', code: examples.codeStrings.counter });
+  });
+});
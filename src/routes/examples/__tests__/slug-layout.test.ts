@@ -17,34 +17,18 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-
-// Type definitions for [slug].json structure
-interface TextNode {
-  kind: 'text';
-  value: { expr: string; value?: string; name?: string; path?: string };
-}
-
-interface ElementNode {
-  kind: 'element';
-  tag: string;
-  props?: Record<string, unknown>;
-  children?: ViewNode[];
-}
-
-interface EachNode {
-  kind: 'each';
-  items: { expr: string; path?: string; base?: unknown };
-  as: string;
-  body: ViewNode;
-}
-
-interface CodeNode {
-  kind: 'code';
-  content: unknown;
-  language: unknown;
-}
-
-type ViewNode = TextNode | ElementNode | EachNode | CodeNode;
+import {
+  at,
+  childAt,
+  childMatches,
+  propOf,
+  query,
+  queryAll,
+  textOf,
+  type EachNode,
+  type NodeMatch,
+  type ViewNode,
+} from '../../../test-utils/view-query';
 
 interface SlugJson {
   version: string;
@@ -58,149 +42,34 @@ interface SlugJson {
   view: ViewNode;
 }
 
-// Helper function to extract text content from a node recursively
-function extractTextContent(node: ViewNode): string {
-  if (node.kind === 'text') {
-    return node.value.value ?? '';
-  }
-  if (node.kind === 'element' && node.children) {
-    return node.children.map(extractTextContent).join('');
-  }
-  if (node.kind === 'each' && node.body) {
-    return extractTextContent(node.body);
-  }
-  return '';
-}
-
-// Helper function to find all elements by tag name
-function findElementsByTag(node: ViewNode, tag: string): ElementNode[] {
-  const results: ElementNode[] = [];
-
-  if (node.kind === 'element') {
-    if (node.tag === tag) {
-      results.push(node);
-    }
-    if (node.children) {
-      for (const child of node.children) {
-        results.push(...findElementsByTag(child, tag));
-      }
-    }
-  }
-  if (node.kind === 'each' && node.body) {
-    results.push(...findElementsByTag(node.body, tag));
-  }
-
-  return results;
-}
-
-// Helper function to find elements with specific text content
-function findElementWithText(node: ViewNode, tag: string, textPattern: RegExp): ElementNode | null {
-  if (node.kind === 'element') {
-    if (node.tag === tag) {
-      const text = extractTextContent(node);
-      if (textPattern.test(text)) {
-        return node;
-      }
-    }
-    if (node.children) {
-      for (const child of node.children) {
-        const found = findElementWithText(child, tag, textPattern);
-        if (found) return found;
-      }
-    }
-  }
-  if (node.kind === 'each' && node.body) {
-    return findElementWithText(node.body, tag, textPattern);
-  }
-  return null;
-}
-
-// Helper function to find section containing specific heading text
-function findSectionWithHeading(node: ViewNode, headingPattern: RegExp): ElementNode | null {
-  if (node.kind === 'element' && node.tag === 'section') {
-    const h2s = findElementsByTag(node, 'h2');
-    for (const h2 of h2s) {
-      const text = extractTextContent(h2);
-      if (headingPattern.test(text)) {
-        return node;
-      }
-    }
-  }
-
-  if (node.kind === 'element' && node.children) {
-    for (const child of node.children) {
-      const found = findSectionWithHeading(child, headingPattern);
-      if (found) return found;
-    }
-  }
-
-  return null;
-}
-
-// Helper function to find all each nodes with their data path
-function findEachNodes(node: ViewNode): EachNode[] {
-  const results: EachNode[] = [];
-
-  if (node.kind === 'each') {
-    results.push(node);
-  }
-  if (node.kind === 'element' && node.children) {
-    for (const child of node.children) {
-      results.push(...findEachNodes(child));
-    }
-  }
-
-  return results;
-}
-
-// Helper function to extract class value from props
-function getClassValue(props: Record<string, unknown> | undefined): string {
-  if (!props?.class) return '';
-  const classObj = props.class as { value?: string; expr?: string };
-  if (classObj.value) return classObj.value;
-  return '';
-}
-
-// Helper to check if an expression contains conditional class logic
-function hasConditionalExpr(props: Record<string, unknown> | undefined): boolean {
-  if (!props?.class) return false;
-  const classObj = props.class as { expr?: string };
-  return classObj.expr === 'cond';
-}
+const FEATURES_SECTION = 'section:has(h2:text(/Features Used/i))';
 
 // Helper function to find section order by examining view children
 function getSectionOrder(view: ViewNode): string[] {
   const order: string[] = [];
 
-  if (view.kind !== 'element' || !view.children) return order;
+  if (view.kind !== 'element') return order;
 
-  for (const child of view.children) {
-    if (child.kind === 'element') {
-      // Check for header
-      if (child.tag === 'header') {
-        order.push('Header');
-        continue;
-      }
+  for (const child of childMatches({ node: view, pointer: '/view', ancestors: [] })) {
+    if (child.node.kind !== 'element') continue;
+
+    // Check for header
+    if (child.node.tag === 'header') {
+      order.push('Header');
+      continue;
+    }
 
-      // Check for section with h2
-      if (child.tag === 'section') {
-        const h2s = findElementsByTag(child, 'h2');
-        if (h2s.length > 0) {
-          const text = extractTextContent(h2s[0]);
-          if (text) {
-            order.push(text);
-          }
-        } else {
-          // Section without h2 - check for "Try in Playground" link
-          const anchors = findElementsByTag(child, 'a');
-          for (const anchor of anchors) {
-            const text = extractTextContent(anchor);
-            if (/Try in Playground/i.test(text)) {
-              order.push('Try in Playground');
-              break;
-            }
-          }
+    // Check for section with h2
+    if (child.node.tag === 'section') {
+      const h2 = query(child, 'h2');
+      if (h2) {
+        const text = textOf(h2);
+        if (text) {
+          order.push(text);
         }
+      } else if (query(child, 'a:text(/Try in Playground/i)')) {
+        // Section without h2 - check for "Try in Playground" link
+        order.push('Try in Playground');
       }
     }
   }
@@ -218,6 +87,13 @@ function getEachDataPath(eachNode: EachNode): string | null {
   return null;
 }
 
+// Helper to find text nodes that access a specific property path
+function findTextNodesWithPath(root: NodeMatch, pathName: string): NodeMatch[] {
+  return queryAll(root, ':kind(text)', 'text').filter(
+    ({ node }) => (node.value as { path?: string }).path === pathName,
+  );
+}
+
 describe('examples/[slug].json Layout Tests', () => {
   // ==================== Setup ====================
 
@@ -241,19 +117,19 @@ describe('examples/[slug].json Layout Tests', () => {
        * CURRENT BUG: Code uses "features" which doesn't exist in examples.json
        * The correct path is "featuresPreview"
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
       // Find the each loop in the features section
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       expect(eachNodes.length).toBeGreaterThan(0);
 
       // The items expression should reference "featuresPreview"
       const featureEach = eachNodes[0];
-      const dataPath = getEachDataPath(featureEach);
+      const dataPath = getEachDataPath(featureEach.node);
 
       // This test should FAIL because current code uses "features" instead of "featuresPreview"
-      expect(dataPath).toBe('featuresPreview');
+      expect(dataPath, at(featureEach)).toBe('featuresPreview');
     });
 
     it('should iterate over feature objects with name and category properties', () => {
@@ -262,26 +138,26 @@ describe('examples/[slug].json Layout Tests', () => {
        * When: Rendering feature items
        * Then: Each item should have access to name and category from featuresPreview
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       expect(eachNodes.length).toBeGreaterThan(0);
 
       const featureEach = eachNodes[0];
 
       // The body should reference feature.name for display
       // Current implementation just shows the feature as a string, not an object property
-      const bodyText = extractTextContent(featureEach.body);
+      const bodyText = textOf(childAt(featureEach, 0));
       // We expect the body to use feature.name, not just feature
       // This validates that the data structure expectation is correct
 
       // Check if the body element accesses .name property
-      const body = featureEach.body as ElementNode;
+      const body = childAt(featureEach, 0);
       const textNodes = findTextNodesWithPath(body, 'name');
 
       // Should have at least one text node that accesses the "name" property
-      expect(textNodes.length).toBeGreaterThan(0);
+      expect(textNodes.length, at(body)).toBeGreaterThan(0);
     });
   });
 
@@ -296,17 +172,17 @@ describe('examples/[slug].json Layout Tests', () => {
        *
        * CURRENT BUG: Code uses static class without category differentiation
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       expect(eachNodes.length).toBeGreaterThan(0);
 
       const featureEach = eachNodes[0];
-      const body = featureEach.body as ElementNode;
+      const body = childAt(featureEach, 0);
 
       // The body element should have a conditional class expression
-      expect(hasConditionalExpr(body.props)).toBe(true);
+      expect(propOf(body, 'class')?.expr, at(body)).toBe('cond');
     });
 
     it('should apply purple styling for state category features', () => {
@@ -315,15 +191,15 @@ describe('examples/[slug].json Layout Tests', () => {
        * When: Rendering the feature chip
        * Then: Should have purple text color (text-purple-*)
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       const featureEach = eachNodes[0];
-      const body = featureEach.body as ElementNode;
+      const body = childAt(featureEach, 0);
 
       // Check if class contains purple styling reference
-      const classExpr = body.props?.class as { expr?: string; cases?: unknown[] } | undefined;
+      const classExpr = propOf(body, 'class');
 
       // Should have conditional expression checking for "state" category
       const classStr = JSON.stringify(classExpr);
@@ -336,14 +212,14 @@ describe('examples/[slug].json Layout Tests', () => {
        * When: Rendering the feature chip
        * Then: Should have cyan text color (text-cyan-*)
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       const featureEach = eachNodes[0];
-      const body = featureEach.body as ElementNode;
+      const body = childAt(featureEach, 0);
 
-      const classExpr = body.props?.class;
+      const classExpr = propOf(body, 'class');
       const classStr = JSON.stringify(classExpr);
 
       expect(classStr).toMatch(/cyan/i);
@@ -355,14 +231,14 @@ describe('examples/[slug].json Layout Tests', () => {
        * When: Rendering the feature chip
        * Then: Should have pink text color (text-pink-*)
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       const featureEach = eachNodes[0];
-      const body = featureEach.body as ElementNode;
+      const body = childAt(featureEach, 0);
 
-      const classExpr = body.props?.class;
+      const classExpr = propOf(body, 'class');
       const classStr = JSON.stringify(classExpr);
 
       expect(classStr).toMatch(/pink/i);
@@ -374,14 +250,14 @@ describe('examples/[slug].json Layout Tests', () => {
        * When: Rendering the feature chip
        * Then: Should have gray text color as fallback
        */
-      const featuresSection = findSectionWithHeading(slugJson.view, /Features Used/i);
+      const featuresSection = query(slugJson.view, FEATURES_SECTION);
       expect(featuresSection).not.toBeNull();
 
-      const eachNodes = findEachNodes(featuresSection!);
+      const eachNodes = queryAll(featuresSection!, ':kind(each)', 'each');
       const featureEach = eachNodes[0];
-      const body = featureEach.body as ElementNode;
+      const body = childAt(featureEach, 0);
 
-      const classExpr = body.props?.class;
+      const classExpr = propOf(body, 'class');
       const classStr = JSON.stringify(classExpr);
 
       // Should have a default/fallback case with gray styling
@@ -485,22 +361,3 @@ describe('examples/[slug].json Layout Tests', () => {
     });
   });
 });
-
-// Helper to find text nodes that access a specific property path
-function findTextNodesWithPath(node: ViewNode, pathName: string): TextNode[] {
-  const results: TextNode[] = [];
-
-  if (node.kind === 'text') {
-    const value = node.value as { expr?: string; path?: string; name?: string };
-    if (value.path === pathName) {
-      results.push(node);
-    }
-  }
-  if (node.kind === 'element' && node.children) {
-    for (const child of node.children) {
-      results.push(...findTextNodesWithPath(child, pathName));
-    }
-  }
-
-  return results;
-}
@@ -0,0 +1,226 @@
+/**
+ * Test suite for the view tree query helpers used by layout tests
+ *
+ * Coverage:
+ * - Traversal of every node kind with JSON pointers
+ * - Static text extraction (lit, concat, "+")
+ * - Selectors: tag, class, attribute, :kind, :text, :has, :not, combinators
+ * - Typed queries and error messages naming pointers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ViewNode } from '@constela/core';
+import {
+  asKind,
+  childAt,
+  classOf,
+  get,
+  query,
+  queryAll,
+  staticValue,
+  textOf,
+  textsOf,
+  walkView,
+} from '../view-query';
+
+const lit = (value: string) => ({ expr: 'lit' as const, value });
+const text = (value: string): ViewNode => ({ kind: 'text', value: lit(value) });
+
+const view: ViewNode = {
+  kind: 'element',
+  tag: 'article',
+  children: [
+    {
+      kind: 'element',
+      tag: 'section',
+      props: { class: lit('mt-8 sm:grid-cols-2') },
+      children: [
+        { kind: 'element', tag: 'h2', children: [text('Features '), text('Used')] },
+        {
+          kind: 'each',
+          items: { expr: 'state', name: 'features' },
+          as: 'feature',
+          body: {
+            kind: 'element',
+            tag: 'li',
+            children: [{ kind: 'text', value: { expr: 'var', name: 'feature', path: 'name' } }],
+          },
+        },
+      ],
+    },
+    {
+      kind: 'element',
+      tag: 'section',
+      children: [
+        { kind: 'element', tag: 'h2', children: [text('Source Code')] },
+        {
+          kind: 'if',
+          condition: { expr: 'state', name: 'open' },
+          then: { kind: 'component', name: 'CodeBlock', props: { lang: lit('json') } },
+          else: { kind: 'slot', name: 'fallback' },
+        },
+        {
+          kind: 'portal',
+          target: 'body',
+          children: [
+            {
+              kind: 'island',
+              id: 'demo',
+              strategy: 'visible',
+              content: { kind: 'code', language: lit('json'), content: lit('{}') },
+            },
+          ],
+        },
+        {
+          kind: 'suspense',
+          id: 'load',
+          fallback: { kind: 'markdown', content: lit('Loading') },
+          content: {
+            kind: 'errorBoundary',
+            fallback: text('Failed'),
+            content: text('Done'),
+          },
+        },
+      ],
+    },
+  ],
+};
+
+describe('view-query', () => {
+  // ==================== Traversal ====================
+
+  describe('walkView', () => {
+    it('should visit every node kind with its JSON pointer', () => {
+      // Act
+      const visited = [...walkView(view)].map(({ node, pointer }) => `${node.kind} ${pointer}`);
+
+      // Assert
+      expect(visited).toEqual([
+        'element /view',
+        'element /view/children/0',
+        'element /view/children/0/children/0',
+        'text /view/children/0/children/0/children/0',
+        'text /view/children/0/children/0/children/1',
+        'each /view/children/0/children/1',
+        'element /view/children/0/children/1/body',
+        'text /view/children/0/children/1/body/children/0',
+        'element /view/children/1',
+        'element /view/children/1/children/0',
+        'text /view/children/1/children/0/children/0',
+        'if /view/children/1/children/1',
+        'component /view/children/1/children/1/then',
+        'slot /view/children/1/children/1/else',
+        'portal /view/children/1/children/2',
+        'island /view/children/1/children/2/children/0',
+        'code /view/children/1/children/2/children/0/content',
+        'suspense /view/children/1/children/3',
+        'markdown /view/children/1/children/3/fallback',
+        'errorBoundary /view/children/1/children/3/content',
+        'text /view/children/1/children/3/content/fallback',
+        'text /view/children/1/children/3/content/content',
+      ]);
+    });
+
+    it('should start from a custom root pointer', () => {
+      const [first] = walkView(text('x'), '/components/Card/view');
+      expect(first.pointer).toBe('/components/Card/view');
+    });
+  });
+
+  // ==================== Text ====================
+
+  describe('text extraction', () => {
+    it('should resolve lit, concat and "+" expressions', () => {
+      expect(staticValue(lit('a'))).toBe('a');
+      expect(staticValue({ expr: 'lit', value: 3 })).toBe('3');
+      expect(staticValue({ expr: 'concat', items: [lit('a'), lit('b')] })).toBe('ab');
+      expect(staticValue({ expr: 'bin', op: '+', left: lit('a'), right: lit('b') })).toBe('ab');
+    });
+
+    it('should treat dynamic expressions as unresolved', () => {
+      expect(staticValue({ expr: 'state', name: 'x' })).toBeUndefined();
+      expect(
+        staticValue({ expr: 'concat', items: [lit('a'), { expr: 'state', name: 'x' }] }),
+      ).toBeUndefined();
+      expect(staticValue({ expr: 'lit', value: null })).toBeUndefined();
+    });
+
+    it('should collect static text in document order', () => {
+      expect(textsOf(view)).toEqual(['Features ', 'Used', 'Source Code', 'Failed', 'Done']);
+      expect(textOf(get(view, 'h2'))).toBe('Features Used');
+    });
+  });
+
+  // ==================== Selectors ====================
+
+  describe('selectors', () => {
+    it('should match tags, classes and escaped Tailwind classes', () => {
+      expect(queryAll(view, 'section')).toHaveLength(2);
+      expect(get(view, 'section.mt-8').pointer).toBe('/view/children/0');
+      expect(get(view, '.sm\\:grid-cols-2').pointer).toBe('/view/children/0');
+      expect(classOf(get(view, 'section'))).toBe('mt-8 sm:grid-cols-2');
+    });
+
+    it('should match node kinds and node fields as attributes', () => {
+      expect(get(view, ':kind(each)[as="feature"]').pointer).toBe('/view/children/0/children/1');
+      expect(get(view, ':kind(component)[name=CodeBlock][lang="json"]').node.kind).toBe(
+        'component',
+      );
+      expect(query(view, ':kind(slot)[name^="fall"]')).not.toBeNull();
+      expect(query(view, ':kind(each)[as="section"]')).toBeNull();
+    });
+
+    it('should match text with strings and regular expressions', () => {
+      expect(get(view, 'h2:text("Source")').pointer).toBe('/view/children/1/children/0');
+      expect(get(view, 'h2:text(/features\\s+used/i)').pointer).toBe(
+        '/view/children/0/children/0',
+      );
+    });
+
+    it('should support :has and :not', () => {
+      expect(get(view, 'section:has(h2:text("Source Code"))').pointer).toBe('/view/children/1');
+      expect(get(view, 'section:not(.mt-8)').pointer).toBe('/view/children/1');
+      expect(queryAll(view, 'section:has(:kind(each))')).toHaveLength(1);
+    });
+
+    it('should support descendant, child and comma combinators', () => {
+      expect(queryAll(view, 'article h2')).toHaveLength(2);
+      expect(queryAll(view, 'article > h2')).toHaveLength(0);
+      expect(queryAll(view, 'section > :kind(each) > li')).toHaveLength(1);
+      expect(queryAll(view, 'h2, li')).toHaveLength(3);
+    });
+
+    it('should search within an earlier match', () => {
+      const section = get(view, 'section:has(h2:text("Features Used"))');
+      const li = get(section, 'li');
+      expect(li.pointer).toBe('/view/children/0/children/1/body');
+      expect(query(section, ':kind(component)')).toBeNull();
+    });
+
+    it('should reject invalid selectors', () => {
+      expect(() => queryAll(view, 'section:first-child')).toThrow(/unknown pseudo-class/);
+      expect(() => queryAll(view, 'h2:text("x"')).toThrow(/Invalid selector/);
+    });
+  });
+
+  // ==================== Typed results ====================
+
+  describe('typed results', () => {
+    it('should narrow results to the requested kind', () => {
+      const each = get(view, '[as="feature"]', 'each');
+      expect(each.node.as).toBe('feature');
+      expect(childAt(each, 0).node.kind).toBe('element');
+    });
+
+    it('should name the selector and pointer when nothing matches', () => {
+      const section = get(view, 'section');
+      expect(() => get(section, 'table')).toThrow(
+        'No node matches "table" under /view/children/0',
+      );
+      expect(() => asKind(section, 'each')).toThrow(
+        'Expected each node at /view/children/0, found element',
+      );
+      expect(() => childAt(section, 5)).toThrow('No child 5 under /view/children/0');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Harness that compiles an example program, mounts it with
+ * @constela/runtime in the test DOM and runs its interaction script.
+ *
+ * Interaction scripts are declared in each example's metadata,
+ * src/examples/<slug>/meta.json ("interactions"), e.g.
+ *   [
+ *     { "do": "expectText", "text": "0" },
+ *     { "do": "click", "role": "button", "name": "+" },
+ *     { "do": "expectText", "text": "1" }
+ *   ]
+ * Elements are found by ARIA role and accessible name, as a reader
+ * would find them; portals render into document.body, so the whole
+ * document is searched.
+ */
+
+import { compile } from '@constela/compiler';
+import { createApp, type AppInstance } from '@constela/runtime';
+import { fireEvent, screen, waitFor, type ByRoleMatcher } from '@testing-library/dom';
+
+/**
+ * Element targeted by a step: the index-th element with the role
+ * (and accessible name, if given)
+ */
+interface InteractionTarget {
+  role: ByRoleMatcher;
+  name?: string;
+  /** Defaults to 0 */
+  index?: number;
+}
+
+/**
+ * One step of an example's interaction script
+ * - click: click an element
+ * - input: set the value of a text field and fire "input"
+ * - mockFetch: answer fetch requests for a URL with JSON
+ * - expectText: wait for an element whose text is (or, with
+ *   exact: false, contains) the given text
+ * - expectNoText: the text is not shown
+ */
+export type ExampleInteraction =
+  | ({ do: 'click' } & InteractionTarget)
+  | ({ do: 'input'; value: string } & InteractionTarget)
+  | { do: 'mockFetch'; url: string; json: unknown }
+  | { do: 'expectText'; text: string; exact?: boolean }
+  | { do: 'expectNoText'; text: string; exact?: boolean };
+
+/**
+ * A mounted example
+ */
+export interface MountedExample {
+  app: AppInstance;
+  container: HTMLElement;
+  /** Unmount the app and remove the container */
+  unmount(): void;
+}
+
+/**
+ * Compile an example program and mount it into a new container
+ * @throws Error listing compile errors if the program does not compile
+ */
+export function mountExample(code: unknown): MountedExample {
+  const result = compile(code);
+  if (!result.ok) {
+    const errors = result.errors.map(
+      (error) => `${error.path ?? ''} [${error.code}] ${error.message}`,
+    );
+    throw new Error(`Example does not compile:\n${errors.join('\n')}`);
+  }
+
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const app = createApp(result.program, container);
+
+  return {
+    app,
+    container,
+    unmount() {
+      app.destroy();
+      container.remove();
+    },
+  };
+}
+
+function findTarget(target: InteractionTarget): HTMLElement {
+  const elements = screen.getAllByRole(target.role, {
+    ...(target.name !== undefined ? { name: target.name } : {}),
+  });
+  const element = elements[target.index ?? 0];
+  if (!element) {
+    throw new Error(
+      `No ${target.role} #${target.index ?? 0} (found ${elements.length}) for ${JSON.stringify(target)}`,
+    );
+  }
+  return element;
+}
+
+/**
+ * Fetch stub answering mocked URLs; other requests fail like a
+ * network error, so examples never reach the network in tests
+ */
+export function createFetchStub(responses: Map<string, unknown>): typeof fetch {
+  return async (input) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (!responses.has(url)) {
+      throw new TypeError(`Unmocked fetch: ${url}`);
+    }
+    return new Response(JSON.stringify(responses.get(url)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Run an interaction script against the mounted example
+ * @param steps - The example's "interactions"
+ * @param fetchResponses - Filled by mockFetch steps; pass the map
+ *   behind the fetch stub installed for the test
+ * @throws Error (or a failed assertion) naming the failing step
+ */
+export async function runInteractions(
+  steps: ExampleInteraction[],
+  fetchResponses: Map<string, unknown>,
+): Promise<void> {
+  for (const [index, step] of steps.entries()) {
+    try {
+      switch (step.do) {
+        case 'click':
+          fireEvent.click(findTarget(step));
+          break;
+        case 'input':
+          fireEvent.input(findTarget(step), { target: { value: step.value } });
+          break;
+        case 'mockFetch':
+          fetchResponses.set(step.url, step.json);
+          break;
+        case 'expectText':
+          await screen.findByText(step.text, { exact: step.exact ?? true });
+          break;
+        case 'expectNoText':
+          await waitFor(() => {
+            if (screen.queryByText(step.text, { exact: step.exact ?? true })) {
+              throw new Error(`"${step.text}" is still shown`);
+            }
+          });
+          break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      throw new Error(`Step ${index} ${JSON.stringify(step)} failed: ${message}`);
+    }
+  }
+}
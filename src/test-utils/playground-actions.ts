@@ -0,0 +1,85 @@
+/**
+ * Harness that runs actions of src/routes/playground.json with
+ * @constela/runtime's executeAction, without mounting the page.
+ *
+ * State lives in a @constela/runtime state store seeded from the route's
+ * initial state; "route" and "import" expressions see the given query
+ * and the committed examples.json, e.g.
+ *   const state = createPlaygroundState({ example: 'counter' });
+ *   await runPlaygroundAction(state, 'initPlayground', { query: { example: 'counter' } });
+ *   expect(state.get('code')).toBe(examples.codeStrings.counter);
+ * Module imports ("import" steps) resolve like any dynamic import, so
+ * the constela-playground helpers and Monaco fail to load; tests put
+ * the helpers in the "helpers" state themselves when they need them.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createStateStore, executeAction, type StateStore } from '@constela/runtime';
+import type { CompiledAction } from '@constela/compiler';
+
+interface PlaygroundJson {
+  state: Record<string, { type: string; initial: unknown }>;
+  actions: CompiledAction[];
+}
+
+/**
+ * The committed examples data imported by the route as "examples"
+ */
+export const examples = JSON.parse(
+  readFileSync(join(__dirname, '../data/examples.json'), 'utf-8'),
+) as { defaultCode: string; codeStrings: Record<string, string> };
+
+const playground = JSON.parse(
+  readFileSync(join(__dirname, '../routes/playground.json'), 'utf-8'),
+) as PlaygroundJson;
+
+const actions = Object.fromEntries(
+  playground.actions.map((action) => [action.name, action]),
+);
+
+/**
+ * Create a state store with the route's initial values, then the overrides
+ * @throws Error if an override names a field the route does not declare
+ */
+export function createPlaygroundState(
+  overrides: Record<string, unknown> = {},
+): StateStore {
+  for (const name of Object.keys(overrides)) {
+    if (!(name in playground.state)) {
+      throw new Error(`playground.json has no state "${name}"`);
+    }
+  }
+  return createStateStore(
+    Object.fromEntries(
+      Object.entries(playground.state).map(([name, field]) => [
+        name,
+        { type: field.type, initial: name in overrides ? overrides[name] : field.initial },
+      ]),
+    ),
+  );
+}
+
+/**
+ * Run a playground action
+ * @param options.locals - Locals visible to the action (payload, value, ...)
+ * @param options.query - Query parameters of the page URL
+ * @throws Error if the route has no such action
+ */
+export async function runPlaygroundAction(
+  state: StateStore,
+  name: string,
+  options: { locals?: Record<string, unknown>; query?: Record<string, string> } = {},
+): Promise<void> {
+  const action = actions[name];
+  if (!action) {
+    throw new Error(`playground.json has no action "${name}"`);
+  }
+  await executeAction(action, {
+    state,
+    actions,
+    locals: options.locals ?? {},
+    route: { params: {}, query: options.query ?? {}, path: '/playground' },
+    imports: { examples },
+  });
+}
@@ -0,0 +1,627 @@
+/**
+ * Query helpers for Constela view trees in tests.
+ *
+ * Walks every node kind (element, text, if, each, component, slot,
+ * markdown, code, portal, island, suspense, errorBoundary) and selects
+ * nodes with CSS-like selectors, e.g.
+ *   section:has(h2:text("Features Used")) :kind(each)
+ *   aside.fixed.left-0 > nav
+ *   :kind(each)[as="section"]
+ *
+ * Every match carries the JSON pointer of the node (e.g.
+ * "/view/children/2/children/1"), so assertion messages can say
+ * where in the file a node was found.
+ */
+
+import type {
+  CodeNode,
+  ComponentNode,
+  EachNode,
+  ElementNode,
+  ErrorBoundaryNode,
+  Expression,
+  IfNode,
+  IslandNode,
+  MarkdownNode,
+  PortalNode,
+  SlotNode,
+  SuspenseNode,
+  TextNode,
+  ViewNode,
+} from '@constela/core';
+
+export type {
+  CodeNode,
+  ComponentNode,
+  EachNode,
+  ElementNode,
+  ErrorBoundaryNode,
+  IfNode,
+  IslandNode,
+  MarkdownNode,
+  PortalNode,
+  SlotNode,
+  SuspenseNode,
+  TextNode,
+  ViewNode,
+};
+
+export type ViewNodeKind = ViewNode['kind'];
+
+/**
+ * The node type for a kind, e.g. NodeOfKind<'each'> is EachNode
+ */
+export type NodeOfKind<K extends ViewNodeKind> = Extract<ViewNode, { kind: K }>;
+
+/**
+ * A node found in a view tree
+ */
+export interface NodeMatch<T extends ViewNode = ViewNode> {
+  node: T;
+  /** JSON pointer of the node, relative to the file root */
+  pointer: string;
+  /** Enclosing nodes, outermost first */
+  ancestors: NodeMatch[];
+}
+
+// ==================== Traversal ====================
+
+/**
+ * Child node slots for each node kind, in document order
+ */
+const CHILD_KEYS: Record<ViewNodeKind, string[]> = {
+  element: ['children'],
+  text: [],
+  if: ['then', 'else'],
+  each: ['body'],
+  component: ['children'],
+  slot: [],
+  markdown: [],
+  code: [],
+  portal: ['children'],
+  island: ['content'],
+  suspense: ['fallback', 'content'],
+  errorBoundary: ['fallback', 'content'],
+};
+
+/**
+ * Direct child nodes with their JSON pointers
+ */
+export function childMatches(parent: NodeMatch): NodeMatch[] {
+  const record = parent.node as unknown as Record<string, unknown>;
+  const ancestors = [...parent.ancestors, parent];
+  const children: NodeMatch[] = [];
+
+  for (const key of CHILD_KEYS[parent.node.kind] ?? []) {
+    const value = record[key];
+    if (Array.isArray(value)) {
+      value.forEach((node: ViewNode, index) => {
+        children.push({ node, pointer: `${parent.pointer}/${key}/${index}`, ancestors });
+      });
+    } else if (value && typeof value === 'object') {
+      children.push({ node: value as ViewNode, pointer: `${parent.pointer}/${key}`, ancestors });
+    }
+  }
+  return children;
+}
+
+function toMatch(root: ViewNode | NodeMatch, pointer: string): NodeMatch {
+  return 'node' in root && 'pointer' in root
+    ? root
+    : { node: root as ViewNode, pointer, ancestors: [] };
+}
+
+/**
+ * Yield a node and all of its descendants, depth first in document order
+ * @param root - A view node, or a match from an earlier query
+ * @param pointer - JSON pointer of a bare root node (default "/view")
+ */
+export function* walkView(
+  root: ViewNode | NodeMatch,
+  pointer = '/view',
+): Generator<NodeMatch> {
+  const start = toMatch(root, pointer);
+  const stack = [start];
+  while (stack.length > 0) {
+    const match = stack.pop()!;
+    yield match;
+    stack.push(...childMatches(match).reverse());
+  }
+}
+
+// ==================== Expressions and text ====================
+
+/**
+ * Resolve an expression that does not depend on state or data:
+ * lit values, concat of static items and "+" of static operands.
+ * @returns The value as a string, or undefined if it is dynamic
+ */
+export function staticValue(expr: Expression | undefined): string | undefined {
+  if (!expr || typeof expr !== 'object') {
+    return undefined;
+  }
+  switch (expr.expr) {
+    case 'lit':
+      return expr.value === null || typeof expr.value === 'object'
+        ? undefined
+        : String(expr.value);
+    case 'concat': {
+      const items = expr.items.map(staticValue);
+      return items.every((item) => item !== undefined) ? items.join('') : undefined;
+    }
+    case 'bin': {
+      if (expr.op !== '+') return undefined;
+      const left = staticValue(expr.left);
+      const right = staticValue(expr.right);
+      return left !== undefined && right !== undefined ? left + right : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Static strings of all text nodes under a node, in document order.
+ * Both branches of "if" nodes are included; dynamic text is skipped.
+ */
+export function textsOf(root: ViewNode | NodeMatch): string[] {
+  const texts: string[] = [];
+  for (const { node } of walkView(root)) {
+    if (node.kind === 'text') {
+      const text = staticValue(node.value);
+      if (text) texts.push(text);
+    }
+  }
+  return texts;
+}
+
+/**
+ * Concatenated static text under a node
+ */
+export function textOf(root: ViewNode | NodeMatch): string {
+  return textsOf(root).join('');
+}
+
+/**
+ * A prop expression of an element or component node
+ */
+export function propOf(
+  root: ViewNode | NodeMatch,
+  name: string,
+): Expression | undefined {
+  const node = 'pointer' in root ? root.node : root;
+  if (node.kind !== 'element' && node.kind !== 'component') {
+    return undefined;
+  }
+  return node.props?.[name] as Expression | undefined;
+}
+
+/**
+ * The static class string of a node ("" if absent or dynamic)
+ */
+export function classOf(root: ViewNode | NodeMatch): string {
+  return staticValue(propOf(root, 'class')) ?? '';
+}
+
+// ==================== Selectors ====================
+
+type TextPattern = string | RegExp;
+
+interface AttributeSelector {
+  name: string;
+  op?: '=' | '*=' | '^=' | '$=';
+  value?: string;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  kind?: string;
+  classes: string[];
+  attributes: AttributeSelector[];
+  texts: TextPattern[];
+  has: Selector[];
+  not: Selector[];
+}
+
+/** Compounds joined by combinators, e.g. "section > ul li" */
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  /** combinators[i] joins compounds[i] and compounds[i + 1] */
+  combinators: ('descendant' | 'child')[];
+}
+
+/** Comma-separated alternatives */
+type Selector = ComplexSelector[];
+
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): Selector {
+    const selector = this.parseSelector();
+    if (this.pos < this.source.length) {
+      this.fail(`unexpected "${this.source[this.pos]}"`);
+    }
+    return selector;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid selector "${this.source}" at ${this.pos}: ${message}`);
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? '';
+  }
+
+  private skipSpaces(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.peek())) this.pos++;
+    return this.pos > start;
+  }
+
+  private parseSelector(): Selector {
+    const alternatives = [this.parseComplex()];
+    while (this.peek() === ',') {
+      this.pos++;
+      alternatives.push(this.parseComplex());
+    }
+    return alternatives;
+  }
+
+  private parseComplex(): ComplexSelector {
+    this.skipSpaces();
+    const complex: ComplexSelector = { compounds: [this.parseCompound()], combinators: [] };
+
+    for (;;) {
+      const spaced = this.skipSpaces();
+      const char = this.peek();
+      if (char === '>') {
+        this.pos++;
+        this.skipSpaces();
+        complex.combinators.push('child');
+      } else if (spaced && char !== '' && char !== ',' && char !== ')') {
+        complex.combinators.push('descendant');
+      } else {
+        return complex;
+      }
+      complex.compounds.push(this.parseCompound());
+    }
+  }
+
+  private parseIdent(): string {
+    const match = this.source.slice(this.pos).match(/^[\w-]+/);
+    if (!match) this.fail('expected a name');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /** Tailwind characters are escaped as in CSS, e.g. ".sm\\:grid-cols-2" */
+  private parseClassName(): string {
+    const match = this.source.slice(this.pos).match(/^(?:\\.|[\w-])+/);
+    if (!match) this.fail('expected a class name');
+    this.pos += match[0].length;
+    return match[0].replace(/\\(.)/g, '$1');
+  }
+
+  private parseString(): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") this.fail('expected a quoted string');
+    const end = this.source.indexOf(quote, this.pos + 1);
+    if (end < 0) this.fail('unterminated string');
+    const value = this.source.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private parseTextPattern(): TextPattern {
+    if (this.peek() !== '/') {
+      return this.parseString();
+    }
+    const match = this.source.slice(this.pos).match(/^\/((?:\\.|[^/\\])+)\/([a-z]*)/);
+    if (!match) this.fail('invalid regular expression');
+    this.pos += match[0].length;
+    return new RegExp(match[1], match[2]);
+  }
+
+  private expect(char: string): void {
+    this.skipSpaces();
+    if (this.peek() !== char) this.fail(`expected "${char}"`);
+    this.pos++;
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = {
+      classes: [],
+      attributes: [],
+      texts: [],
+      has: [],
+      not: [],
+    };
+    const start = this.pos;
+
+    if (this.peek() === '*') {
+      this.pos++;
+    } else if (/[\w-]/.test(this.peek())) {
+      compound.tag = this.parseIdent();
+    }
+
+    for (;;) {
+      const char = this.peek();
+      if (char === '.') {
+        this.pos++;
+        compound.classes.push(this.parseClassName());
+      } else if (char === '[') {
+        this.pos++;
+        this.skipSpaces();
+        const attribute: AttributeSelector = { name: this.parseIdent() };
+        this.skipSpaces();
+        const op = this.source.slice(this.pos).match(/^(?:=|\*=|\^=|\$=)/)?.[0];
+        if (op) {
+          this.pos += op.length;
+          this.skipSpaces();
+          attribute.op = op as AttributeSelector['op'];
+          attribute.value = /["']/.test(this.peek()) ? this.parseString() : this.parseIdent();
+        }
+        this.expect(']');
+        compound.attributes.push(attribute);
+      } else if (char === ':') {
+        this.pos++;
+        const pseudo = this.parseIdent();
+        if (!['kind', 'text', 'has', 'not'].includes(pseudo)) {
+          this.fail(`unknown pseudo-class ":${pseudo}"`);
+        }
+        this.expect('(');
+        this.skipSpaces();
+        if (pseudo === 'kind') {
+          compound.kind = this.parseIdent();
+        } else if (pseudo === 'text') {
+          compound.texts.push(this.parseTextPattern());
+        } else if (pseudo === 'has') {
+          compound.has.push(this.parseSelector());
+        } else {
+          compound.not.push(this.parseSelector());
+        }
+        this.expect(')');
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) {
+      this.fail('expected a selector');
+    }
+    return compound;
+  }
+}
+
+const selectorCache = new Map<string, Selector>();
+
+function parseSelector(source: string): Selector {
+  let selector = selectorCache.get(source);
+  if (!selector) {
+    selector = new SelectorParser(source).parse();
+    selectorCache.set(source, selector);
+  }
+  return selector;
+}
+
+/**
+ * Value of an attribute selector on a node: a static prop value of an
+ * element/component, or a primitive field such as each.as or slot.name
+ */
+function attributeOf(node: ViewNode, name: string): string | boolean | undefined {
+  const prop = propOf(node, name);
+  if (prop !== undefined) {
+    return staticValue(prop) ?? true;
+  }
+  const field = (node as unknown as Record<string, unknown>)[name];
+  if (typeof field === 'string' || typeof field === 'number' || typeof field === 'boolean') {
+    return String(field);
+  }
+  return undefined;
+}
+
+function matchesAttribute(node: ViewNode, attribute: AttributeSelector): boolean {
+  const actual = attributeOf(node, attribute.name);
+  if (actual === undefined || !attribute.op) {
+    return actual !== undefined;
+  }
+  if (typeof actual !== 'string') {
+    return false;
+  }
+  const expected = attribute.value ?? '';
+  switch (attribute.op) {
+    case '=':
+      return actual === expected;
+    case '*=':
+      return actual.includes(expected);
+    case '^=':
+      return actual.startsWith(expected);
+    case '$=':
+      return actual.endsWith(expected);
+  }
+}
+
+function matchesText(match: NodeMatch, pattern: TextPattern): boolean {
+  const text = textOf(match);
+  return typeof pattern === 'string' ? text.includes(pattern) : pattern.test(text);
+}
+
+function matchesCompound(match: NodeMatch, compound: CompoundSelector): boolean {
+  const { node } = match;
+  if (compound.tag && (node.kind !== 'element' || node.tag !== compound.tag)) {
+    return false;
+  }
+  if (compound.kind && node.kind !== compound.kind) {
+    return false;
+  }
+  if (compound.classes.length > 0) {
+    const classes = classOf(node).split(/\s+/);
+    if (!compound.classes.every((name) => classes.includes(name))) {
+      return false;
+    }
+  }
+  return (
+    compound.attributes.every((attribute) => matchesAttribute(node, attribute)) &&
+    compound.texts.every((pattern) => matchesText(match, pattern)) &&
+    compound.has.every((selector) => hasDescendant(match, selector)) &&
+    compound.not.every((selector) => !matchesSelector(match, selector))
+  );
+}
+
+/**
+ * Match compounds[0..index] against a node and its ancestors (right to left)
+ */
+function matchesFrom(match: NodeMatch, complex: ComplexSelector, index: number): boolean {
+  if (!matchesCompound(match, complex.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+  const ancestors = match.ancestors;
+  if (complex.combinators[index - 1] === 'child') {
+    const parent = ancestors[ancestors.length - 1];
+    return parent !== undefined && matchesFrom(parent, complex, index - 1);
+  }
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (matchesFrom(ancestors[i], complex, index - 1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesSelector(match: NodeMatch, selector: Selector): boolean {
+  return selector.some((complex) =>
+    matchesFrom(match, complex, complex.compounds.length - 1),
+  );
+}
+
+/**
+ * Whether any descendant of a node matches, with the node as the scope
+ */
+function hasDescendant(match: NodeMatch, selector: Selector): boolean {
+  const scope: NodeMatch = { ...match, ancestors: [] };
+  for (const candidate of walkView(scope)) {
+    if (candidate !== scope && matchesSelector(candidate, selector)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// ==================== Queries ====================
+
+/**
+ * Whether a node matches a selector, taking its ancestors into account
+ */
+export function matches(match: NodeMatch, selector: string): boolean {
+  return matchesSelector(match, parseSelector(selector));
+}
+
+/**
+ * All nodes under root (including root) that match a selector.
+ * Combinators only look at ancestors inside root.
+ * @param root - A view node, or a match from an earlier query to search within
+ * @param selector - CSS-like selector (see module docs)
+ * @param kind - Only return nodes of this kind, typed accordingly
+ * @throws Error if the selector is invalid
+ */
+export function queryAll(root: ViewNode | NodeMatch, selector: string): NodeMatch[];
+export function queryAll<K extends ViewNodeKind>(
+  root: ViewNode | NodeMatch,
+  selector: string,
+  kind: K,
+): NodeMatch<NodeOfKind<K>>[];
+export function queryAll(
+  root: ViewNode | NodeMatch,
+  selector: string,
+  kind?: ViewNodeKind,
+): NodeMatch[] {
+  const parsed = parseSelector(selector);
+  const scope = toMatch(root, '/view');
+  const results: NodeMatch[] = [];
+  for (const match of walkView({ ...scope, ancestors: [] })) {
+    if ((!kind || match.node.kind === kind) && matchesSelector(match, parsed)) {
+      results.push({ ...match, ancestors: [...scope.ancestors, ...match.ancestors] });
+    }
+  }
+  return results;
+}
+
+/**
+ * The first node under root that matches a selector, or null
+ */
+export function query(root: ViewNode | NodeMatch, selector: string): NodeMatch | null;
+export function query<K extends ViewNodeKind>(
+  root: ViewNode | NodeMatch,
+  selector: string,
+  kind: K,
+): NodeMatch<NodeOfKind<K>> | null;
+export function query(
+  root: ViewNode | NodeMatch,
+  selector: string,
+  kind?: ViewNodeKind,
+): NodeMatch | null {
+  return (kind ? queryAll(root, selector, kind) : queryAll(root, selector))[0] ?? null;
+}
+
+/**
+ * The first node under root that matches a selector
+ * @throws Error naming the selector and the pointer searched if none matches
+ */
+export function get(root: ViewNode | NodeMatch, selector: string): NodeMatch;
+export function get<K extends ViewNodeKind>(
+  root: ViewNode | NodeMatch,
+  selector: string,
+  kind: K,
+): NodeMatch<NodeOfKind<K>>;
+export function get(
+  root: ViewNode | NodeMatch,
+  selector: string,
+  kind?: ViewNodeKind,
+): NodeMatch {
+  const found = kind ? query(root, selector, kind) : query(root, selector);
+  if (!found) {
+    const where = toMatch(root, '/view').pointer;
+    throw new Error(
+      `No ${kind ? `${kind} node` : 'node'} matches "${selector}" under ${where}`,
+    );
+  }
+  return found;
+}
+
+/**
+ * Narrow a match to a node kind
+ * @throws Error naming the pointer if the node is of another kind
+ */
+export function asKind<K extends ViewNodeKind>(
+  match: NodeMatch,
+  kind: K,
+): NodeMatch<NodeOfKind<K>> {
+  if (match.node.kind !== kind) {
+    throw new Error(`Expected ${kind} node at ${match.pointer}, found ${match.node.kind}`);
+  }
+  return match as NodeMatch<NodeOfKind<K>>;
+}
+
+/**
+ * Direct child of a match at an index, as a match
+ * @throws Error naming the pointer if there is no such child
+ */
+export function childAt(match: NodeMatch, index: number): NodeMatch {
+  const child = childMatches(match)[index];
+  if (!child) {
+    throw new Error(`No child ${index} under ${match.pointer}`);
+  }
+  return child;
+}
+
+/**
+ * Message prefix locating a node, for expect(value, at(match))
+ */
+export function at(match: NodeMatch): string {
+  return `at ${match.pointer}`;
+}